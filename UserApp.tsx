@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { AppView, User, VoiceState, Post, Comment, ScrollState, Notification, Campaign, Group, Story, Conversation, Call } from './types';
+import { AppView, User, VoiceState, Post, Comment, ScrollState, Notification, Campaign, Group, Story, Conversation, Call, VoiceMacro } from './types';
 import AuthScreen from './components/AuthScreen';
 import FeedScreen from './components/FeedScreen';
 import ExploreScreen from './components/ExploreScreen';
@@ -18,7 +18,7 @@ import Icon from './components/Icon';
 import AdModal from './components/AdModal';
 import { geminiService } from './services/geminiService';
 import { firebaseService } from './services/firebaseService';
-import { IMAGE_GENERATION_COST, REWARD_AD_COIN_VALUE, getTtsPrompt } from './constants';
+import { IMAGE_GENERATION_COST, REWARD_AD_COIN_VALUE, REWARD_AD_DAILY_LIMIT, getTtsPrompt } from './constants';
 import ConversationsScreen from './components/ConversationsScreen';
 import AdsScreen from './components/AdsScreen';
 import CampaignViewerModal from './components/CampaignViewerModal';
@@ -44,12 +44,17 @@ import ShareModal from './components/ShareModal';
 import LeadFormModal from './components/LeadFormModal';
 import ImageModal from './components/ImageModal';
 import { useSettings } from './contexts/SettingsContext';
+import { speechService, SPEECH_LOCALES } from './services/speechService';
+import { matchIntent, matchWakePhrase, MIN_LOCAL_CONFIDENCE, IntentMatch } from './services/intentMatcher';
+import { dialogueManager } from './services/dialogueManager';
+import { commandHistory } from './services/commandHistory';
 import ChatManager from './components/ChatManager';
 import IncomingCallModal from './components/IncomingCallModal';
 import CallScreen from './components/CallScreen';
 import CommentSheet from './components/CommentSheet';
 import ReportModal from './components/ReportModal';
 import HelpScreen from './components/HelpScreen';
+import VoiceCoinsScreen from './components/VoiceCoinsScreen';
 
 
 interface ViewState {
@@ -57,6 +62,13 @@ interface ViewState {
   props?: any;
 }
 
+// Delay between the steps of a chained command or macro.
+const CHAIN_STEP_DELAY_MS = 600;
+
+// Progress notes shown in the command bar but not read aloud: they only say what the app is doing,
+// and "Listening..." would be heard by the mic.
+const UNSPOKEN_STATUS_MESSAGES = new Set(['Say a command...', 'Listening...', 'Correcting transcript...', 'Correction failed. Using original text.']);
+
 interface CommentSheetState {
     post: Post;
     commentToReplyTo?: Comment;
@@ -107,7 +119,7 @@ const MobileMenuScreen: React.FC<{
                     <MenuItem 
                         iconName="coin" 
                         label="Voice Coins" 
-                        onClick={() => {}}
+                        onClick={() => onNavigate(AppView.VOICE_COINS)}
                         badge={currentUser.voiceCoins || 0}
                     />
                      <MenuItem 
@@ -187,7 +199,7 @@ const UserApp: React.FC = () => {
   const [isLoadingViewerPost, setIsLoadingViewerPost] = useState(false);
   const [hiddenPostIds, setHiddenPostIds] = useState(new Set<string>());
   const [reportModalContent, setReportModalContent] = useState<{ content: Post | Comment | User; contentType: 'post' | 'comment' | 'user' } | null>(null);
-  const { language } = useSettings();
+  const { language, isHandsFreeEnabled, setHandsFreeEnabled } = useSettings();
 
   const [activeChats, setActiveChats] = useState<User[]>([]);
   const [minimizedChats, setMinimizedChats] = useState<Set<string>>(new Set());
@@ -209,6 +221,11 @@ const UserApp: React.FC = () => {
   const notificationPanelRef = useRef<HTMLDivElement>(null);
   const profileMenuRef = useRef<HTMLDivElement>(null);
   const recognitionRef = useRef<any>(null); // To hold the active speech recognition instance
+  const wakeRecognitionRef = useRef<any>(null); // The hands-free recognizer waiting for the wake phrase
+  const captureAfterWakeRef = useRef(false); // Start a command capture once the wake recognizer has ended
+  const pendingStepsRef = useRef<string[]>([]); // Steps of a chained command or macro still to run
+  const stepTimeoutRef = useRef<number | null>(null);
+  const macroRecordingRef = useRef<VoiceMacro | null>(null); // The macro being recorded, if any
   const viewerPostUnsubscribe = useRef<(() => void) | null>(null);
   const mainContentRef = useRef<HTMLDivElement>(null);
   const currentView = viewStack[viewStack.length - 1];
@@ -448,6 +465,7 @@ const UserApp: React.FC = () => {
       const unsubscribeUserDoc = firebaseService.listenToCurrentUser(currentUserId, async (userProfile) => {
           if (userProfile && !userProfile.isDeactivated && !userProfile.isBanned) {
               setUser(userProfile);
+              setGlobalAuthError('');
 
               if (isFirstLoad) {
                   if (!initialDeepLink) {
@@ -463,7 +481,11 @@ const UserApp: React.FC = () => {
               }
           } else {
               if (userProfile?.isDeactivated) console.log(`User ${currentUserId} is deactivated. Signing out.`);
-              if (userProfile?.isBanned) console.log(`User ${currentUserId} is banned. Signing out.`);
+              if (userProfile?.isBanned) {
+                  console.log(`User ${currentUserId} is banned. Signing out.`);
+                  const banMessage = getTtsPrompt('login_banned', language);
+                  setGlobalAuthError(userProfile.banReason ? `${banMessage} ${userProfile.banReason}` : banMessage);
+              }
               handleLogout();
           }
           setIsAuthLoading(false);
@@ -499,6 +521,10 @@ const UserApp: React.FC = () => {
     const unsubscribeGroups = firebaseService.listenToUserGroups(user.id, setGroups);
     unsubscribes.push(unsubscribeGroups);
 
+    // Reminders are issued client-side, once per attendee, when they next open the app; attendees who
+    // don't open it before the event get none.
+    firebaseService.sendDueEventReminders(user);
+
     return () => {
         unsubscribes.forEach(unsub => unsub());
     };
@@ -547,6 +573,13 @@ const UserApp: React.FC = () => {
     setTtsMessage(getTtsPrompt('welcome', language));
   }, [language]);
 
+  // Reads each new prompt aloud, except progress notes and anything set while the mic is open.
+  useEffect(() => {
+    if (voiceState !== VoiceState.LISTENING && !UNSPOKEN_STATUS_MESSAGES.has(ttsMessage)) {
+      speechService.speak(ttsMessage);
+    }
+  }, [ttsMessage]);
+
   
   useEffect(() => {
     if (!user && !isAuthLoading && currentView?.view !== AppView.AUTH) {
@@ -577,24 +610,163 @@ const UserApp: React.FC = () => {
       });
   }, []);
 
-  const handleCommand = useCallback((command: string) => {
+  // Hands a single command to the current screen.
+  const dispatchCommand = useCallback((command: string) => {
     setVoiceState(VoiceState.PROCESSING);
     setScrollState(ScrollState.NONE);
     setLastCommand(command);
     setCommandInputValue('');
   }, []);
 
+  // Runs the first step now; handleCommandProcessed starts each following one.
+  const runCommandSteps = useCallback((steps: string[]) => {
+    const [first, ...rest] = steps;
+    pendingStepsRef.current = rest;
+    if (first) dispatchCommand(first);
+  }, [dispatchCommand]);
+
+  const saveVoiceMacros = useCallback(async (voiceMacros: VoiceMacro[]) => {
+    if (!user) return;
+    setUser(u => u ? { ...u, voiceMacros } : null);
+    await geminiService.updateProfile(user.id, { voiceMacros });
+  }, [user?.id]);
+
+  // Recording, running and deleting macros. Returns true when the command was one of these. A
+  // macro also runs when the user simply says its name.
+  const handleMacroCommand = useCallback((command: string, match: IntentMatch | null): boolean => {
+    const macros = user?.voiceMacros || [];
+    const intent = match && match.confidence >= MIN_LOCAL_CONFIDENCE ? match.intent : null;
+    const name = ((match?.slots?.macro_name as string | undefined) || '').trim();
+    const findMacro = (macroName: string) => macros.find(m => m.name.toLowerCase() === macroName.toLowerCase());
+    const reply = (key: string, options?: { [key: string]: string | number }) => {
+      setTtsMessage(getTtsPrompt(key, language, options));
+      setVoiceState(VoiceState.IDLE);
+    };
+
+    switch (intent) {
+      case 'intent_start_macro_recording':
+        macroRecordingRef.current = { name, commands: [] };
+        reply('macro_recording_started', { name });
+        return true;
+      case 'intent_stop_macro_recording': {
+        const recorded = macroRecordingRef.current;
+        macroRecordingRef.current = null;
+        if (!recorded) {
+          reply('macro_not_recording');
+        } else if (recorded.commands.length === 0) {
+          reply('macro_empty', { name: recorded.name });
+        } else {
+          saveVoiceMacros([...macros.filter(m => m !== findMacro(recorded.name)), recorded]);
+          reply('macro_saved', { name: recorded.name, count: recorded.commands.length });
+        }
+        return true;
+      }
+      case 'intent_delete_macro': {
+        const macro = findMacro(name);
+        if (macro) {
+          saveVoiceMacros(macros.filter(m => m !== macro));
+          reply('macro_deleted', { name: macro.name });
+        } else {
+          reply('macro_not_found', { name });
+        }
+        return true;
+      }
+    }
+
+    const macro = findMacro(intent === 'intent_run_macro' ? name : command.trim().replace(/[?!.।]+$/, ''));
+    if (macro) {
+      setTtsMessage(getTtsPrompt('macro_running', language, { name: macro.name }));
+      runCommandSteps(macro.commands);
+      return true;
+    }
+    if (intent === 'intent_run_macro') {
+      reply('macro_not_found', { name });
+      return true;
+    }
+    return false;
+  }, [user?.voiceMacros, language, saveVoiceMacros, runCommandSteps]);
+
+  // rawTranscript is what speech recognition heard, before correctTranscript; typed commands have none.
+  const handleCommand = useCallback(async (command: string, rawTranscript: string = command) => {
+    speechService.stop(); // Whatever was being said is about the previous command.
+    if (user) {
+      commandHistory.start(user.id, rawTranscript, command);
+    }
+
+    // A new command replaces whatever is left of a chain, unless it answers a question the chain asked.
+    const isAnswer = dialogueManager.isActive();
+    if (stepTimeoutRef.current) {
+      clearTimeout(stepTimeoutRef.current);
+      stepTimeoutRef.current = null;
+    }
+    if (!isAnswer) {
+      pendingStepsRef.current = [];
+    }
+
+    // Hands-free mode is toggled here rather than by a screen, so the command works everywhere.
+    const localMatch = matchIntent(command, { macroNames: (userRef.current?.voiceMacros || []).map(m => m.name) });
+    if (localMatch && localMatch.confidence >= MIN_LOCAL_CONFIDENCE
+        && (localMatch.intent === 'intent_start_listening' || localMatch.intent === 'intent_stop_listening')) {
+      const enable = localMatch.intent === 'intent_start_listening';
+      commandHistory.finish(localMatch);
+      setHandsFreeEnabled(enable);
+      setTtsMessage(getTtsPrompt(enable ? 'hands_free_on' : 'hands_free_off', language));
+      setCommandInputValue('');
+      setVoiceState(VoiceState.IDLE);
+      return;
+    }
+
+    if (!isAnswer && handleMacroCommand(command, localMatch)) {
+      commandHistory.finish(localMatch && localMatch.confidence >= MIN_LOCAL_CONFIDENCE ? localMatch : { intent: 'intent_run_macro', slots: { macro_name: command } });
+      setCommandInputValue('');
+      return;
+    }
+
+    // Answers go straight to the waiting dialogue; they're neither split nor recorded.
+    if (isAnswer) {
+      dispatchCommand(command);
+      return;
+    }
+
+    setVoiceState(VoiceState.PROCESSING);
+    setCommandInputValue('');
+    const steps = await geminiService.splitCommand(command);
+    if (steps.length > 1) {
+      commandHistory.finish({ intent: 'intent_command_chain', slots: { steps: steps.join(' → ') } });
+    }
+    macroRecordingRef.current?.commands.push(...steps);
+    runCommandSteps(steps);
+  }, [user?.id, language, setHandsFreeEnabled, handleMacroCommand, dispatchCommand, runCommandSteps]);
+
   const handleCommandProcessed = useCallback(() => {
     setLastCommand(null);
+    // A follow-up question from the dialogue manager replaces whatever the screen said. Any
+    // remaining chained steps wait until it has been answered.
+    const prompt = dialogueManager.takePrompt();
+    if (prompt) {
+      setVoiceState(VoiceState.IDLE);
+      setTtsMessage(getTtsPrompt(prompt.key, language, prompt.options));
+      return;
+    }
+
+    const nextStep = pendingStepsRef.current.shift();
+    if (nextStep) {
+      // The pause lets a screen opened by the previous step mount before the next step reaches it.
+      stepTimeoutRef.current = window.setTimeout(() => {
+        stepTimeoutRef.current = null;
+        dispatchCommand(nextStep);
+      }, CHAIN_STEP_DELAY_MS);
+      return;
+    }
     setVoiceState(VoiceState.IDLE);
-  }, []);
+  }, [language, dispatchCommand]);
 
   const correctAndSubmit = useCallback(async (rawTranscript: string) => {
     setVoiceState(VoiceState.PROCESSING);
     setTtsMessage("Correcting transcript...");
     try {
         const correctedText = await geminiService.correctTranscript(rawTranscript);
-        handleCommand(correctedText);
+        handleCommand(correctedText, rawTranscript);
     } catch (error) {
         console.error("Error correcting transcript:", error);
         setTtsMessage("Correction failed. Using original text.");
@@ -602,29 +774,8 @@ const UserApp: React.FC = () => {
     }
   }, [handleCommand]);
 
-  const handleMicClick = useCallback(() => {
-    if (isChatRecording) {
-      setTtsMessage("In-chat voice message is currently recording.");
-      return;
-    }
-
+  const startCommandRecognition = useCallback(() => {
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      setTtsMessage(getTtsPrompt('error_no_speech_rec', language));
-      return;
-    }
-
-    if (voiceState === VoiceState.LISTENING) {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-      return;
-    }
-
-    if (voiceState === VoiceState.PROCESSING) {
-      return;
-    }
-
     const recognition = new SpeechRecognition();
     recognitionRef.current = recognition;
 
@@ -673,8 +824,111 @@ const UserApp: React.FC = () => {
       }
     };
 
+    speechService.stop();
     recognition.start();
-  }, [voiceState, language, isChatRecording, correctAndSubmit]);
+  }, [language, correctAndSubmit]);
+
+  const handleMicClick = useCallback(() => {
+    if (isChatRecording) {
+      setTtsMessage("In-chat voice message is currently recording.");
+      return;
+    }
+
+    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    if (!SpeechRecognition) {
+      setTtsMessage(getTtsPrompt('error_no_speech_rec', language));
+      return;
+    }
+
+    if (voiceState === VoiceState.LISTENING) {
+      if (recognitionRef.current) {
+        recognitionRef.current.stop();
+      }
+      return;
+    }
+
+    if (voiceState === VoiceState.PROCESSING) {
+      return;
+    }
+
+    // The hands-free recognizer holds the mic while idle; take over once it has let go.
+    if (wakeRecognitionRef.current) {
+      captureAfterWakeRef.current = true;
+      wakeRecognitionRef.current.stop();
+      return;
+    }
+
+    startCommandRecognition();
+  }, [voiceState, language, isChatRecording, startCommandRecognition]);
+
+  // Hands-free mode: while idle, keep a continuous recognizer open that only reacts to the wake
+  // phrase. Browsers end these sessions after a stretch of silence, so it restarts itself; it is
+  // torn down whenever a command is being captured or processed and comes back afterwards.
+  useEffect(() => {
+    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    if (!isHandsFreeEnabled || !SpeechRecognition || voiceState !== VoiceState.IDLE || isChatRecording) {
+      return;
+    }
+
+    let isActive = true;
+    let restartTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const listenForWakePhrase = () => {
+      const recognition = new SpeechRecognition();
+      wakeRecognitionRef.current = recognition;
+      recognition.lang = SPEECH_LOCALES[language];
+      recognition.continuous = true;
+      recognition.interimResults = false;
+      recognition.maxAlternatives = 1;
+
+      recognition.onresult = (event: any) => {
+        if (speechService.isSpeaking()) return; // Don't wake up to our own voice.
+        const result = event.results[event.results.length - 1];
+        const wake = result.isFinal ? matchWakePhrase(result[0].transcript) : null;
+        if (!wake) return;
+
+        isActive = false;
+        if (wake.command) {
+          recognition.stop();
+          correctAndSubmit(wake.command);
+        } else {
+          captureAfterWakeRef.current = true;
+          recognition.stop();
+        }
+      };
+
+      recognition.onerror = (event: any) => {
+        if (event.error === 'no-speech' || event.error === 'aborted') return;
+        console.error('Hands-free recognition error', event.error);
+        isActive = false;
+        setHandsFreeEnabled(false);
+        setTtsMessage(getTtsPrompt(event.error === 'not-allowed' || event.error === 'service-not-allowed' ? 'error_mic_permission' : 'hands_free_off', language));
+      };
+
+      recognition.onend = () => {
+        if (wakeRecognitionRef.current === recognition) {
+          wakeRecognitionRef.current = null;
+        }
+        if (captureAfterWakeRef.current) {
+          captureAfterWakeRef.current = false;
+          startCommandRecognition();
+        } else if (isActive) {
+          restartTimer = setTimeout(listenForWakePhrase, 300);
+        }
+      };
+
+      recognition.start();
+    };
+
+    listenForWakePhrase();
+
+    return () => {
+      isActive = false;
+      clearTimeout(restartTimer);
+      wakeRecognitionRef.current?.abort();
+      wakeRecognitionRef.current = null;
+    };
+  }, [isHandsFreeEnabled, voiceState, isChatRecording, language, correctAndSubmit, startCommandRecognition]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -731,12 +985,21 @@ const UserApp: React.FC = () => {
                 navigate(AppView.MANAGE_GROUP, { groupId: notification.groupId, initialTab: 'requests' });
             }
             break;
+        case 'event_reminder':
+            if (notification.groupId) {
+                navigate(AppView.GROUP_EVENTS, { groupId: notification.groupId });
+            }
+            break;
         case 'campaign_approved':
         case 'campaign_rejected':
             navigate(AppView.ADS_CENTER);
             break;
+        case 'coins_received':
+            navigate(AppView.VOICE_COINS);
+            break;
         case 'admin_announcement':
         case 'admin_warning':
+        case 'report_resolved':
             if (notification.message) {
                 setTtsMessage(notification.message);
                 alert(`[Admin Message] ${notification.message}`);
@@ -753,29 +1016,30 @@ const UserApp: React.FC = () => {
       setIsShowingAd(true);
   };
 
-  const handleAdViewed = (campaignId: string) => {
-      firebaseService.trackAdView(campaignId);
-  };
+  // Stable across renders so FeedScreen's impression effect doesn't re-run (and re-charge) on every update.
+  const handleAdViewed = useCallback((campaignId: string) => {
+      firebaseService.trackAdView(campaignId, userRef.current);
+  }, []);
 
-  const handleAdComplete = async (campaignId?: string) => {
+  const handleAdComplete = async (campaignId: string) => {
       if (!user) return;
       
       setIsShowingAd(false);
       setCampaignForAd(null);
 
-      const success = await geminiService.updateVoiceCoins(user.id, REWARD_AD_COIN_VALUE);
+      const result = await geminiService.earnRewardedAdCoins(user.id, campaignId);
 
-      if (success) {
+      if (result.success) {
           setUser(prevUser => {
               if (!prevUser) return null;
               return {
                   ...prevUser,
-                  voiceCoins: (prevUser.voiceCoins || 0) + REWARD_AD_COIN_VALUE
+                  voiceCoins: result.balance ?? (prevUser.voiceCoins || 0) + REWARD_AD_COIN_VALUE
               };
           });
           setTtsMessage(getTtsPrompt('reward_claim_success', language, { coins: REWARD_AD_COIN_VALUE }));
-          if (campaignId) {
-          }
+      } else if (result.reason === 'daily_limit_reached') {
+          setTtsMessage(getTtsPrompt('reward_daily_limit_reached', language, { limit: REWARD_AD_DAILY_LIMIT }));
       } else {
           setTtsMessage(getTtsPrompt('transaction_failed', language));
       }
@@ -787,15 +1051,16 @@ const UserApp: React.FC = () => {
     setTtsMessage("Ad skipped. No reward was earned.");
   };
 
-  const handleDeductCoinsForImage = async (): Promise<boolean> => {
+  const handleDeductCoinsForImage = async (imageCount: number): Promise<boolean> => {
     if (!user) return false;
-    return await geminiService.updateVoiceCoins(user.id, -IMAGE_GENERATION_COST);
+    const result = await geminiService.spendVoiceCoins(user.id, IMAGE_GENERATION_COST * imageCount, 'image_generation');
+    return result.success;
   };
 
   const handleAdClick = async (post: Post) => {
     if (!user || !post.isSponsored || !post.campaignId) return;
 
-    await firebaseService.trackAdClick(post.campaignId);
+    await firebaseService.trackAdClick(post.campaignId, user);
     
     if (post.allowLeadForm) {
         setTtsMessage(getTtsPrompt('lead_form_opened', language));
@@ -806,6 +1071,7 @@ const UserApp: React.FC = () => {
     } else if (post.allowDirectMessage && post.sponsorId) {
         const sponsorUser = await firebaseService.getUserProfileById(post.sponsorId);
         if (sponsorUser) {
+            firebaseService.trackAdMessage(post.campaignId, user);
             setTtsMessage(`Opening conversation with ${sponsorUser.name}.`);
             await handleOpenConversation(sponsorUser);
         } else {
@@ -834,11 +1100,12 @@ const UserApp: React.FC = () => {
         await firebaseService.submitLead({
             campaignId: leadFormPost.campaignId,
             sponsorId: leadFormPost.sponsorId,
+            userId: user.id,
             userName: leadData.name,
             userEmail: leadData.email,
             userPhone: leadData.phone || undefined,
             createdAt: new Date().toISOString(),
-        });
+        }, user);
         setLeadFormPost(null);
         setTtsMessage(getTtsPrompt('lead_form_submitted', language));
     } catch (error) {
@@ -914,7 +1181,12 @@ const UserApp: React.FC = () => {
         setTtsMessage(getTtsPrompt('comment_suspended', language));
         return;
     }
-    await firebaseService.createComment(user, postId, { text, parentId, imageId });
+    try {
+        await firebaseService.createComment(user, postId, { text, parentId, imageId });
+    } catch (error: any) {
+        console.error("Failed to post comment:", error);
+        setTtsMessage(`Failed to post comment: ${error.message}`);
+    }
   };
 
   const handleEditComment = async (postId: string, commentId: string, newText: string) => {
@@ -1028,7 +1300,7 @@ const UserApp: React.FC = () => {
       }
   };
 
-  const handleNavigation = (viewName: 'feed' | 'explore' | 'reels' | 'friends' | 'settings' | 'profile' | 'messages' | 'ads_center' | 'rooms' | 'groups' | 'menu' | 'help') => {
+  const handleNavigation = (viewName: 'feed' | 'explore' | 'reels' | 'friends' | 'settings' | 'profile' | 'messages' | 'ads_center' | 'rooms' | 'groups' | 'menu' | 'help' | 'voice_coins') => {
     setNotificationPanelOpen(false);
     switch(viewName) {
         case 'feed': setViewStack([{ view: AppView.FEED }]); break;
@@ -1043,6 +1315,7 @@ const UserApp: React.FC = () => {
         case 'groups': setViewStack([{ view: AppView.GROUPS_HUB }]); break;
         case 'menu': navigate(AppView.MOBILE_MENU); break;
         case 'help': navigate(AppView.HELP); break;
+        case 'voice_coins': navigate(AppView.VOICE_COINS); break;
     }
   }
   
@@ -1109,7 +1382,7 @@ const UserApp: React.FC = () => {
             initialAuthError={globalAuthError}
         />;
       case AppView.FEED:
-        return <FeedScreen {...commonScreenProps} posts={posts} isLoading={isLoadingFeed} onReactToPost={handleReactToPost} onStartCreatePost={handleStartCreatePost} onRewardedAdClick={handleRewardedAdClick} onAdClick={handleAdClick} onAdViewed={handleAdViewed} friends={friends} setSearchResults={setSearchResults} onDeletePost={handleDeletePost} onReportPost={handleReportPost} hiddenPostIds={hiddenPostIds} onHidePost={handleHidePost} onSavePost={handleSavePost} onCopyLink={handleCopyLink} />;
+        return <FeedScreen {...commonScreenProps} posts={posts} isLoading={isLoadingFeed} onReactToPost={handleReactToPost} onStartCreatePost={handleStartCreatePost} onRewardedAdClick={handleRewardedAdClick} onAdClick={handleAdClick} onAdViewed={handleAdViewed} friends={friends} setSearchResults={setSearchResults} onDeletePost={handleDeletePost} onReportPost={handleReportPost} hiddenPostIds={hiddenPostIds} onHidePost={handleHidePost} onSavePost={handleSavePost} onCopyLink={handleCopyLink} onOpenConversation={handleOpenConversation} />;
       case AppView.EXPLORE:
         return <ExploreScreen {...commonScreenProps} onReactToPost={handleReactToPost} onDeletePost={handleDeletePost} onReportPost={handleReportPost} onHidePost={handleHidePost} onSavePost={handleSavePost} onCopyLink={handleCopyLink} />;
       case AppView.REELS:
@@ -1167,9 +1440,11 @@ const UserApp: React.FC = () => {
       case AppView.MOBILE_MENU:
         return <MobileMenuScreen currentUser={user} onNavigate={navigate} onLogout={handleLogout} friendRequestCount={friendRequestCount} />;
       case AppView.HELP:
-        return <HelpScreen onGoBack={goBack} />;
+        return <HelpScreen currentUser={user} onGoBack={goBack} />;
+      case AppView.VOICE_COINS:
+        return <VoiceCoinsScreen currentUser={user} onGoBack={goBack} />;
       default:
-        return <FeedScreen {...commonScreenProps} posts={posts} isLoading={isLoadingFeed} onReactToPost={handleReactToPost} onStartCreatePost={handleStartCreatePost} onRewardedAdClick={handleRewardedAdClick} onAdClick={handleAdClick} onAdViewed={handleAdViewed} friends={friends} setSearchResults={setSearchResults} onDeletePost={handleDeletePost} onReportPost={handleReportPost} hiddenPostIds={hiddenPostIds} onHidePost={handleHidePost} onSavePost={handleSavePost} onCopyLink={handleCopyLink} />;
+        return <FeedScreen {...commonScreenProps} posts={posts} isLoading={isLoadingFeed} onReactToPost={handleReactToPost} onStartCreatePost={handleStartCreatePost} onRewardedAdClick={handleRewardedAdClick} onAdClick={handleAdClick} onAdViewed={handleAdViewed} friends={friends} setSearchResults={setSearchResults} onDeletePost={handleDeletePost} onReportPost={handleReportPost} hiddenPostIds={hiddenPostIds} onHidePost={handleHidePost} onSavePost={handleSavePost} onCopyLink={handleCopyLink} onOpenConversation={handleOpenConversation} />;
     }
   };
   
@@ -0,0 +1,75 @@
+// This file runs as a Vercel cron job (see vercel.json) that sends group event reminders every hour,
+// so attendees get them even when they don't open the app. It uses a Firebase service account, set as
+// JSON in FIREBASE_SERVICE_ACCOUNT, and only answers Vercel's cron requests, signed with CRON_SECRET.
+
+import { cert, getApps, initializeApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { DEFAULT_AVATARS, EVENT_REMINDER_HOURS } from '../constants';
+
+// Reminders come from VoiceBook itself, as in the app (SYSTEM_ACTOR in services/firebaseService.ts).
+const SYSTEM_ACTOR = { id: 'system', name: 'VoiceBook', username: 'voicebook', avatarUrl: DEFAULT_AVATARS[0] };
+
+const getDb = () => {
+  const app = getApps()[0] ?? initializeApp({ credential: cert(JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT || '{}')) });
+  return getFirestore(app);
+};
+
+// Notifications are filed under the UTC day they were sent, like getDailyCollectionId in the app.
+const getDailyCollectionId = (date: Date): string =>
+  `${date.getUTCFullYear()}_${(date.getUTCMonth() + 1).toString().padStart(2, '0')}_${date.getUTCDate().toString().padStart(2, '0')}`;
+
+export async function GET(request: Request) {
+  if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const db = getDb();
+  const now = Date.now();
+  const snapshot = await db.collection('events')
+    .where('date', '>=', Timestamp.fromMillis(now))
+    .where('date', '<=', Timestamp.fromMillis(now + EVENT_REMINDER_HOURS * 60 * 60 * 1000))
+    .get();
+
+  let sent = 0;
+  for (const eventDoc of snapshot.docs) {
+    const event = eventDoc.data();
+    for (const userId of event.reminderRecipientIds || []) {
+      if (event.remindersSent?.[userId]) continue;
+
+      // Claimed the same way as sendDueEventReminders in the app, so an attendee who has the app open
+      // at the same time still gets one reminder.
+      const claimed = await db.runTransaction(async (transaction) => {
+        const fresh = await transaction.get(eventDoc.ref);
+        if (!fresh.exists || fresh.data()?.remindersSent?.[userId]) return false;
+        transaction.update(eventDoc.ref, { [`remindersSent.${userId}`]: FieldValue.serverTimestamp() });
+        return true;
+      });
+      if (!claimed) continue;
+
+      const recipientDoc = await db.collection('users').doc(userId).get();
+      if (!recipientDoc.exists || recipientDoc.data()?.notificationSettings?.groupPosts === false) continue;
+
+      await db.collection('notifications').doc(getDailyCollectionId(new Date())).collection('items').add({
+        recipientId: userId,
+        type: 'event_reminder',
+        user: SYSTEM_ACTOR,
+        read: false,
+        createdAt: new Date().toISOString(),
+        groupId: event.groupId,
+        groupName: event.groupName,
+        eventId: eventDoc.id,
+        eventTitle: event.title,
+        eventDate: event.date.toDate().toISOString(),
+      });
+      sent++;
+    }
+  }
+
+  return new Response(JSON.stringify({ sent }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
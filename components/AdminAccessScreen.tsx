@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AdminUser, AdminInvite } from '../types';
+import { geminiService } from '../services/geminiService';
+import { firebaseService } from '../services/firebaseService';
+import Icon from './Icon';
+
+interface AdminAccessScreenProps {
+    adminUser: AdminUser;
+}
+
+const InviteStatusBadge: React.FC<{ invite: AdminInvite }> = ({ invite }) => {
+    const isExpired = invite.status === 'pending' && new Date(invite.expiresAt) < new Date();
+    const status = isExpired ? 'expired' : invite.status;
+    const styles = {
+        pending: 'bg-yellow-500/20 text-yellow-300',
+        accepted: 'bg-green-500/20 text-green-400',
+        revoked: 'bg-red-500/20 text-red-400',
+        expired: 'bg-slate-500/20 text-slate-400',
+    };
+    return <span className={`px-2.5 py-1 text-xs font-semibold rounded-full capitalize ${styles[status]}`}>{status}</span>;
+};
+
+const TwoFactorSection: React.FC<{ adminUser: AdminUser }> = ({ adminUser }) => {
+    const [isEnabled, setIsEnabled] = useState(!!adminUser.mfaEnabled);
+    const [enrollment, setEnrollment] = useState<{ qrCodeUrl: string; secretKey: string } | null>(null);
+    const [code, setCode] = useState('');
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const handleStart = async () => {
+        setIsWorking(true);
+        setMessage(null);
+        const result = await firebaseService.startAdminTotpEnrollment(adminUser.email);
+        setIsWorking(false);
+        if (result) {
+            setEnrollment(result);
+        } else {
+            setMessage({ type: 'error', text: 'Could not start setup. Sign out and back in, then try again.' });
+        }
+    };
+
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsWorking(true);
+        const success = await firebaseService.finishAdminTotpEnrollment(code);
+        setIsWorking(false);
+        setCode('');
+        if (success) {
+            setIsEnabled(true);
+            setEnrollment(null);
+            setMessage({ type: 'success', text: 'Two-factor authentication is now on for your account.' });
+        } else {
+            setMessage({ type: 'error', text: 'That code did not match. Check your authenticator app and try again.' });
+        }
+    };
+
+    return (
+        <section className="bg-slate-800 rounded-lg p-6">
+            <h2 className="text-xl font-bold text-slate-100">Two-Factor Authentication</h2>
+            <p className="text-slate-400 mt-1 text-sm">Require a code from an authenticator app each time you sign in to the admin portal.</p>
+
+            {isEnabled ? (
+                <p className="mt-4 flex items-center gap-2 text-green-400 font-semibold"><Icon name="check" className="w-5 h-5" /> Enabled</p>
+            ) : enrollment ? (
+                <form onSubmit={handleVerify} className="mt-4 space-y-4">
+                    <p className="text-sm text-slate-300">Add this key to your authenticator app (or open the link on your phone), then enter the code it shows.</p>
+                    <div className="bg-slate-900/70 p-3 rounded-lg">
+                        <p className="text-xs text-slate-400">Setup key</p>
+                        <p className="font-mono text-lg text-white break-all">{enrollment.secretKey}</p>
+                        <a href={enrollment.qrCodeUrl} className="text-xs text-sky-400 hover:underline break-all">{enrollment.qrCodeUrl}</a>
+                    </div>
+                    <div className="flex gap-3">
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            maxLength={6}
+                            value={code}
+                            onChange={e => setCode(e.target.value.replace(/\D/g, ''))}
+                            placeholder="123456"
+                            required
+                            className="bg-slate-700 border border-slate-600 text-slate-100 rounded-lg p-2.5 w-40 tracking-widest text-center"
+                        />
+                        <button type="submit" disabled={isWorking || code.length !== 6} className="px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 text-white font-semibold">Verify</button>
+                    </div>
+                </form>
+            ) : (
+                <button onClick={handleStart} disabled={isWorking} className="mt-4 px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 text-white font-semibold">
+                    {isWorking ? 'Starting...' : 'Set up authenticator app'}
+                </button>
+            )}
+            {message && <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{message.text}</p>}
+        </section>
+    );
+};
+
+const AdminAccessScreen: React.FC<AdminAccessScreenProps> = ({ adminUser }) => {
+    const [invites, setInvites] = useState<AdminInvite[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [email, setEmail] = useState('');
+    const [isInviting, setIsInviting] = useState(false);
+
+    const fetchInvites = useCallback(async () => {
+        setIsLoading(true);
+        const allInvites = await geminiService.getAdminInvites();
+        setInvites(allInvites);
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        fetchInvites();
+    }, [fetchInvites]);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!email.trim()) return;
+        setIsInviting(true);
+        const invite = await geminiService.inviteAdmin(email, adminUser);
+        setIsInviting(false);
+        if (invite) {
+            setEmail('');
+            fetchInvites();
+        } else {
+            alert('Failed to create the invite.');
+        }
+    };
+
+    const handleRevoke = async (invite: AdminInvite) => {
+        if (window.confirm(`Revoke the admin invite for ${invite.email}?`)) {
+            const success = await geminiService.revokeAdminInvite(invite.id, adminUser);
+            if (success) fetchInvites();
+        }
+    };
+
+    return (
+        <div className="h-full w-full overflow-y-auto p-4 sm:p-8">
+            <h1 className="text-3xl font-bold text-slate-100">Admin Access</h1>
+            <p className="text-slate-400 mt-1">Invite new administrators and secure your own account.</p>
+
+            <div className="mt-8 space-y-8 max-w-4xl">
+                <TwoFactorSection adminUser={adminUser} />
+
+                <section className="bg-slate-800 rounded-lg p-6">
+                    <h2 className="text-xl font-bold text-slate-100">Invite an Admin</h2>
+                    <p className="text-slate-400 mt-1 text-sm">The invitee signs in here with their existing VoiceBook account. The invite is redeemed on their first sign-in.</p>
+                    <form onSubmit={handleInvite} className="mt-4 flex flex-col sm:flex-row gap-3">
+                        <input
+                            type="email"
+                            value={email}
+                            onChange={e => setEmail(e.target.value)}
+                            placeholder="name@example.com"
+                            required
+                            className="flex-grow bg-slate-700 border border-slate-600 text-slate-100 rounded-lg p-2.5 focus:ring-sky-500 focus:border-sky-500"
+                        />
+                        <button type="submit" disabled={isInviting} className="px-5 py-2.5 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 text-white font-semibold">
+                            {isInviting ? 'Inviting...' : 'Send Invite'}
+                        </button>
+                    </form>
+
+                    <div className="mt-6">
+                        {isLoading ? (
+                            <p className="text-slate-400">Loading invites...</p>
+                        ) : invites.length === 0 ? (
+                            <p className="text-slate-500">No invites yet.</p>
+                        ) : (
+                            <ul className="divide-y divide-slate-700">
+                                {invites.map(invite => (
+                                    <li key={invite.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                                        <div>
+                                            <p className="font-semibold text-slate-100">{invite.email}</p>
+                                            <p className="text-xs text-slate-400">Invited by {invite.invitedByEmail} · expires {new Date(invite.expiresAt).toLocaleDateString()}</p>
+                                        </div>
+                                        <div className="flex items-center gap-3">
+                                            <InviteStatusBadge invite={invite} />
+                                            {invite.status === 'pending' && (
+                                                <button onClick={() => handleRevoke(invite)} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-red-600 hover:bg-red-500 text-white">Revoke</button>
+                                            )}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default AdminAccessScreen;
@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { AdminAuditLogEntry, AdminAuditAction, AdminAuditLogFilters } from '../types';
+import { geminiService } from '../services/geminiService';
+import Icon from './Icon';
+import { downloadCsv } from '../utils/csv';
+
+const ACTION_LABELS: Record<AdminAuditAction, string> = {
+    ban_user: 'Ban user',
+    unban_user: 'Unban user',
+    warn_user: 'Warn user',
+    reactivate_user: 'Reactivate user',
+    update_user_role: 'Change role',
+    suspend_commenting: 'Suspend commenting',
+    lift_commenting_suspension: 'Lift comment suspension',
+    suspend_posting: 'Suspend posting',
+    lift_posting_suspension: 'Lift post suspension',
+    delete_post: 'Delete post',
+    delete_comment: 'Delete comment',
+    approve_campaign: 'Approve campaign',
+    reject_campaign: 'Reject campaign',
+    verify_payment: 'Verify payment',
+    reject_payment: 'Reject payment',
+    resolve_report: 'Resolve report',
+    invite_admin: 'Invite admin',
+    revoke_admin_invite: 'Revoke admin invite',
+};
+
+const formatChanges = (values?: { [key: string]: any } | null): string => {
+    if (!values) return '';
+    return Object.entries(values).map(([key, value]) => `${key}: ${value === null ? '—' : String(value)}`).join(', ');
+};
+
+const exportEntriesAsCsv = (entries: AdminAuditLogEntry[]) => {
+    const header = ['Timestamp', 'Admin ID', 'Admin Email', 'Action', 'Target Type', 'Target ID', 'Before', 'After', 'Reason'];
+    const rows = entries.map(e => [
+        e.createdAt,
+        e.adminId,
+        e.adminEmail,
+        e.action,
+        e.targetType,
+        e.targetId,
+        e.before ? JSON.stringify(e.before) : '',
+        e.after ? JSON.stringify(e.after) : '',
+        e.reason || '',
+    ]);
+    downloadCsv(`admin-audit-log-${new Date().toISOString().slice(0, 10)}.csv`, [header, ...rows]);
+};
+
+const AdminAuditLogScreen: React.FC = () => {
+    const [entries, setEntries] = useState<AdminAuditLogEntry[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [adminEmail, setAdminEmail] = useState('');
+    const [targetId, setTargetId] = useState('');
+    // Typed filters only apply on submit, so each keystroke doesn't run a query.
+    const [appliedText, setAppliedText] = useState({ adminEmail: '', targetId: '' });
+    const [actionFilter, setActionFilter] = useState<'all' | AdminAuditAction>('all');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+
+    const filters = useMemo<AdminAuditLogFilters>(() => ({
+        adminEmail: appliedText.adminEmail || undefined,
+        targetId: appliedText.targetId || undefined,
+        action: actionFilter === 'all' ? undefined : actionFilter,
+        from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+        to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+    }), [appliedText, actionFilter, fromDate, toDate]);
+
+    const fetchEntries = useCallback(async () => {
+        setIsLoading(true);
+        const page = await geminiService.getAdminAuditLog(filters);
+        setEntries(page.entries);
+        setHasMore(page.hasMore);
+        setIsLoading(false);
+    }, [filters]);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries]);
+
+    const handleLoadMore = async () => {
+        if (isLoadingMore || entries.length === 0) return;
+        setIsLoadingMore(true);
+        const page = await geminiService.getAdminAuditLog(filters, entries[entries.length - 1].id);
+        setEntries(prev => [...prev, ...page.entries]);
+        setHasMore(page.hasMore);
+        setIsLoadingMore(false);
+    };
+
+    // Exports every matching entry, not just the pages loaded so far.
+    const handleExport = async () => {
+        setIsExporting(true);
+        const allEntries: AdminAuditLogEntry[] = [];
+        let page = await geminiService.getAdminAuditLog(filters, undefined, 500);
+        allEntries.push(...page.entries);
+        while (page.hasMore) {
+            page = await geminiService.getAdminAuditLog(filters, allEntries[allEntries.length - 1].id, 500);
+            allEntries.push(...page.entries);
+        }
+        exportEntriesAsCsv(allEntries);
+        setIsExporting(false);
+    };
+
+    const handleApplyTextFilters = (e: React.FormEvent) => {
+        e.preventDefault();
+        setAppliedText({ adminEmail: adminEmail.trim(), targetId: targetId.trim() });
+    };
+
+    const inputClass = "bg-slate-700 border border-slate-600 text-slate-100 text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2";
+
+    return (
+        <div className="h-full w-full overflow-y-auto p-4 sm:p-8">
+            <div className="flex flex-wrap justify-between items-start gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-100">Audit Log</h1>
+                    <p className="text-slate-400 mt-1">Every moderation action taken from the admin portal.</p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={fetchEntries} className="px-4 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold">Refresh</button>
+                    <button
+                        onClick={handleExport}
+                        disabled={entries.length === 0 || isExporting}
+                        className="px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 text-white font-semibold"
+                    >
+                        {isExporting ? 'Exporting...' : 'Export CSV'}
+                    </button>
+                </div>
+            </div>
+
+            <form onSubmit={handleApplyTextFilters} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 mt-6">
+                <input type="email" value={adminEmail} onChange={e => setAdminEmail(e.target.value)} placeholder="Admin email" className={inputClass} />
+                <select value={actionFilter} onChange={e => setActionFilter(e.target.value as 'all' | AdminAuditAction)} className={inputClass}>
+                    <option value="all">All actions</option>
+                    {(Object.keys(ACTION_LABELS) as AdminAuditAction[]).map(action => <option key={action} value={action}>{ACTION_LABELS[action]}</option>)}
+                </select>
+                <input type="text" value={targetId} onChange={e => setTargetId(e.target.value)} placeholder="Target ID" className={inputClass} />
+                <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={inputClass} title="From" />
+                <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className={inputClass} title="To" />
+                <button type="submit" className="px-4 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold">Apply</button>
+            </form>
+
+            {isLoading ? (
+                <p className="mt-8 text-slate-400">Loading audit log...</p>
+            ) : entries.length === 0 ? (
+                <div className="text-center py-12 mt-6 bg-slate-800/50 rounded-lg">
+                    <Icon name="archive-box" className="w-16 h-16 mx-auto text-slate-600 mb-4" />
+                    <h3 className="text-xl font-bold text-slate-300">No Matching Entries</h3>
+                </div>
+            ) : (
+                <div className="mt-6 overflow-x-auto bg-slate-800 rounded-lg">
+                    <table className="min-w-full divide-y divide-slate-700 text-sm">
+                        <thead className="bg-slate-700/50">
+                            <tr>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">When</th>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">Admin</th>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">Action</th>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">Target</th>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">Change</th>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">Reason</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-700">
+                            {entries.map(entry => (
+                                <tr key={entry.id} className="align-top">
+                                    <td className="px-4 py-3 whitespace-nowrap text-slate-400">{new Date(entry.createdAt).toLocaleString()}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sky-400">{entry.adminEmail}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap font-semibold text-slate-100">{ACTION_LABELS[entry.action] || entry.action}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-slate-300">
+                                        <span className="capitalize">{entry.targetType.replace('_', ' ')}</span> <span className="font-mono text-xs text-slate-400">{entry.targetId}</span>
+                                    </td>
+                                    <td className="px-4 py-3 text-slate-300">
+                                        {entry.before && <p className="text-red-300/80">− {formatChanges(entry.before)}</p>}
+                                        {entry.after && <p className="text-green-300/80">+ {formatChanges(entry.after)}</p>}
+                                    </td>
+                                    <td className="px-4 py-3 text-slate-300">{entry.reason || ''}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {hasMore && (
+                        <div className="p-4 text-center border-t border-slate-700">
+                            <button onClick={handleLoadMore} disabled={isLoadingMore} className="px-4 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold disabled:opacity-50">
+                                {isLoadingMore ? 'Loading...' : 'Load more'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AdminAuditLogScreen;
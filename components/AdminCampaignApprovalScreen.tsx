@@ -1,11 +1,15 @@
 
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { Campaign } from '../types';
+import { Campaign, AdminUser } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
 
-const AdminCampaignApprovalScreen: React.FC = () => {
+interface AdminCampaignApprovalScreenProps {
+    adminUser: AdminUser;
+}
+
+const AdminCampaignApprovalScreen: React.FC<AdminCampaignApprovalScreenProps> = ({ adminUser }) => {
     const [pendingCampaigns, setPendingCampaigns] = useState<Campaign[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [rejectionReasons, setRejectionReasons] = useState<Record<string, string>>({});
@@ -22,7 +26,7 @@ const AdminCampaignApprovalScreen: React.FC = () => {
     }, [fetchPendingCampaigns]);
 
     const handleApprove = async (campaignId: string) => {
-        await geminiService.approveCampaign(campaignId);
+        await geminiService.approveCampaign(campaignId, adminUser);
         fetchPendingCampaigns(); // Refresh the list
     };
     
@@ -32,7 +36,7 @@ const AdminCampaignApprovalScreen: React.FC = () => {
             alert('Please provide a reason for rejection.');
             return;
         }
-        await geminiService.rejectCampaign(campaignId, reason);
+        await geminiService.rejectCampaign(campaignId, reason, adminUser);
         fetchPendingCampaigns(); // Refresh the list
     };
     
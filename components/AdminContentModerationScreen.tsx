@@ -1,10 +1,14 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { Post, Comment } from '../types';
+import { Post, Comment, AdminUser } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
 
-const AdminContentModerationScreen: React.FC = () => {
+interface AdminContentModerationScreenProps {
+    adminUser: AdminUser;
+}
+
+const AdminContentModerationScreen: React.FC<AdminContentModerationScreenProps> = ({ adminUser }) => {
     const [posts, setPosts] = useState<Post[]>([]);
     const [isLoading, setIsLoading] = useState(true);
 
@@ -23,7 +27,7 @@ const AdminContentModerationScreen: React.FC = () => {
 
     const handleDeletePost = async (postId: string) => {
         if (window.confirm("Are you sure you want to permanently delete this post? This action cannot be undone.")) {
-            const success = await geminiService.deletePostAsAdmin(postId);
+            const success = await geminiService.deletePostAsAdmin(postId, adminUser);
             if (success) {
                 fetchContent(); // Refresh content
             } else {
@@ -34,7 +38,7 @@ const AdminContentModerationScreen: React.FC = () => {
 
     const handleDeleteComment = async (commentId: string, postId: string) => {
          if (window.confirm("Are you sure you want to permanently delete this comment?")) {
-            const success = await geminiService.deleteCommentAsAdmin(commentId, postId);
+            const success = await geminiService.deleteCommentAsAdmin(commentId, postId, adminUser);
             if (success) {
                 fetchContent(); // Refresh content
             } else {
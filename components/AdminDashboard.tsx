@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { AdminUser, User, DashboardStats } from '../types';
+import { AdminUser, User, DashboardStats, DashboardTimeSeriesPoint } from '../types';
 import AdminDashboardSidebar from './AdminDashboardSidebar';
 import AdminUserManagementScreen from './AdminUserManagementScreen';
 import AdminContentModerationScreen from './AdminContentModerationScreen';
@@ -8,6 +8,9 @@ import AdminReportsScreen from './AdminReportsScreen';
 import AdminUserDetailsScreen from './AdminUserDetailsScreen';
 import AdminAnnouncementScreen from './AdminAnnouncementScreen';
 import AdminTransactionsScreen from './AdminTransactionsScreen';
+import AdminAuditLogScreen from './AdminAuditLogScreen';
+import AdminVoiceCommandsScreen from './AdminVoiceCommandsScreen';
+import AdminAccessScreen from './AdminAccessScreen';
 import Icon from './Icon';
 import { geminiService } from '../services/geminiService';
 
@@ -16,7 +19,7 @@ interface AdminDashboardProps {
     onLogout: () => void;
 }
 
-type AdminView = 'dashboard' | 'users' | 'content' | 'campaigns' | 'reports' | 'announcements' | 'transactions';
+type AdminView = 'dashboard' | 'users' | 'content' | 'campaigns' | 'reports' | 'announcements' | 'transactions' | 'audit' | 'voice' | 'access';
 
 const StatCard: React.FC<{ icon: React.ComponentProps<typeof Icon>['name']; title: string; value: string; color: string }> = ({ icon, title, value, color }) => (
     <div className="bg-slate-800 p-6 rounded-lg flex items-center gap-4">
@@ -42,10 +45,75 @@ const ActionCard: React.FC<{ icon: React.ComponentProps<typeof Icon>['name']; ti
     </button>
 );
 
+type TrendMetric = 'signups' | 'posts' | 'reports';
+
+const TREND_METRICS: { key: TrendMetric; label: string; color: string }[] = [
+    { key: 'signups', label: 'Signups', color: 'bg-green-500' },
+    { key: 'posts', label: 'Posts', color: 'bg-indigo-500' },
+    { key: 'reports', label: 'Reports', color: 'bg-rose-500' },
+];
+
+const TrendChart: React.FC<{ series: DashboardTimeSeriesPoint[] }> = ({ series }) => {
+    const [metric, setMetric] = useState<TrendMetric>('signups');
+    const activeMetric = TREND_METRICS.find(m => m.key === metric)!;
+    const values = series.map(point => point[metric]);
+    const max = Math.max(1, ...values);
+    const total = values.reduce((sum, v) => sum + v, 0);
+    const lastWeek = values.slice(-7).reduce((sum, v) => sum + v, 0);
+    const weekBefore = values.slice(-14, -7).reduce((sum, v) => sum + v, 0);
+    const weekChange = weekBefore > 0 ? Math.round(((lastWeek - weekBefore) / weekBefore) * 100) : null;
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-lg">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <div>
+                    <p className="text-2xl font-bold text-white">{total.toLocaleString()}</p>
+                    <p className="text-sm text-slate-400">
+                        {activeMetric.label} in the last {series.length} days
+                        {weekChange !== null && (
+                            <span className={`ml-2 font-semibold ${weekChange >= 0 ? 'text-green-400' : 'text-rose-400'}`}>
+                                {weekChange >= 0 ? '+' : ''}{weekChange}% vs previous week
+                            </span>
+                        )}
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    {TREND_METRICS.map(m => (
+                        <button
+                            key={m.key}
+                            onClick={() => setMetric(m.key)}
+                            className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${metric === m.key ? 'bg-slate-600 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+                        >
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="mt-6 h-48 flex items-end gap-1">
+                {series.map(point => (
+                    <div key={point.date} className="flex-1 h-full flex flex-col justify-end group relative">
+                        <div
+                            className={`${activeMetric.color} rounded-t-sm opacity-80 group-hover:opacity-100 transition-opacity`}
+                            style={{ height: `${(point[metric] / max) * 100}%`, minHeight: point[metric] > 0 ? '2px' : '0' }}
+                        />
+                        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 hidden group-hover:block bg-slate-900 text-xs text-slate-200 px-2 py-1 rounded whitespace-nowrap z-10">
+                            {point.date}: {point[metric].toLocaleString()}
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-xs text-slate-500 mt-2">
+                <span>{series[0]?.date}</span>
+                <span>{series[series.length - 1]?.date}</span>
+            </div>
+        </div>
+    );
+};
 
 const DashboardComponent: React.FC<{ onNavigate: (view: AdminView) => void }> = ({ onNavigate }) => {
     const [stats, setStats] = useState<DashboardStats | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [timeSeries, setTimeSeries] = useState<DashboardTimeSeriesPoint[] | null>(null);
 
     useEffect(() => {
         const fetchStats = () => {
@@ -59,6 +127,11 @@ const DashboardComponent: React.FC<{ onNavigate: (view: AdminView) => void }> =
         return () => clearInterval(interval);
     }, []);
 
+    useEffect(() => {
+        // Daily buckets change slowly, so the time series is only loaded once per visit.
+        geminiService.getAdminDashboardTimeSeries(30).then(setTimeSeries);
+    }, []);
+
     if (isLoading || !stats) {
         return <div className="p-8 text-slate-400">Loading dashboard statistics...</div>;
     }
@@ -70,11 +143,18 @@ const DashboardComponent: React.FC<{ onNavigate: (view: AdminView) => void }> =
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mt-8">
                 <StatCard icon="users" title="Total Users" value={stats.totalUsers.toLocaleString()} color="bg-sky-500" />
-                <StatCard icon="add-friend" title="New Users (24h)" value={stats.newUsersToday.toLocaleString()} color="bg-green-500" />
+                <StatCard icon="add-friend" title="New Users (Today)" value={stats.newUsersToday.toLocaleString()} color="bg-green-500" />
                 <StatCard icon="users-group-solid" title="Active Users Now" value={`${stats.activeUsersNow.toLocaleString()}`} color="bg-emerald-500" />
                 <StatCard icon="edit" title="New Posts (24h)" value={stats.postsLast24h.toLocaleString()} color="bg-indigo-500" />
             </div>
 
+            <div className="mt-12">
+                <h2 className="text-2xl font-bold text-slate-100">Trends (30 days)</h2>
+                <div className="mt-6">
+                    {timeSeries ? <TrendChart series={timeSeries} /> : <div className="bg-slate-800 p-6 rounded-lg text-slate-400">Loading trends...</div>}
+                </div>
+            </div>
+
             <div className="mt-12">
                 <h2 className="text-2xl font-bold text-slate-100">Action Items</h2>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
@@ -117,17 +197,23 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ adminUser, onLogout })
 
         switch (activeView) {
             case 'users':
-                return <AdminUserManagementScreen onSelectUser={(user) => setViewingUserId(user.id)} />;
+                return <AdminUserManagementScreen adminUser={adminUser} onSelectUser={(user) => setViewingUserId(user.id)} />;
             case 'content':
-                return <AdminContentModerationScreen />;
+                return <AdminContentModerationScreen adminUser={adminUser} />;
             case 'campaigns':
-                return <AdminCampaignApprovalScreen />;
+                return <AdminCampaignApprovalScreen adminUser={adminUser} />;
             case 'reports':
-                return <AdminReportsScreen />;
+                return <AdminReportsScreen adminUser={adminUser} />;
             case 'announcements':
                 return <AdminAnnouncementScreen />;
             case 'transactions':
                 return <AdminTransactionsScreen adminUser={adminUser} />;
+            case 'audit':
+                return <AdminAuditLogScreen />;
+            case 'voice':
+                return <AdminVoiceCommandsScreen />;
+            case 'access':
+                return <AdminAccessScreen adminUser={adminUser} />;
             case 'dashboard':
             default:
                 return <DashboardComponent onNavigate={setActiveView} />;
@@ -2,7 +2,7 @@ import React from 'react';
 import Icon from './Icon';
 import { AdminUser } from '../types';
 
-type AdminView = 'dashboard' | 'users' | 'content' | 'campaigns' | 'reports' | 'announcements' | 'transactions';
+type AdminView = 'dashboard' | 'users' | 'content' | 'campaigns' | 'reports' | 'announcements' | 'transactions' | 'audit' | 'voice' | 'access';
 
 interface AdminDashboardSidebarProps {
   adminUser: AdminUser;
@@ -84,6 +84,24 @@ const AdminDashboardSidebar: React.FC<AdminDashboardSidebarProps> = ({ adminUser
                 isActive={activeView === 'announcements'}
                 onClick={() => onNavigate('announcements')}
             />
+             <NavItem
+                iconName="archive-box"
+                label="Audit Log"
+                isActive={activeView === 'audit'}
+                onClick={() => onNavigate('audit')}
+            />
+             <NavItem
+                iconName="mic"
+                label="Voice Commands"
+                isActive={activeView === 'voice'}
+                onClick={() => onNavigate('voice')}
+            />
+             <NavItem
+                iconName="lock-closed"
+                label="Admin Access"
+                isActive={activeView === 'access'}
+                onClick={() => onNavigate('access')}
+            />
           </ul>
         </nav>
       </div>
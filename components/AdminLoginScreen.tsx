@@ -5,11 +5,14 @@ import { firebaseService } from '../services/firebaseService';
 
 interface AdminLoginScreenProps {
   onLoginSuccess: (user: AdminUser) => void;
+  notice?: string;
 }
 
-const AdminLoginScreen: React.FC<AdminLoginScreenProps> = ({ onLoginSuccess }) => {
+const AdminLoginScreen: React.FC<AdminLoginScreenProps> = ({ onLoginSuccess, notice }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [totpCode, setTotpCode] = useState('');
+  const [needsTotp, setNeedsTotp] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
@@ -19,11 +22,20 @@ const AdminLoginScreen: React.FC<AdminLoginScreenProps> = ({ onLoginSuccess }) =
     setIsLoading(true);
 
     try {
-      const user = await firebaseService.adminLogin(email, password);
-      // The new adminLogin handles full authentication and authorization.
-      // If it returns a user, login is successful.
-      onLoginSuccess(user);
+      if (needsTotp) {
+        const admin = await firebaseService.completeAdminMfaLogin(totpCode);
+        onLoginSuccess(admin);
+        return;
+      }
+      const result = await firebaseService.adminLogin(email, password);
+      if ('mfaRequired' in result) {
+        setNeedsTotp(true);
+        setPassword('');
+        return;
+      }
+      onLoginSuccess(result.admin);
     } catch (err: any) {
+      if (needsTotp) setTotpCode('');
       setError(err.message || 'An unexpected error occurred. Please try again.');
     } finally {
       setIsLoading(false);
@@ -44,31 +56,56 @@ const AdminLoginScreen: React.FC<AdminLoginScreenProps> = ({ onLoginSuccess }) =
         </div>
 
         <div className="bg-slate-800/50 p-8 rounded-lg border border-slate-700">
-          <h2 className="text-xl font-semibold text-center text-sky-400 mb-6">Administrator Login</h2>
+          <h2 className="text-xl font-semibold text-center text-sky-400 mb-6">{needsTotp ? 'Two-Factor Verification' : 'Administrator Login'}</h2>
+          {notice && !error && <p className="mb-6 text-sm text-yellow-300 bg-yellow-900/20 border border-yellow-500/30 rounded-md p-3">{notice}</p>}
           
           <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="email" className="block mb-2 text-sm font-medium text-slate-300">Email Address</label>
-              <input
-                type="email"
-                id="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5 transition"
-              />
-            </div>
-            <div>
-              <label htmlFor="password" className="block mb-2 text-sm font-medium text-slate-300">Password</label>
-              <input
-                type="password"
-                id="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5 transition"
-              />
-            </div>
+            {needsTotp ? (
+              <div>
+                <label htmlFor="totp" className="block mb-2 text-sm font-medium text-slate-300">Enter the 6-digit code from your authenticator app</label>
+                <input
+                  type="text"
+                  id="totp"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  pattern="[0-9]{6}"
+                  maxLength={6}
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, ''))}
+                  required
+                  autoFocus
+                  className="bg-slate-700 border border-slate-600 text-slate-100 text-2xl tracking-[0.5em] text-center rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5 transition"
+                />
+                <button type="button" onClick={() => { setNeedsTotp(false); setTotpCode(''); setError(''); }} className="mt-3 text-sm text-slate-400 hover:text-slate-200">
+                  Use a different account
+                </button>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label htmlFor="email" className="block mb-2 text-sm font-medium text-slate-300">Email Address</label>
+                  <input
+                    type="email"
+                    id="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5 transition"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="password" className="block mb-2 text-sm font-medium text-slate-300">Password</label>
+                  <input
+                    type="password"
+                    id="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5 transition"
+                  />
+                </div>
+              </>
+            )}
 
             {error && <p className="text-sm text-red-400">{error}</p>}
 
@@ -77,12 +114,12 @@ const AdminLoginScreen: React.FC<AdminLoginScreenProps> = ({ onLoginSuccess }) =
               disabled={isLoading}
               className="w-full bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors text-lg"
             >
-              {isLoading ? 'Processing...' : 'Sign In'}
+              {isLoading ? 'Processing...' : needsTotp ? 'Verify' : 'Sign In'}
             </button>
           </form>
         </div>
          <p className="text-xs text-slate-500 mt-4 text-center">
-            Note: Admin accounts must be created manually in the Firebase console for security.
+            Admin access is invite-only. Sign in with the VoiceBook account your invite was sent to.
         </p>
       </div>
     </div>
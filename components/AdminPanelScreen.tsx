@@ -4,6 +4,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { User, Campaign } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
+import AdminAuditLogScreen from './AdminAuditLogScreen';
 
 interface AdminPanelScreenProps {
   currentUser: User;
@@ -15,6 +16,7 @@ const AdminPanelScreen: React.FC<AdminPanelScreenProps> = ({ currentUser, onSetT
     const [pendingCampaigns, setPendingCampaigns] = useState<Campaign[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [rejectionReasons, setRejectionReasons] = useState<Record<string, string>>({});
+    const [activeTab, setActiveTab] = useState<'campaigns' | 'audit'>('campaigns');
 
     const fetchPendingCampaigns = useCallback(async () => {
         setIsLoading(true);
@@ -29,7 +31,7 @@ const AdminPanelScreen: React.FC<AdminPanelScreenProps> = ({ currentUser, onSetT
     }, [onSetTtsMessage, fetchPendingCampaigns]);
 
     const handleApprove = async (campaignId: string) => {
-        await geminiService.approveCampaign(campaignId);
+        await geminiService.approveCampaign(campaignId, currentUser);
         onSetTtsMessage("Campaign approved and is now active.");
         fetchPendingCampaigns(); // Refresh the list
     };
@@ -41,7 +43,7 @@ const AdminPanelScreen: React.FC<AdminPanelScreenProps> = ({ currentUser, onSetT
             onSetTtsMessage("Rejection failed. Please provide a reason.");
             return;
         }
-        await geminiService.rejectCampaign(campaignId, reason);
+        await geminiService.rejectCampaign(campaignId, reason, currentUser);
         onSetTtsMessage("Campaign has been rejected. The user will be notified.");
         fetchPendingCampaigns(); // Refresh the list
     };
@@ -58,6 +60,34 @@ const AdminPanelScreen: React.FC<AdminPanelScreenProps> = ({ currentUser, onSetT
         );
     }
     
+    const tabBar = (
+        <div className="flex gap-2 border-b border-slate-700 mb-8">
+            {([['campaigns', 'Pending Campaigns'], ['audit', 'Audit Log']] as const).map(([tab, label]) => (
+                <button
+                    key={tab}
+                    onClick={() => setActiveTab(tab)}
+                    className={`px-4 py-2 -mb-px border-b-2 font-semibold transition-colors ${activeTab === tab ? 'border-sky-400 text-sky-400' : 'border-transparent text-slate-400 hover:text-slate-200'}`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+    );
+
+    if (activeTab === 'audit') {
+        return (
+            <div className="h-full w-full flex flex-col">
+                <div className="px-4 sm:px-8 pt-4 sm:pt-8 max-w-5xl w-full mx-auto">
+                    <h1 className="text-3xl font-bold mb-6 text-slate-100">Admin Panel</h1>
+                    {tabBar}
+                </div>
+                <div className="flex-grow min-h-0">
+                    <AdminAuditLogScreen />
+                </div>
+            </div>
+        );
+    }
+
     if (isLoading) {
         return <p className="p-8 text-slate-400">Loading pending campaigns...</p>;
     }
@@ -66,7 +96,8 @@ const AdminPanelScreen: React.FC<AdminPanelScreenProps> = ({ currentUser, onSetT
         <div className="h-full w-full overflow-y-auto p-4 sm:p-8">
             <div className="max-w-5xl mx-auto">
                 <h1 className="text-3xl font-bold mb-2 text-slate-100">Admin Panel</h1>
-                <p className="text-slate-400 mb-8">Review and approve pending campaigns.</p>
+                <p className="text-slate-400 mb-6">Review and approve pending campaigns.</p>
+                {tabBar}
 
                  {pendingCampaigns.length === 0 ? (
                     <div className="text-center py-12 bg-slate-800/50 rounded-lg">
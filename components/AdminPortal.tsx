@@ -1,33 +1,67 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { AdminUser } from '../types';
 import AdminDashboard from './AdminDashboard';
 import AdminLoginScreen from './AdminLoginScreen';
-import { auth } from '../services/firebaseConfig';
-import { signOut } from 'firebase/auth';
+import { firebaseService } from '../services/firebaseService';
+import { ADMIN_SESSION_IDLE_MINUTES, ADMIN_SESSION_MAX_HOURS } from '../constants';
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
 
 const AdminPortal: React.FC = () => {
     const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
+    const [sessionNotice, setSessionNotice] = useState('');
+    const sessionStartedAtRef = useRef(0);
+    const lastActivityAtRef = useRef(0);
 
     const handleLoginSuccess = (user: AdminUser) => {
+        const now = Date.now();
+        sessionStartedAtRef.current = now;
+        lastActivityAtRef.current = now;
+        setSessionNotice('');
         setAdminUser(user);
     };
 
-    const handleLogout = async () => {
+    const handleLogout = useCallback(async () => {
         try {
-            await signOut(auth);
+            await firebaseService.adminLogout();
         } catch (error) {
             console.error("Error signing out admin:", error);
         } finally {
             setAdminUser(null);
         }
-    };
+    }, []);
+
+    // Sessions end after a period of inactivity, and unconditionally after a maximum length.
+    useEffect(() => {
+        if (!adminUser) return;
+
+        const recordActivity = () => { lastActivityAtRef.current = Date.now(); };
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+
+        const interval = setInterval(() => {
+            const now = Date.now();
+            const idleExpired = now - lastActivityAtRef.current > ADMIN_SESSION_IDLE_MINUTES * 60 * 1000;
+            const maxExpired = now - sessionStartedAtRef.current > ADMIN_SESSION_MAX_HOURS * 60 * 60 * 1000;
+            if (idleExpired || maxExpired) {
+                setSessionNotice(idleExpired
+                    ? `You were signed out after ${ADMIN_SESSION_IDLE_MINUTES} minutes of inactivity.`
+                    : `Admin sessions last at most ${ADMIN_SESSION_MAX_HOURS} hours. Please sign in again.`);
+                handleLogout();
+            }
+        }, 30000);
+
+        return () => {
+            clearInterval(interval);
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity));
+        };
+    }, [adminUser, handleLogout]);
 
     if (!adminUser) {
-        return <AdminLoginScreen onLoginSuccess={handleLoginSuccess} />;
+        return <AdminLoginScreen onLoginSuccess={handleLoginSuccess} notice={sessionNotice} />;
     }
 
     return <AdminDashboard adminUser={adminUser} onLogout={handleLogout} />;
 };
 
-export default AdminPortal;
\ No newline at end of file
+export default AdminPortal;
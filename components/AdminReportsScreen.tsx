@@ -1,63 +1,66 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Report, Post, User, Comment } from '../types';
+import { Report, AdminUser, ReportResolutionAction } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
+import { REPORT_SUSPENSION_DAYS } from '../constants';
 
-// A compact card to display the reported content for context
-const ReportedContentCard: React.FC<{ report: Report }> = ({ report }) => {
-    const [content, setContent] = useState<Post | User | Comment | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
-
-    useEffect(() => {
-        const fetchContent = async () => {
-            setIsLoading(true);
-            let fetchedContent: Post | User | Comment | null = null;
-            if (report.reportedContentType === 'post') {
-                fetchedContent = await geminiService.getPostById(report.reportedContentId);
-            } else if (report.reportedContentType === 'user') {
-                fetchedContent = await geminiService.getUserById(report.reportedContentId);
-            }
-            // In a real app, you might fetch comments differently
-            // For now, we mainly show the user who was reported or who made the comment/post.
-            if (!fetchedContent) {
-                 fetchedContent = await geminiService.getUserById(report.reportedUserId);
-            }
-            setContent(fetchedContent);
-            setIsLoading(false);
-        };
-        fetchContent();
-    }, [report]);
+const ACTION_CONFIRMATIONS: Record<'delete_content' | 'suspend', string> = {
+    delete_content: 'delete the reported content',
+    suspend: `suspend posting and commenting for ${REPORT_SUSPENSION_DAYS} days for this user`,
+};
 
-    if (isLoading) return <div className="p-4 bg-slate-700/50 rounded-lg text-slate-400">Loading content...</div>;
-    if (!content) return <div className="p-4 bg-slate-700/50 rounded-lg text-red-400">Content not found (may have been deleted).</div>;
+// A compact card showing the reported content, inlined by getPendingReports
+const ReportedContentCard: React.FC<{ report: Report }> = ({ report }) => {
+    const { reportedPost, reportedComment, reportedUser } = report;
 
-    if ('bio' in content) { // It's a User object
+    if (report.reportedContentType === 'user') {
+        if (!reportedUser) return <div className="p-4 bg-slate-700/50 rounded-lg text-red-400">User not found (the account may have been removed).</div>;
         return (
             <div className="bg-slate-700/50 p-3 rounded-lg flex items-center gap-4">
-                <img src={content.avatarUrl} alt={content.name} className="w-12 h-12 rounded-full"/>
+                <img src={reportedUser.avatarUrl} alt={reportedUser.name} className="w-12 h-12 rounded-full"/>
                 <div>
-                    <p className="font-bold text-slate-100">{content.name} (@{content.username})</p>
+                    <p className="font-bold text-slate-100">{reportedUser.name} (@{reportedUser.username})</p>
                     <p className="text-sm text-slate-400">User profile was reported.</p>
+                    {reportedUser.bio && <p className="text-sm text-slate-300 mt-1 italic">"{reportedUser.bio}"</p>}
                 </div>
             </div>
         );
     }
-    
-    if ('caption' in content) { // It's a Post object
+
+    if (report.reportedContentType === 'comment') {
+        if (report.isPostUnknown) return <div className="p-4 bg-slate-700/50 rounded-lg text-red-400">Comment can't be shown: this older report doesn't say which post it is on.</div>;
+        if (!reportedComment) return <div className="p-4 bg-slate-700/50 rounded-lg text-red-400">Comment not found (may have been deleted).</div>;
         return (
-            <div className="bg-slate-700/50 p-3 rounded-lg">
-                <p className="text-xs text-slate-400 font-semibold">Reported Post by {content.author.name}</p>
-                <p className="text-slate-200 mt-1 italic">"{content.caption}"</p>
+            <div className="bg-slate-700/50 p-3 rounded-lg space-y-2">
+                <p className="text-xs text-slate-400 font-semibold">Reported Comment by {reportedComment.author.name}</p>
+                {reportedComment.text && <p className="text-slate-200 italic">"{reportedComment.text}"</p>}
+                {reportedComment.imageUrl && <img src={reportedComment.imageUrl} alt="Reported comment" className="max-h-40 rounded-md" />}
+                {reportedComment.audioUrl && <audio src={reportedComment.audioUrl} controls className="w-full h-10" />}
+                {reportedPost && <p className="text-xs text-slate-500">On a post by {reportedPost.author.name}{reportedPost.caption ? `: "${reportedPost.caption}"` : ''}</p>}
             </div>
         );
     }
 
-    return null;
+    if (!reportedPost) return <div className="p-4 bg-slate-700/50 rounded-lg text-red-400">Post not found (may have been deleted).</div>;
+    return (
+        <div className="bg-slate-700/50 p-3 rounded-lg space-y-2">
+            <p className="text-xs text-slate-400 font-semibold">Reported Post by {reportedPost.author.name}</p>
+            {reportedPost.caption && <p className="text-slate-200 italic">"{reportedPost.caption}"</p>}
+            {reportedPost.imageUrl && <img src={reportedPost.imageUrl} alt="Reported post" className="max-h-48 rounded-md" />}
+            {reportedPost.videoUrl && <video src={reportedPost.videoUrl} controls className="max-h-48 rounded-md" />}
+            {reportedPost.audioUrl && <audio src={reportedPost.audioUrl} controls className="w-full h-10" />}
+        </div>
+    );
 };
 
-const AdminReportsScreen: React.FC = () => {
+interface AdminReportsScreenProps {
+    adminUser: AdminUser;
+}
+
+const AdminReportsScreen: React.FC<AdminReportsScreenProps> = ({ adminUser }) => {
     const [reports, setReports] = useState<Report[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [workingReportId, setWorkingReportId] = useState<string | null>(null);
 
     const fetchReports = useCallback(async () => {
         setIsLoading(true);
@@ -70,15 +73,29 @@ const AdminReportsScreen: React.FC = () => {
         fetchReports();
     }, [fetchReports]);
 
-    const handleAction = async (reportId: string, resolution: string, actionFn?: () => Promise<any>) => {
-        if (actionFn) {
-            const success = await actionFn();
+    const handleAction = async (report: Report, action: ReportResolutionAction) => {
+        let note: string | undefined;
+        if (action === 'warn' || action === 'ban') {
+            // Shown to the reported user as the warning text or on their next sign-in attempt.
+            const input = prompt(action === 'warn'
+                ? `Enter the warning message for ${report.reportedUser?.name || 'this user'}:`
+                : `Enter the reason for banning ${report.reportedUser?.name || 'this user'}:`, `Reported for: ${report.reason}`);
+            if (input === null) return;
+            note = input;
+        } else if (action !== 'dismiss' && !window.confirm(`Are you sure you want to ${ACTION_CONFIRMATIONS[action]}?`)) {
+            return;
+        }
+
+        setWorkingReportId(report.id);
+        try {
+            const success = await geminiService.resolveReport(report.id, action, adminUser, note);
             if (!success) {
-                alert(`Action "${resolution}" failed. Please try again.`);
-                return;
+                alert('Could not resolve the report. It may already have been handled, or the content no longer exists.');
             }
+        } catch (error: any) {
+            alert(error.message);
         }
-        await geminiService.resolveReport(reportId, resolution);
+        setWorkingReportId(null);
         fetchReports(); // Refresh the list
     };
     
@@ -100,36 +117,37 @@ const AdminReportsScreen: React.FC = () => {
                     </div>
                 ) : (
                     <div className="space-y-6">
-                        {reports.map(report => (
-                            <div key={report.id} className="bg-slate-800/50 rounded-lg p-5 border border-slate-700 space-y-4">
-                                <div className="flex justify-between items-start">
-                                    <div>
-                                        <h3 className="font-bold text-lg text-slate-100">Report #{report.id.substring(0,6)}</h3>
-                                        <p className="text-sm text-slate-400">
-                                            Reported by <span className="font-semibold text-sky-400">{report.reporterName}</span> on {new Date(report.createdAt).toLocaleDateString()}
-                                        </p>
+                        {reports.map(report => {
+                            const isWorking = workingReportId === report.id;
+                            const hasContent = report.reportedContentType === 'post' ? !!report.reportedPost
+                                : report.reportedContentType === 'comment' ? !!report.reportedComment : false;
+                            return (
+                                <div key={report.id} className="bg-slate-800/50 rounded-lg p-5 border border-slate-700 space-y-4">
+                                    <div className="flex justify-between items-start">
+                                        <div>
+                                            <h3 className="font-bold text-lg text-slate-100">Report #{report.id.substring(0,6)}</h3>
+                                            <p className="text-sm text-slate-400">
+                                                Reported by <span className="font-semibold text-sky-400">{report.reporterName}</span> on {new Date(report.createdAt).toLocaleDateString()}
+                                            </p>
+                                        </div>
+                                        <div className="text-right">
+                                             <p className="text-sm font-bold text-rose-400">Reason</p>
+                                             <p className="text-sm text-slate-300">{report.reason}</p>
+                                        </div>
                                     </div>
-                                    <div className="text-right">
-                                         <p className="text-sm font-bold text-rose-400">Reason</p>
-                                         <p className="text-sm text-slate-300">{report.reason}</p>
+                                    <ReportedContentCard report={report} />
+                                    <div className="pt-4 border-t border-slate-700 flex flex-wrap gap-3">
+                                        <button disabled={isWorking} onClick={() => handleAction(report, 'dismiss')} className="px-3 py-2 text-sm rounded-md bg-slate-600 hover:bg-slate-500 disabled:opacity-50 text-white font-semibold">Dismiss Report</button>
+                                        {hasContent &&
+                                            <button disabled={isWorking} onClick={() => handleAction(report, 'delete_content')} className="px-3 py-2 text-sm rounded-md bg-yellow-600 hover:bg-yellow-500 disabled:opacity-50 text-white font-semibold">Delete {report.reportedContentType === 'post' ? 'Post' : 'Comment'}</button>
+                                        }
+                                        <button disabled={isWorking} onClick={() => handleAction(report, 'warn')} className="px-3 py-2 text-sm rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white font-semibold">Warn User</button>
+                                        <button disabled={isWorking} onClick={() => handleAction(report, 'suspend')} className="px-3 py-2 text-sm rounded-md bg-orange-600 hover:bg-orange-500 disabled:opacity-50 text-white font-semibold">Suspend User ({REPORT_SUSPENSION_DAYS}d)</button>
+                                        <button disabled={isWorking} onClick={() => handleAction(report, 'ban')} className="px-3 py-2 text-sm rounded-md bg-red-600 hover:bg-red-500 disabled:opacity-50 text-white font-bold">Ban User</button>
                                     </div>
                                 </div>
-                                <ReportedContentCard report={report} />
-                                <div className="pt-4 border-t border-slate-700 flex flex-wrap gap-3">
-                                    <button onClick={() => handleAction(report.id, 'Dismissed')} className="px-3 py-2 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-white font-semibold">Dismiss Report</button>
-                                    
-                                    {report.reportedContentType === 'post' && 
-                                        <button onClick={() => handleAction(report.id, 'Content Deleted', () => geminiService.deletePostAsAdmin(report.reportedContentId))} className="px-3 py-2 text-sm rounded-md bg-yellow-600 hover:bg-yellow-500 text-white font-semibold">Delete Post</button>
-                                    }
-                                    {report.reportedContentType === 'comment' && 
-                                        <button onClick={() => handleAction(report.id, 'Content Deleted', () => geminiService.deleteCommentAsAdmin(report.reportedContentId, "unknown"))} className="px-3 py-2 text-sm rounded-md bg-yellow-600 hover:bg-yellow-500 text-white font-semibold">Delete Comment</button>
-                                    }
-                                    
-                                    <button onClick={() => handleAction(report.id, 'User Suspended (7d)', () => geminiService.suspendUserCommenting(report.reportedUserId, 7))} className="px-3 py-2 text-sm rounded-md bg-orange-600 hover:bg-orange-500 text-white font-semibold">Suspend User (7d)</button>
-                                    <button onClick={() => handleAction(report.id, 'User Banned', () => geminiService.banUser(report.reportedUserId))} className="px-3 py-2 text-sm rounded-md bg-red-600 hover:bg-red-500 text-white font-bold">Ban User</button>
-                                </div>
-                            </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 )}
             </div>
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Campaign, AdminUser } from '../types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AdminUser, Payment, PaymentStatementRow, PaymentReconciliationResult } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
 
@@ -7,50 +7,178 @@ interface AdminTransactionsScreenProps {
     adminUser: AdminUser;
 }
 
-const StatusBadge: React.FC<{ status: Campaign['paymentStatus'] }> = ({ status }) => {
+type StatusFilter = 'pending' | 'verified' | 'failed' | 'all';
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+    { value: 'pending', label: 'Pending' },
+    { value: 'verified', label: 'Verified' },
+    { value: 'failed', label: 'Failed' },
+    { value: 'all', label: 'All' },
+];
+
+const METHOD_LABELS: Record<Payment['method'], string> = {
+    bkash: 'bKash',
+    nagad: 'Nagad',
+};
+
+const StatusBadge: React.FC<{ status: Payment['status'] }> = ({ status }) => {
     const styles = {
         pending: 'bg-yellow-500/20 text-yellow-300',
         verified: 'bg-green-500/20 text-green-400',
         failed: 'bg-red-500/20 text-red-400',
     };
     return (
-        <span className={`px-2.5 py-1 text-xs font-semibold rounded-full capitalize ${styles[status || 'pending']}`}>
-            {status || 'pending'}
+        <span className={`px-2.5 py-1 text-xs font-semibold rounded-full capitalize ${styles[status]}`}>
+            {status}
         </span>
     );
 };
 
+// Splits one CSV line, honouring double-quoted fields with embedded commas and "" escapes.
+const splitCsvLine = (line: string): string[] => {
+    const cells: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (inQuotes) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+};
+
+// Reads a bKash or Nagad merchant statement export. Column order differs between the two,
+// so columns are found by header name.
+const parseStatementCsv = (text: string): PaymentStatementRow[] => {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+    const headerIndex = lines.findIndex(line => /trx|transaction/i.test(line) && /amount/i.test(line));
+    if (headerIndex === -1) return [];
+
+    const header = splitCsvLine(lines[headerIndex]).map(h => h.toLowerCase());
+    const trxColumn = header.findIndex(h => /trx|transaction id|txn/.test(h));
+    const amountColumn = header.findIndex(h => /amount/.test(h));
+    const senderColumn = header.findIndex(h => /sender|from|customer|account|wallet|msisdn/.test(h));
+    if (trxColumn === -1 || amountColumn === -1) return [];
+
+    return lines.slice(headerIndex + 1).map(splitCsvLine).map(cells => ({
+        transactionId: cells[trxColumn] || '',
+        amount: parseFloat((cells[amountColumn] || '').replace(/[^\d.]/g, '')),
+        senderNumber: senderColumn !== -1 ? cells[senderColumn] : undefined,
+    })).filter(row => row.transactionId && !isNaN(row.amount));
+};
+
+const ReconciliationSummary: React.FC<{ result: PaymentReconciliationResult; onDismiss: () => void }> = ({ result, onDismiss }) => (
+    <div className="bg-slate-800 rounded-lg p-5 mb-6 border border-slate-700">
+        <div className="flex justify-between items-start">
+            <h2 className="text-lg font-bold text-slate-100">Statement Reconciliation</h2>
+            <button onClick={onDismiss} className="text-sm text-slate-400 hover:text-slate-200">Dismiss</button>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4 text-sm">
+            <div className="bg-green-500/10 p-3 rounded-lg"><p className="text-slate-400">Verified</p><p className="text-xl font-bold text-green-400">{result.verified.length}</p></div>
+            <div className="bg-orange-500/10 p-3 rounded-lg"><p className="text-slate-400">Amount mismatch</p><p className="text-xl font-bold text-orange-400">{result.amountMismatches.length}</p></div>
+            <div className="bg-slate-700/50 p-3 rounded-lg"><p className="text-slate-400">Already processed</p><p className="text-xl font-bold text-slate-200">{result.alreadyProcessed.length}</p></div>
+            <div className="bg-slate-700/50 p-3 rounded-lg"><p className="text-slate-400">Not claimed</p><p className="text-xl font-bold text-slate-200">{result.unmatchedRows.length}</p></div>
+        </div>
+        {result.amountMismatches.length > 0 && (
+            <div className="mt-4">
+                <p className="text-sm font-semibold text-orange-300 mb-1">Review manually — the statement amount differs from the campaign budget:</p>
+                <ul className="text-sm text-slate-300 space-y-1">
+                    {result.amountMismatches.map(({ payment, row }) => (
+                        <li key={payment.id} className="font-mono">{payment.transactionId}: claimed ৳{payment.amount.toLocaleString()}, received ৳{row.amount.toLocaleString()} ({payment.sponsorName})</li>
+                    ))}
+                </ul>
+            </div>
+        )}
+    </div>
+);
+
 const AdminTransactionsScreen: React.FC<AdminTransactionsScreenProps> = ({ adminUser }) => {
-    const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+    const [payments, setPayments] = useState<Payment[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [filter, setFilter] = useState<'all' | 'pending'>('pending');
+    const [filter, setFilter] = useState<StatusFilter>('pending');
+    const [search, setSearch] = useState('');
+    const [workingId, setWorkingId] = useState<string | null>(null);
+    const [isReconciling, setIsReconciling] = useState(false);
+    const [reconciliation, setReconciliation] = useState<PaymentReconciliationResult | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const fetchCampaigns = useCallback(async () => {
+    const fetchPayments = useCallback(async () => {
         setIsLoading(true);
-        const allCampaigns = await geminiService.getAllCampaignsForAdmin();
-        setCampaigns(allCampaigns);
+        const ledger = await geminiService.getPaymentsForAdmin();
+        setPayments(ledger);
         setIsLoading(false);
     }, []);
 
     useEffect(() => {
-        fetchCampaigns();
-    }, [fetchCampaigns]);
-    
-    const handleVerify = async (campaignId: string) => {
-        const success = await geminiService.verifyCampaignPayment(campaignId, adminUser.id);
+        fetchPayments();
+    }, [fetchPayments]);
+
+    const handleVerify = async (payment: Payment) => {
+        if (!window.confirm(`Confirm that ৳${payment.amount.toLocaleString()} was received with TrxID ${payment.transactionId}? The campaign will go live.`)) return;
+        setWorkingId(payment.id);
+        const success = await geminiService.verifyPayment(payment.id, adminUser);
+        setWorkingId(null);
         if (success) {
-            fetchCampaigns(); // Refresh list
+            fetchPayments();
         } else {
             alert('Failed to verify payment. Please check the console and try again.');
         }
     };
 
-    const filteredCampaigns = campaigns.filter(c => {
-        if (filter === 'pending') {
-            return c.paymentStatus === 'pending';
+    const handleReject = async (payment: Payment) => {
+        const reason = window.prompt(`Why is TrxID ${payment.transactionId} being rejected? The sponsor will see this.`, 'No matching transaction was found in our merchant statement.');
+        if (!reason?.trim()) return;
+        setWorkingId(payment.id);
+        const success = await geminiService.rejectPayment(payment.id, reason.trim(), adminUser);
+        setWorkingId(null);
+        if (success) {
+            fetchPayments();
+        } else {
+            alert('Failed to reject payment. Please check the console and try again.');
         }
-        return true;
-    });
+    };
+
+    const handleStatementUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const rows = parseStatementCsv(await file.text());
+        if (rows.length === 0) {
+            alert('No transactions found. The statement needs a header row with Transaction ID and Amount columns.');
+            return;
+        }
+        setIsReconciling(true);
+        const result = await geminiService.reconcilePaymentStatement(rows, adminUser);
+        setIsReconciling(false);
+        setReconciliation(result);
+        fetchPayments();
+    };
+
+    const filteredPayments = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return payments.filter(p => {
+            if (filter !== 'all' && p.status !== filter) return false;
+            if (term && ![p.transactionId, p.senderNumber, p.sponsorName].some(value => value?.toLowerCase().includes(term))) return false;
+            return true;
+        });
+    }, [payments, filter, search]);
 
     if (isLoading) {
         return <p className="p-8 text-slate-400">Loading transaction log...</p>;
@@ -59,12 +187,37 @@ const AdminTransactionsScreen: React.FC<AdminTransactionsScreenProps> = ({ admin
     return (
         <div className="h-full w-full overflow-y-auto p-4 sm:p-8">
             <div className="max-w-7xl mx-auto">
-                <h1 className="text-3xl font-bold mb-2 text-slate-100">Transaction Log</h1>
-                <p className="text-slate-400 mb-6">Verify payments submitted for ad campaigns.</p>
-                
-                <div className="flex gap-2 mb-4">
-                    <button onClick={() => setFilter('pending')} className={`px-4 py-2 rounded-md text-sm font-semibold ${filter === 'pending' ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300'}`}>Pending</button>
-                    <button onClick={() => setFilter('all')} className={`px-4 py-2 rounded-md text-sm font-semibold ${filter === 'all' ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300'}`}>All</button>
+                <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+                    <div>
+                        <h1 className="text-3xl font-bold mb-2 text-slate-100">Transaction Log</h1>
+                        <p className="text-slate-400">Verify bKash and Nagad payments submitted for ad campaigns.</p>
+                    </div>
+                    <div>
+                        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleStatementUpload} className="hidden" />
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={isReconciling}
+                            className="px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 text-white font-semibold flex items-center gap-2"
+                        >
+                            <Icon name="archive-box" className="w-5 h-5" />
+                            {isReconciling ? 'Reconciling...' : 'Upload Merchant Statement'}
+                        </button>
+                    </div>
+                </div>
+
+                {reconciliation && <ReconciliationSummary result={reconciliation} onDismiss={() => setReconciliation(null)} />}
+
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {STATUS_FILTERS.map(({ value, label }) => (
+                        <button key={value} onClick={() => setFilter(value)} className={`px-4 py-2 rounded-md text-sm font-semibold ${filter === value ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300'}`}>{label}</button>
+                    ))}
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        placeholder="TrxID, sender number or sponsor"
+                        className="flex-grow min-w-[12rem] bg-slate-700 border border-slate-600 text-slate-100 text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2"
+                    />
                 </div>
 
                 <div className="bg-slate-800/50 rounded-lg overflow-hidden border border-slate-700">
@@ -75,30 +228,40 @@ const AdminTransactionsScreen: React.FC<AdminTransactionsScreenProps> = ({ admin
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider">Sponsor</th>
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider">Date</th>
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider">Amount</th>
+                                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider">Method</th>
+                                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider">Sender</th>
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider">TrxID</th>
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider">Status</th>
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider">Action</th>
                                 </tr>
                             </thead>
                             <tbody className="bg-slate-800/50 divide-y divide-slate-700">
-                                {filteredCampaigns.length > 0 ? filteredCampaigns.map(c => (
-                                    <tr key={c.id}>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-200">{c.sponsorName}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-300">{new Date(c.createdAt).toLocaleString()}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-200">৳{c.budget.toLocaleString()}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-rose-300">{c.transactionId}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap"><StatusBadge status={c.paymentStatus} /></td>
+                                {filteredPayments.length > 0 ? filteredPayments.map(p => (
+                                    <tr key={p.id}>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-200">{p.sponsorName}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-300">{new Date(p.createdAt).toLocaleString()}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-200">৳{p.amount.toLocaleString()}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-300">{METHOD_LABELS[p.method] || p.method}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-300">{p.senderNumber}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-rose-300">{p.transactionId}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap"><StatusBadge status={p.status} /></td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                                            {c.paymentStatus === 'pending' ? (
-                                                <button onClick={() => handleVerify(c.id)} className="bg-green-600 hover:bg-green-500 text-white font-bold py-1.5 px-3 rounded-md transition-colors text-xs">Verify</button>
+                                            {p.status === 'pending' ? (
+                                                <div className="flex gap-2">
+                                                    <button onClick={() => handleVerify(p)} disabled={workingId === p.id} className="bg-green-600 hover:bg-green-500 disabled:bg-slate-600 text-white font-bold py-1.5 px-3 rounded-md transition-colors text-xs">Verify</button>
+                                                    <button onClick={() => handleReject(p)} disabled={workingId === p.id} className="bg-red-600 hover:bg-red-500 disabled:bg-slate-600 text-white font-bold py-1.5 px-3 rounded-md transition-colors text-xs">Reject</button>
+                                                </div>
                                             ) : (
-                                                <span className="text-xs text-slate-500">Verified by {c.paymentVerifiedBy?.substring(0, 5)}...</span>
+                                                <span className="text-xs text-slate-500" title={p.failureReason}>
+                                                    {p.status === 'verified' ? 'Verified' : 'Rejected'} by {p.verifiedByEmail || p.verifiedBy}
+                                                    {p.reconciledAt && ' (statement)'}
+                                                </span>
                                             )}
                                         </td>
                                     </tr>
                                 )) : (
                                     <tr>
-                                        <td colSpan={6} className="px-6 py-8 text-center text-slate-400">No transactions found for this filter.</td>
+                                        <td colSpan={8} className="px-6 py-8 text-center text-slate-400">No transactions found for this filter.</td>
                                     </tr>
                                 )}
                             </tbody>
@@ -3,15 +3,16 @@
 
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { User } from '../types';
+import { User, AdminUser } from '../types';
 import { geminiService } from '../services/geminiService';
 import ImageCropper from './ImageCropper';
 
 interface AdminUserManagementScreenProps {
+  adminUser: AdminUser;
   onSelectUser: (user: User) => void;
 }
 
-const AdminUserManagementScreen: React.FC<AdminUserManagementScreenProps> = ({ onSelectUser }) => {
+const AdminUserManagementScreen: React.FC<AdminUserManagementScreenProps> = ({ adminUser, onSelectUser }) => {
     const [users, setUsers] = useState<User[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [userToEdit, setUserToEdit] = useState<User | null>(null);
@@ -31,18 +32,25 @@ const AdminUserManagementScreen: React.FC<AdminUserManagementScreenProps> = ({ o
     }, [fetchUsers]);
 
     const handleBanToggle = async (user: User) => {
-        const action = user.isBanned ? 'unban' : 'ban';
-        if (window.confirm(`Are you sure you want to ${action} ${user.name}?`)) {
-            const success = user.isBanned ? await geminiService.unbanUser(user.id) : await geminiService.banUser(user.id);
-            if (success) fetchUsers();
+        if (user.isBanned) {
+            if (window.confirm(`Are you sure you want to unban ${user.name}?`)) {
+                const success = await geminiService.unbanUser(user.id, adminUser);
+                if (success) fetchUsers();
+            }
+            return;
         }
+        // The reason is shown to the user when they try to log in.
+        const reason = prompt(`Enter the reason for banning ${user.name}:`);
+        if (reason === null) return;
+        const success = await geminiService.banUser(user.id, reason.trim(), adminUser);
+        if (success) fetchUsers();
     };
     
     const handleCommentSuspensionToggle = async (user: User) => {
         const isSuspended = user.commentingSuspendedUntil && new Date(user.commentingSuspendedUntil) > new Date();
         const action = isSuspended ? 'lift the comment suspension for' : 'suspend commenting for 1 day for';
         if (window.confirm(`Are you sure you want to ${action} ${user.name}?`)) {
-            const success = isSuspended ? await geminiService.liftUserCommentingSuspension(user.id) : await geminiService.suspendUserCommenting(user.id, 1);
+            const success = isSuspended ? await geminiService.liftUserCommentingSuspension(user.id, adminUser) : await geminiService.suspendUserCommenting(user.id, 1, adminUser);
              if (success) fetchUsers();
         }
     };
@@ -52,8 +60,8 @@ const AdminUserManagementScreen: React.FC<AdminUserManagementScreenProps> = ({ o
         const action = isSuspended ? 'lift the posting suspension for' : 'suspend posting for 7 days for';
         if (window.confirm(`Are you sure you want to ${action} ${user.name}?`)) {
             const success = isSuspended 
-                ? await geminiService.liftUserPostingSuspension(user.id) 
-                : await geminiService.suspendUserPosting(user.id, 7);
+                ? await geminiService.liftUserPostingSuspension(user.id, adminUser) 
+                : await geminiService.suspendUserPosting(user.id, 7, adminUser);
              if (success) fetchUsers();
         }
     };
@@ -61,7 +69,7 @@ const AdminUserManagementScreen: React.FC<AdminUserManagementScreenProps> = ({ o
     const handleWarnUser = async (user: User) => {
         const reason = prompt(`Enter the warning message for ${user.name}:`);
         if (reason && reason.trim()) {
-            const success = await geminiService.warnUser(user.id, reason.trim());
+            const success = await geminiService.warnUser(user.id, reason.trim(), adminUser);
             if (success) {
                 alert('Warning sent successfully. The user will see it in their notifications.');
             } else {
@@ -72,7 +80,7 @@ const AdminUserManagementScreen: React.FC<AdminUserManagementScreenProps> = ({ o
 
     const handleReactivate = async (user: User) => {
         if (window.confirm(`Are you sure you want to reactivate ${user.name}'s account?`)) {
-            const success = await geminiService.reactivateUserAsAdmin(user.id);
+            const success = await geminiService.reactivateUserAsAdmin(user.id, adminUser);
             if (success) fetchUsers();
         }
     };
@@ -114,7 +122,7 @@ const AdminUserManagementScreen: React.FC<AdminUserManagementScreenProps> = ({ o
             return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-slate-500/20 text-slate-400">Deactivated</span>;
         }
         if (user.isBanned) {
-            return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-500/20 text-red-400">Banned</span>;
+            return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-500/20 text-red-400" title={user.banReason}>Banned</span>;
         }
         if (user.postingSuspendedUntil && new Date(user.postingSuspendedUntil) > new Date()) {
             const date = new Date(user.postingSuspendedUntil);
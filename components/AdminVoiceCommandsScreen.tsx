@@ -0,0 +1,89 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { VoiceCommandMiss } from '../types';
+import { geminiService } from '../services/geminiService';
+import Icon from './Icon';
+
+const formatIntent = (intent?: string): string => intent ? intent.replace(/^intent_/, '').replace(/_/g, ' ') : '';
+
+const AdminVoiceCommandsScreen: React.FC = () => {
+    const [misses, setMisses] = useState<VoiceCommandMiss[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [search, setSearch] = useState('');
+
+    const fetchMisses = useCallback(async () => {
+        setIsLoading(true);
+        const topMisses = await geminiService.getTopCommandMisses();
+        setMisses(topMisses);
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        fetchMisses();
+    }, [fetchMisses]);
+
+    const filteredMisses = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        if (!term) return misses;
+        return misses.filter(m => m.phrase.toLowerCase().includes(term) || (m.lastExpectedMeaning || '').toLowerCase().includes(term));
+    }, [misses, search]);
+
+    const inputClass = "bg-slate-700 border border-slate-600 text-slate-100 text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2";
+
+    return (
+        <div className="h-full w-full overflow-y-auto p-4 sm:p-8">
+            <div className="flex flex-wrap justify-between items-start gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-100">Voice Commands</h1>
+                    <p className="text-slate-400 mt-1">The phrasings users say most often that the assistant didn't understand or got wrong. Use them to extend the NLU intent list and the Banglish examples.</p>
+                </div>
+                <button onClick={fetchMisses} className="px-4 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold">Refresh</button>
+            </div>
+
+            <div className="mt-6 max-w-md">
+                <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search phrases" className={`${inputClass} w-full`} />
+            </div>
+
+            {isLoading ? (
+                <p className="mt-8 text-slate-400">Loading voice commands...</p>
+            ) : filteredMisses.length === 0 ? (
+                <div className="text-center py-12 mt-6 bg-slate-800/50 rounded-lg">
+                    <Icon name="mic" className="w-16 h-16 mx-auto text-slate-600 mb-4" />
+                    <h3 className="text-xl font-bold text-slate-300">No Missed Phrasings</h3>
+                </div>
+            ) : (
+                <div className="mt-6 overflow-x-auto bg-slate-800 rounded-lg">
+                    <table className="min-w-full divide-y divide-slate-700 text-sm">
+                        <thead className="bg-slate-700/50">
+                            <tr>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">Phrase</th>
+                                <th className="px-4 py-3 text-right font-medium text-slate-300 uppercase tracking-wider">Total</th>
+                                <th className="px-4 py-3 text-right font-medium text-slate-300 uppercase tracking-wider">Not understood</th>
+                                <th className="px-4 py-3 text-right font-medium text-slate-300 uppercase tracking-wider">Misunderstood</th>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">Last understood as</th>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">User meant</th>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">Last heard as</th>
+                                <th className="px-4 py-3 text-left font-medium text-slate-300 uppercase tracking-wider">Last seen</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-700">
+                            {filteredMisses.map(miss => (
+                                <tr key={miss.id} className="align-top">
+                                    <td className="px-4 py-3 font-mono text-slate-100">{miss.phrase}</td>
+                                    <td className="px-4 py-3 text-right font-semibold text-sky-400">{miss.count}</td>
+                                    <td className="px-4 py-3 text-right text-slate-300">{miss.unknownCount}</td>
+                                    <td className="px-4 py-3 text-right text-slate-300">{miss.misrecognizedCount}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-slate-300 capitalize">{formatIntent(miss.lastIntent)}</td>
+                                    <td className="px-4 py-3 text-slate-300">{miss.lastExpectedMeaning || ''}</td>
+                                    <td className="px-4 py-3 text-slate-400">{miss.lastRawTranscript !== miss.phrase ? miss.lastRawTranscript || '' : ''}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-slate-400">{new Date(miss.lastSeenAt).toLocaleString()}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AdminVoiceCommandsScreen;
@@ -1,12 +1,12 @@
 
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { User, Campaign, Lead } from '../types';
-import { firebaseService } from '../services/firebaseService';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { User, Campaign, PaymentSubmission } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
-import { SPONSOR_CPM_BDT } from '../constants';
+import { SPONSOR_CPM_BDT, CAMPAIGN_DEFAULT_DURATION_DAYS, AD_FREQUENCY_CAP_PER_DAY, BANGLADESH_DISTRICTS, AD_RADIUS_OPTIONS_KM, GROUP_CATEGORIES } from '../constants';
 import PaymentModal from './PaymentModal';
+import CampaignAnalyticsPanel from './CampaignAnalyticsPanel';
 
 interface AdsScreenProps {
   currentUser: User;
@@ -19,6 +19,10 @@ interface AdsScreenProps {
 type MediaType = 'image' | 'video' | 'audio';
 type CtaType = 'website' | 'message' | 'lead_form';
 
+const DURATION_OPTIONS = [3, 7, 14, 30];
+const INTEREST_OPTIONS = GROUP_CATEGORIES.filter(category => category !== 'General');
+const DISTRICT_OPTIONS = [...BANGLADESH_DISTRICTS].sort((a, b) => a.name.localeCompare(b.name));
+
 const StatCard: React.FC<{ title: string, value: string, iconName: React.ComponentProps<typeof Icon>['name'], color: string }> = ({ title, value, iconName, color }) => (
     <div className="bg-slate-800 p-4 rounded-lg flex items-center gap-4">
         <div className={`p-3 rounded-full ${color}`}>
@@ -40,6 +44,7 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
     const [sponsorName, setSponsorName] = useState(currentUser.name);
     const [caption, setCaption] = useState('');
     const [budget, setBudget] = useState<number | string>('');
+    const [durationDays, setDurationDays] = useState(CAMPAIGN_DEFAULT_DURATION_DAYS);
     const [mediaType, setMediaType] = useState<MediaType>('image');
     const [mediaFile, setMediaFile] = useState<File | null>(null);
     const [mediaPreviewUrl, setMediaPreviewUrl] = useState<string | null>(null);
@@ -50,19 +55,20 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
 
     // Targeting state
     const [location, setLocation] = useState('');
+    const [radiusKm, setRadiusKm] = useState(0);
     const [gender, setGender] = useState<'Male' | 'Female' | 'All'>('All');
     const [ageRange, setAgeRange] = useState('All');
-    const [interests, setInterests] = useState('');
+    const [interests, setInterests] = useState<string[]>([]);
+    const [audienceEstimate, setAudienceEstimate] = useState<{ estimate: number; matchedInSample: number; sampleSize: number } | null>(null);
+    const [isEstimating, setIsEstimating] = useState(false);
 
 
     // Payment flow state
     const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
     const [pendingCampaignData, setPendingCampaignData] = useState<Omit<Campaign, 'id'|'views'|'clicks'|'status'|'transactionId'> | null>(null);
     
-    // Leads view state
-    const [viewingLeadsFor, setViewingLeadsFor] = useState<string | null>(null);
-    const [leads, setLeads] = useState<Lead[]>([]);
-    const [isLoadingLeads, setIsLoadingLeads] = useState(false);
+    // Analytics view state
+    const [viewingAnalyticsFor, setViewingAnalyticsFor] = useState<string | null>(null);
     
     const fileInputRef = useRef<HTMLInputElement>(null);
     const submitButtonRef = useRef<HTMLButtonElement>(null);
@@ -141,10 +147,40 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
         }
     }, [lastCommand, handleCommand]);
 
+    const targeting: Campaign['targeting'] = useMemo(() => ({
+        location: location || undefined,
+        radiusKm: location && radiusKm > 0 ? radiusKm : undefined,
+        gender: gender,
+        ageRange: ageRange !== 'All' ? ageRange : undefined,
+        interests,
+    }), [location, radiusKm, gender, ageRange, interests]);
+
+    useEffect(() => {
+        if (activeTab !== 'create') return;
+        let isCancelled = false;
+        setIsEstimating(true);
+        const timer = setTimeout(async () => {
+            const result = await geminiService.estimateAudienceSize(targeting);
+            if (!isCancelled) {
+                setAudienceEstimate(result);
+                setIsEstimating(false);
+            }
+        }, 500);
+        return () => {
+            isCancelled = true;
+            clearTimeout(timer);
+        };
+    }, [activeTab, targeting]);
+
+    const toggleInterest = (interest: string) => {
+        setInterests(prev => prev.includes(interest) ? prev.filter(i => i !== interest) : [...prev, interest]);
+    };
+
     const resetForm = () => {
         setSponsorName(currentUser.name);
         setCaption('');
         setBudget('');
+        setDurationDays(CAMPAIGN_DEFAULT_DURATION_DAYS);
         setMediaType('image');
         setMediaFile(null);
         if(mediaPreviewUrl) URL.revokeObjectURL(mediaPreviewUrl);
@@ -153,9 +189,10 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
         setWebsiteUrl('');
         setAdType('feed');
         setLocation('');
+        setRadiusKm(0);
         setGender('All');
         setAgeRange('All');
-        setInterests('');
+        setInterests([]);
         if(fileInputRef.current) fileInputRef.current.value = '';
     }
 
@@ -181,6 +218,7 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
             sponsorName,
             caption,
             budget: Number(budget),
+            durationDays,
             imageUrl: mediaType === 'image' ? mediaPreviewUrl : undefined,
             audioUrl: mediaType === 'audio' ? mediaPreviewUrl : undefined,
             videoUrl: mediaType === 'video' ? mediaPreviewUrl : undefined,
@@ -190,12 +228,7 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
             createdAt: new Date().toISOString(),
             paymentStatus: 'pending',
             adType: adType,
-            targeting: {
-                location: location.trim() || undefined,
-                gender: gender,
-                ageRange: ageRange !== 'All' ? ageRange : undefined,
-                interests: interests.split(',').map(i => i.trim()).filter(Boolean)
-            }
+            targeting,
         };
         
         setPendingCampaignData(campaignData);
@@ -203,33 +236,28 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
         onSetTtsMessage(`Proceeding to payment for ৳${budget}. Please complete the transaction.`);
     }
 
-    const handlePaymentSubmit = async (transactionId: string) => {
-        if (!pendingCampaignData) return;
+    const handlePaymentSubmit = async (payment: PaymentSubmission) => {
+        if (!pendingCampaignData) return { success: false };
         
-        setIsPaymentModalOpen(false);
         setIsSubmitting(true);
         onSetTtsMessage("Submitting your campaign for verification...");
         
-        await geminiService.submitCampaignForApproval(pendingCampaignData, transactionId);
+        const result = await geminiService.submitCampaignForApproval(pendingCampaignData, payment);
         
         setIsSubmitting(false);
+        if (!result.success) {
+            onSetTtsMessage(result.reason === 'duplicate_transaction'
+                ? "That transaction ID has already been used. Please check it and try again."
+                : "Your payment could not be submitted. Please try again.");
+            return result;
+        }
+        setIsPaymentModalOpen(false);
         setPendingCampaignData(null);
         resetForm();
         await fetchCampaigns();
         setActiveTab('dashboard');
         onSetTtsMessage("Your campaign has been submitted for approval. You will receive a notification shortly.");
-    };
-
-    const handleViewLeads = async (campaignId: string) => {
-        if (viewingLeadsFor === campaignId) {
-            setViewingLeadsFor(null); // Toggle off
-            return;
-        }
-        setIsLoadingLeads(true);
-        setViewingLeadsFor(campaignId);
-        const fetchedLeads = await firebaseService.getLeadsForCampaign(campaignId);
-        setLeads(fetchedLeads);
-        setIsLoadingLeads(false);
+        return result;
     };
 
     const getStatusStyles = (status: Campaign['status']) => {
@@ -259,8 +287,10 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
         return (
             <div className="space-y-6">
                 {campaigns.map(campaign => {
-                    const costSoFar = (campaign.views / 1000) * SPONSOR_CPM_BDT;
+                    const costSoFar = campaign.spent ?? (campaign.views / 1000) * SPONSOR_CPM_BDT;
                     const budgetRemaining = campaign.budget - costSoFar;
+                    const duration = campaign.durationDays || CAMPAIGN_DEFAULT_DURATION_DAYS;
+                    const isSpendingToday = campaign.spendDate === new Date().toISOString().slice(0, 10).replace(/-/g, '_');
                     const mediaUrl = campaign.videoUrl || campaign.imageUrl || campaign.audioUrl;
 
                     return (
@@ -296,46 +326,27 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
                                             <StatCard title="Budget" value={`৳${campaign.budget.toLocaleString()}`} iconName="coin" color="bg-emerald-500/80"/>
                                             <StatCard title="Budget Left" value={`৳${Math.max(0, budgetRemaining).toLocaleString('en-US', {minimumFractionDigits: 2, maximumFractionDigits: 2})}`} iconName="coin" color="bg-yellow-500/80"/>
                                         </div>
+                                        <p className="text-xs text-slate-400 mt-3">
+                                            {campaign.status === 'finished'
+                                                ? `Budget fully spent${campaign.finishedAt ? ` on ${new Date(campaign.finishedAt).toLocaleDateString()}` : ''}.`
+                                                : `Paced over ${duration} days (about ৳${(campaign.budget / duration).toLocaleString('en-US', { maximumFractionDigits: 0 })} per day)${campaign.status === 'active' ? ` · ৳${(isSpendingToday ? campaign.spentToday || 0 : 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} spent today` : ''}.`}
+                                        </p>
                                     </div>
                                 </div>
-                                {campaign.allowLeadForm && (
+                                {campaign.status !== 'pending' && campaign.status !== 'rejected' && (
                                 <div className="mt-4 pt-4 border-t border-slate-700">
                                     <button
-                                        onClick={() => handleViewLeads(campaign.id)}
+                                        onClick={() => setViewingAnalyticsFor(id => id === campaign.id ? null : campaign.id)}
                                         className="bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-2 px-4 rounded-lg text-sm"
                                     >
-                                        {viewingLeadsFor === campaign.id ? 'Hide Leads' : 'View Leads'}
+                                        {viewingAnalyticsFor === campaign.id ? 'Hide Analytics' : 'View Analytics'}
                                     </button>
                                 </div>
                               )}
                             </div>
-                             {viewingLeadsFor === campaign.id && (
+                             {viewingAnalyticsFor === campaign.id && (
                                 <div className="bg-slate-900/50 p-4 border-t border-slate-700">
-                                    <h4 className="font-bold text-lg text-slate-200 mb-3">Collected Leads</h4>
-                                    {isLoadingLeads ? <p>Loading leads...</p> : leads.length === 0 ? <p>No leads collected yet.</p> : (
-                                        <div className="overflow-x-auto">
-                                            <table className="min-w-full text-sm text-left text-slate-300">
-                                                <thead className="text-xs text-slate-400 uppercase bg-slate-800">
-                                                    <tr>
-                                                        <th scope="col" className="px-4 py-2">Date</th>
-                                                        <th scope="col" className="px-4 py-2">Name</th>
-                                                        <th scope="col" className="px-4 py-2">Email</th>
-                                                        <th scope="col" className="px-4 py-2">Phone</th>
-                                                    </tr>
-                                                </thead>
-                                                <tbody>
-                                                    {leads.map(lead => (
-                                                        <tr key={lead.id} className="border-b border-slate-700">
-                                                            <td className="px-4 py-2">{new Date(lead.createdAt).toLocaleDateString()}</td>
-                                                            <td className="px-4 py-2 font-medium text-slate-100">{lead.userName}</td>
-                                                            <td className="px-4 py-2">{lead.userEmail}</td>
-                                                            <td className="px-4 py-2">{lead.userPhone || 'N/A'}</td>
-                                                        </tr>
-                                                    ))}
-                                                </tbody>
-                                            </table>
-                                        </div>
-                                    )}
+                                    <CampaignAnalyticsPanel campaign={campaign} />
                                 </div>
                             )}
                         </div>
@@ -396,8 +407,16 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
                  <legend className="text-xl font-semibold text-lime-400 mb-2">3. Targeting (Optional)</legend>
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                      <div>
-                        <label htmlFor="location" className="block mb-2 text-sm font-medium text-slate-300">Location</label>
-                        <input type="text" id="location" value={location} onChange={e => setLocation(e.target.value)} placeholder="e.g., Dhaka, Bangladesh" className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg block w-full p-2.5" />
+                        <label htmlFor="location" className="block mb-2 text-sm font-medium text-slate-300">District</label>
+                        <div className="flex gap-2">
+                            <select id="location" value={location} onChange={e => setLocation(e.target.value)} className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg block w-full p-2.5">
+                                <option value="">All of Bangladesh</option>
+                                {DISTRICT_OPTIONS.map(district => <option key={district.name} value={district.name}>{district.name} ({district.nameBn})</option>)}
+                            </select>
+                            <select id="radiusKm" value={radiusKm} onChange={e => setRadiusKm(Number(e.target.value))} disabled={!location} aria-label="Radius" className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg block p-2.5 disabled:opacity-50">
+                                {AD_RADIUS_OPTIONS_KM.map(km => <option key={km} value={km}>{km === 0 ? 'District only' : `+${km} km`}</option>)}
+                            </select>
+                        </div>
                     </div>
                      <div>
                         <label htmlFor="gender" className="block mb-2 text-sm font-medium text-slate-300">Gender</label>
@@ -418,11 +437,33 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
                         </select>
                     </div>
                      <div>
-                        <label htmlFor="interests" className="block mb-2 text-sm font-medium text-slate-300">Interests</label>
-                        <input type="text" id="interests" value={interests} onChange={e => setInterests(e.target.value)} placeholder="e.g., music, food, gaming" className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg block w-full p-2.5" />
-                        <p className="text-xs text-slate-400 mt-1">Comma-separated interests.</p>
+                        <span className="block mb-2 text-sm font-medium text-slate-300">Interests</span>
+                        <div className="flex flex-wrap gap-2">
+                            {INTEREST_OPTIONS.map(interest => (
+                                <button
+                                    type="button"
+                                    key={interest}
+                                    onClick={() => toggleInterest(interest)}
+                                    className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${interests.includes(interest) ? 'bg-lime-600 text-black' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                                >
+                                    {interest}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-slate-400 mt-1">Based on the groups people join, the group posts they react to and the topics they follow.</p>
                     </div>
                  </div>
+                 <div className="p-3 bg-slate-700/50 rounded-lg">
+                    <p className="text-sm text-slate-300">
+                        Estimated audience:{' '}
+                        <span className="font-bold text-lime-400">
+                            {isEstimating ? 'Calculating...' : audienceEstimate ? `~${audienceEstimate.estimate.toLocaleString()} people` : 'Unavailable'}
+                        </span>
+                    </p>
+                    {!isEstimating && audienceEstimate && audienceEstimate.estimate === 0 && (
+                        <p className="text-xs text-yellow-400 mt-1">No one matches this targeting yet. Try a wider radius or fewer criteria.</p>
+                    )}
+                 </div>
             </fieldset>
 
 
@@ -434,6 +475,16 @@ const AdsScreen: React.FC<AdsScreenProps> = ({ currentUser, onSetTtsMessage, las
                     <input type="number" id="budget" value={budget} onChange={e => setBudget(e.target.value)} placeholder="e.g., 5000" min="500" required className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg block w-full p-2.5" />
                     <p className="text-xs text-slate-400 mt-2">Based on a CPM of ৳{SPONSOR_CPM_BDT}, this budget will give you approximately {Number(budget) > 0 ? Math.floor((Number(budget) / SPONSOR_CPM_BDT) * 1000).toLocaleString() : 0} views.</p>
                 </div>
+                <div>
+                    <label htmlFor="durationDays" className="block mb-2 text-sm font-medium text-slate-300">Run Campaign For</label>
+                    <select id="durationDays" value={durationDays} onChange={e => setDurationDays(Number(e.target.value))} className="bg-slate-700 border border-slate-600 text-slate-100 text-base rounded-lg block w-full p-2.5">
+                        {DURATION_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+                    </select>
+                    <p className="text-xs text-slate-400 mt-2">Your budget is spent evenly across these days, roughly ৳{Number(budget) > 0 ? Math.floor(Number(budget) / durationDays).toLocaleString() : 0} per day. The campaign finishes automatically once the full budget is spent.</p>
+                    {audienceEstimate && audienceEstimate.estimate > 0 && (Number(budget) / SPONSOR_CPM_BDT) * 1000 > audienceEstimate.estimate * AD_FREQUENCY_CAP_PER_DAY * durationDays && (
+                        <p className="text-xs text-yellow-400 mt-1">This budget buys more views than your estimated audience can see in {durationDays} days, so it may not be fully spent. Consider widening your targeting or running longer.</p>
+                    )}
+                </div>
                 <div>
                     <h3 className="text-base font-medium text-slate-300 mb-2">Call To Action</h3>
                     {/* CTA options here */}
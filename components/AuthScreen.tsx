@@ -173,6 +173,9 @@ const AuthScreen: React.FC<AuthScreenProps> = ({
         <div className="min-h-[3em]">
           {isLoading && <p className="animate-pulse">Processing...</p>}
         </div>
+        {authError && (
+            <p role="alert" className="mt-2 p-3 text-sm text-red-300 border border-red-500/40 rounded-md bg-red-900/20">{authError}</p>
+        )}
         {(mode > AuthMode.LOGIN) && renderSignupProgress()}
         {(mode === AuthMode.LOGIN && identifier) && <p className="text-lime-400/70 text-sm mt-4">Logging in as: <span className="text-lime-300">{identifier}</span></p>}
       </div>
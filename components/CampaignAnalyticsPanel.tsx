@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Campaign, CampaignDailyStats, CampaignStatCounts, CampaignBreakdownDimension, Lead } from '../types';
+import { geminiService } from '../services/geminiService';
+import { downloadCsv } from '../utils/csv';
+
+interface CampaignAnalyticsPanelProps {
+    campaign: Campaign;
+}
+
+type ChartMetric = 'impressions' | 'clicks' | 'ctr' | 'costPerLead';
+
+const CHART_METRICS: { key: ChartMetric; label: string; color: string }[] = [
+    { key: 'impressions', label: 'Impressions', color: 'bg-sky-500' },
+    { key: 'clicks', label: 'Clicks', color: 'bg-lime-500' },
+    { key: 'ctr', label: 'CTR', color: 'bg-emerald-500' },
+    { key: 'costPerLead', label: 'Cost per Lead', color: 'bg-yellow-500' },
+];
+
+const BREAKDOWNS: { dimension: CampaignBreakdownDimension; label: string }[] = [
+    { dimension: 'city', label: 'District' },
+    { dimension: 'gender', label: 'Gender' },
+    { dimension: 'ageBand', label: 'Age' },
+];
+
+const STATS_DAYS = 30;
+
+const ctrOf = (counts: { impressions?: number; clicks?: number }) =>
+    counts.impressions ? ((counts.clicks || 0) / counts.impressions) * 100 : 0;
+
+const formatMetric = (metric: ChartMetric, value: number): string => {
+    if (metric === 'ctr') return `${value.toFixed(2)}%`;
+    if (metric === 'costPerLead') return `৳${value.toFixed(2)}`;
+    return value.toLocaleString();
+};
+
+const metricValue = (metric: ChartMetric, day: CampaignDailyStats): number => {
+    if (metric === 'ctr') return ctrOf(day);
+    if (metric === 'costPerLead') return day.leads > 0 ? day.spend / day.leads : 0;
+    return day[metric];
+};
+
+// Sums each segment's counts across every day in the range.
+const totalBreakdown = (stats: CampaignDailyStats[], dimension: CampaignBreakdownDimension) => {
+    const totals = new Map<string, CampaignStatCounts>();
+    stats.forEach(day => {
+        Object.entries(day.breakdown[dimension] || {}).forEach(([segment, counts]) => {
+            const current = totals.get(segment) || { impressions: 0, clicks: 0, leads: 0, messages: 0 };
+            totals.set(segment, {
+                impressions: current.impressions + (counts.impressions || 0),
+                clicks: current.clicks + (counts.clicks || 0),
+                leads: current.leads + (counts.leads || 0),
+                messages: current.messages + (counts.messages || 0),
+            });
+        });
+    });
+    return [...totals.entries()].sort((a, b) => b[1].impressions - a[1].impressions);
+};
+
+const downloadLeadsCsv = (campaign: Campaign, leads: Lead[]) => {
+    const header = ['Date', 'Name', 'Email', 'Phone'];
+    const rows = leads.map(lead => [lead.createdAt, lead.userName, lead.userEmail, lead.userPhone || '']);
+    downloadCsv(`leads-${campaign.sponsorName.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || campaign.id}-${new Date().toISOString().slice(0, 10)}.csv`, [header, ...rows]);
+};
+
+const SummaryTile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="bg-slate-800 p-3 rounded-lg">
+        <p className="text-xs text-slate-400">{label}</p>
+        <p className="text-lg font-bold text-slate-100">{value}</p>
+    </div>
+);
+
+const DailyChart: React.FC<{ stats: CampaignDailyStats[] }> = ({ stats }) => {
+    const [metric, setMetric] = useState<ChartMetric>('impressions');
+    const activeMetric = CHART_METRICS.find(m => m.key === metric)!;
+    const values = stats.map(day => metricValue(metric, day));
+    const max = Math.max(...values, metric === 'impressions' || metric === 'clicks' ? 1 : 0.01);
+
+    return (
+        <div className="bg-slate-800 p-4 rounded-lg">
+            <div className="flex flex-wrap gap-2">
+                {CHART_METRICS.map(m => (
+                    <button
+                        key={m.key}
+                        onClick={() => setMetric(m.key)}
+                        className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${metric === m.key ? 'bg-slate-600 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+                    >
+                        {m.label}
+                    </button>
+                ))}
+            </div>
+            <div className="mt-4 h-36 flex items-end gap-1">
+                {stats.map((day, i) => (
+                    <div key={day.date} className="flex-1 h-full flex flex-col justify-end group relative">
+                        <div
+                            className={`${activeMetric.color} rounded-t-sm opacity-80 group-hover:opacity-100 transition-opacity`}
+                            style={{ height: `${(values[i] / max) * 100}%`, minHeight: values[i] > 0 ? '2px' : '0' }}
+                        />
+                        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 hidden group-hover:block bg-slate-900 text-xs text-slate-200 px-2 py-1 rounded whitespace-nowrap z-10">
+                            {day.date}: {formatMetric(metric, values[i])}
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-xs text-slate-500 mt-2">
+                <span>{stats[0]?.date}</span>
+                <span>{stats[stats.length - 1]?.date}</span>
+            </div>
+        </div>
+    );
+};
+
+const CampaignAnalyticsPanel: React.FC<CampaignAnalyticsPanelProps> = ({ campaign }) => {
+    const [stats, setStats] = useState<CampaignDailyStats[]>([]);
+    const [leads, setLeads] = useState<Lead[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchAnalytics = async () => {
+            setIsLoading(true);
+            const [dailyStats, campaignLeads] = await Promise.all([
+                geminiService.getCampaignDailyStats(campaign.id, STATS_DAYS),
+                campaign.allowLeadForm ? geminiService.getLeadsForCampaign(campaign.id, campaign.sponsorId) : Promise.resolve([]),
+            ]);
+            setStats(dailyStats);
+            setLeads(campaignLeads);
+            setIsLoading(false);
+        };
+        fetchAnalytics();
+    }, [campaign.id, campaign.sponsorId, campaign.allowLeadForm]);
+
+    const totals = useMemo(() => stats.reduce((sum, day) => ({
+        impressions: sum.impressions + day.impressions,
+        clicks: sum.clicks + day.clicks,
+        leads: sum.leads + day.leads,
+        messages: sum.messages + day.messages,
+        spend: sum.spend + day.spend,
+    }), { impressions: 0, clicks: 0, leads: 0, messages: 0, spend: 0 }), [stats]);
+
+    if (isLoading) return <p className="text-slate-400">Loading analytics...</p>;
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h4 className="font-bold text-lg text-slate-200 mb-3">Last {STATS_DAYS} Days</h4>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+                    <SummaryTile label="Impressions" value={totals.impressions.toLocaleString()} />
+                    <SummaryTile label="Clicks" value={totals.clicks.toLocaleString()} />
+                    <SummaryTile label="CTR" value={`${ctrOf(totals).toFixed(2)}%`} />
+                    <SummaryTile label="Leads" value={totals.leads.toLocaleString()} />
+                    <SummaryTile label="Cost per Lead" value={totals.leads > 0 ? `৳${(totals.spend / totals.leads).toFixed(2)}` : '—'} />
+                    <SummaryTile label="Messages" value={totals.messages.toLocaleString()} />
+                </div>
+            </div>
+
+            {stats.length > 0 && <DailyChart stats={stats} />}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                {BREAKDOWNS.map(({ dimension, label }) => {
+                    const rows = totalBreakdown(stats, dimension);
+                    return (
+                        <div key={dimension} className="bg-slate-800 p-4 rounded-lg">
+                            <h5 className="font-semibold text-slate-200 mb-2">By {label}</h5>
+                            {rows.length === 0 ? <p className="text-sm text-slate-500">No data yet.</p> : (
+                                <table className="w-full text-sm text-left text-slate-300">
+                                    <thead className="text-xs text-slate-400 uppercase">
+                                        <tr>
+                                            <th className="py-1">{label}</th>
+                                            <th className="py-1 text-right">Views</th>
+                                            <th className="py-1 text-right">CTR</th>
+                                            <th className="py-1 text-right">Leads</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {rows.map(([segment, counts]) => (
+                                            <tr key={segment} className="border-t border-slate-700">
+                                                <td className="py-1 text-slate-100">{segment}</td>
+                                                <td className="py-1 text-right">{counts.impressions.toLocaleString()}</td>
+                                                <td className="py-1 text-right">{ctrOf(counts).toFixed(1)}%</td>
+                                                <td className="py-1 text-right">{counts.leads.toLocaleString()}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {campaign.allowLeadForm && (
+                <div>
+                    <div className="flex justify-between items-center mb-3">
+                        <h4 className="font-bold text-lg text-slate-200">Collected Leads</h4>
+                        <button
+                            onClick={() => downloadLeadsCsv(campaign, leads)}
+                            disabled={leads.length === 0}
+                            className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-600 text-white font-semibold py-2 px-4 rounded-lg text-sm"
+                        >
+                            Download CSV
+                        </button>
+                    </div>
+                    {leads.length === 0 ? <p>No leads collected yet.</p> : (
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm text-left text-slate-300">
+                                <thead className="text-xs text-slate-400 uppercase bg-slate-800">
+                                    <tr>
+                                        <th scope="col" className="px-4 py-2">Date</th>
+                                        <th scope="col" className="px-4 py-2">Name</th>
+                                        <th scope="col" className="px-4 py-2">Email</th>
+                                        <th scope="col" className="px-4 py-2">Phone</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {leads.map(lead => (
+                                        <tr key={lead.id} className="border-b border-slate-700">
+                                            <td className="px-4 py-2">{new Date(lead.createdAt).toLocaleDateString()}</td>
+                                            <td className="px-4 py-2 font-medium text-slate-100">{lead.userName}</td>
+                                            <td className="px-4 py-2">{lead.userEmail}</td>
+                                            <td className="px-4 py-2">{lead.userPhone || 'N/A'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CampaignAnalyticsPanel;
@@ -4,7 +4,10 @@ import { firebaseService } from '../services/firebaseService';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
 import Waveform from './Waveform';
-import { CHAT_THEMES } from '../constants';
+import SendCoinsModal from './SendCoinsModal';
+import { CHAT_THEMES, getTtsPrompt } from '../constants';
+import { useSettings } from '../contexts/SettingsContext';
+import { speechService } from '../services/speechService';
 
 interface ChatWidgetProps {
   currentUser: User;
@@ -77,6 +80,7 @@ const MessageBubble: React.FC<{
     const [isProfileMenuOpen, setProfileMenuOpen] = useState(false);
     const profileMenuRef = useRef<HTMLDivElement>(null);
     const sender = isMe ? currentUser : peerUser;
+    const { language } = useSettings();
     
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -154,6 +158,18 @@ const MessageBubble: React.FC<{
                 </div>
             )}
             <div className={`flex flex-col gap-1 max-w-[80%] group ${isMe ? 'items-end' : 'items-start'}`}>
+                {message.storyReply && !message.isDeleted && (
+                    <div className={`flex items-center gap-2 text-xs text-slate-400 ${isMe ? 'flex-row-reverse' : ''}`}>
+                        {message.storyReply.previewUrl && message.storyReply.storyType === 'image' && <img src={message.storyReply.previewUrl} alt="Story" className="w-10 h-16 object-cover rounded-md" />}
+                        {message.storyReply.previewUrl && message.storyReply.storyType === 'video' && <video src={message.storyReply.previewUrl} muted className="w-10 h-16 object-cover rounded-md" />}
+                        {message.storyReply.previewText && <span className="italic truncate max-w-[8rem]">"{message.storyReply.previewText}"</span>}
+                        <span>
+                            {message.storyReply.reaction
+                                ? (isMe ? `You reacted to ${peerUser.name}'s story` : 'Reacted to your story')
+                                : (isMe ? `You replied to ${peerUser.name}'s story` : 'Replied to your story')}
+                        </span>
+                    </div>
+                )}
                 <div className="relative">
                     <div className={`px-3 py-2 rounded-2xl ${bubbleClass} ${isMe ? 'rounded-br-none' : 'rounded-bl-none'} ${isJumbo ? '!bg-transparent !p-0' : ''}`}>
                         {renderContent()}
@@ -168,6 +184,9 @@ const MessageBubble: React.FC<{
                              <div className="flex bg-slate-800 rounded-full p-0.5 border border-slate-600">
                                 <button onClick={() => setActionMenuOpen(p => !p)} className="p-1.5 rounded-full hover:bg-slate-700"><Icon name="face-smile" className="w-5 h-5 text-slate-300"/></button>
                                 <button onClick={() => onReply(message)} className="p-1.5 rounded-full hover:bg-slate-700"><Icon name="reply" className="w-5 h-5 text-slate-300"/></button>
+                                {message.type === 'text' && message.text && (
+                                    <button onClick={() => speechService.speak(getTtsPrompt('read_message', language, { name: sender.name, text: message.text || '' }), { interrupt: true })} title="Read aloud" className="p-1.5 rounded-full hover:bg-slate-700"><Icon name="speaker-wave" className="w-5 h-5 text-slate-300"/></button>
+                                )}
                             </div>
                             {isActionMenuOpen && (
                                 <div className="absolute bottom-full mb-1 bg-slate-800 rounded-full p-1 flex items-center gap-1 shadow-lg border border-slate-600 z-10">
@@ -206,6 +225,7 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ currentUser, peerUser, onClose,
   const [settings, setSettings] = useState<ChatSettings>({ theme: 'default' });
   const [isThemePickerOpen, setThemePickerOpen] = useState(false);
   const [isEmojiPickerOpen, setEmojiPickerOpen] = useState(false);
+  const [isSendCoinsOpen, setIsSendCoinsOpen] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const mediaInputRef = useRef<HTMLInputElement>(null);
@@ -407,6 +427,9 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ currentUser, peerUser, onClose,
           <button onClick={() => setThemePickerOpen(p => !p)} className="p-2 rounded-full hover:bg-black/20"><Icon name="swatch" className="w-5 h-5"/></button>
           <button onClick={() => handleInitiateCall('audio')} className="p-2 rounded-full hover:bg-black/20"><Icon name="phone" className="w-5 h-5"/></button>
           <button onClick={() => handleInitiateCall('video')} className="p-2 rounded-full hover:bg-black/20"><Icon name="video-camera" className="w-5 h-5"/></button>
+          {currentUser.friendIds?.includes(peerUser.id) && (
+            <button onClick={() => setIsSendCoinsOpen(true)} title="Send Voice Coins" className="p-2 rounded-full hover:bg-black/20"><Icon name="coin" className="w-5 h-5"/></button>
+          )}
           <button onClick={(e) => { e.stopPropagation(); onMinimize(peerUser.id); }} className="p-2 rounded-full hover:bg-black/20 hidden md:inline-block">
              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5 10a1 1 0 011-1h8a1 1 0 110 2H6a1 1 0 01-1-1z" clipRule="evenodd" /></svg>
           </button>
@@ -447,6 +470,15 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ currentUser, peerUser, onClose,
           <button type="submit" className="p-2.5 rounded-full text-fuchsia-400 hover:bg-slate-700/50" disabled={!newMessage.trim() && !audioPreview}><Icon name="paper-airplane" className="w-6 h-6" /></button>
         </form>
       </footer>
+      {isSendCoinsOpen && (
+        <SendCoinsModal
+          currentUser={currentUser}
+          recipient={peerUser}
+          context={{ type: 'chat', referenceId: chatId }}
+          onClose={() => setIsSendCoinsOpen(false)}
+          onSent={(amount) => onSetTtsMessage(`Sent ${amount} Voice Coins to ${peerUser.name}.`)}
+        />
+      )}
     </div>
   );
 };
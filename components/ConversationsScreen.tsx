@@ -4,6 +4,7 @@ import Icon from './Icon';
 import { useSettings } from '../contexts/SettingsContext';
 import { firebaseService } from '../services/firebaseService';
 import { geminiService } from '../services/geminiService';
+import { getTtsPrompt } from '../constants';
 import {
     doc, onSnapshot
 } from 'firebase/firestore';
@@ -220,7 +221,12 @@ const ConversationsScreen: React.FC<{
   currentUser: User;
   onOpenConversation: (peer: User) => void;
   friends: User[];
-}> = ({ currentUser, onOpenConversation, friends }) => {
+  lastCommand: string | null;
+  onCommandProcessed: () => void;
+  onSetTtsMessage: (message: string) => void;
+  onGoBack: () => void;
+}> = ({ currentUser, onOpenConversation, friends, lastCommand, onCommandProcessed, onSetTtsMessage, onGoBack }) => {
+  const { language } = useSettings();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [showArchived, setShowArchived] = useState(false);
@@ -353,6 +359,58 @@ const ConversationsScreen: React.FC<{
     return { visibleConversations: filteredConvos, newChatResults: newChats };
   }, [enrichedConversations, searchQuery, showArchived, archivedIds, pinnedIds, friends, conversations]);
 
+  const handleCommand = useCallback(async (command: string) => {
+    const peers = [...conversations.map(c => c.peer), ...friends];
+    const findPeer = (name: string, candidates: User[]) => {
+        const lowerName = name.toLowerCase();
+        return candidates.find(p => p.name.toLowerCase() === lowerName) || candidates.find(p => p.name.toLowerCase().includes(lowerName));
+    };
+
+    try {
+        const intentResponse = await geminiService.processIntent(command, { userNames: [...new Set(peers.map(p => p.name))] });
+        const targetName = intentResponse.slots?.target_name as string | undefined;
+
+        switch (intentResponse.intent) {
+            case 'intent_open_chat':
+            case 'intent_send_message':
+                if (targetName) {
+                    const peer = findPeer(targetName, peers);
+                    if (peer) {
+                        onOpenConversation(peer);
+                    } else {
+                        onSetTtsMessage(getTtsPrompt('chat_not_found', language, { name: targetName }));
+                    }
+                }
+                break;
+            case 'intent_delete_chat':
+                // Only reaches here after the user confirmed; the undo toast still applies.
+                if (targetName) {
+                    const peer = findPeer(targetName, conversations.map(c => c.peer));
+                    if (peer) {
+                        handleDeleteChat(peer.id);
+                        onSetTtsMessage(getTtsPrompt('chat_deleted', language));
+                    } else {
+                        onSetTtsMessage(getTtsPrompt('chat_not_found', language, { name: targetName }));
+                    }
+                }
+                break;
+            case 'intent_go_back':
+                onGoBack();
+                break;
+        }
+    } catch (error) {
+        console.error("Error processing command in ConversationsScreen:", error);
+    } finally {
+        onCommandProcessed();
+    }
+  }, [conversations, friends, language, onOpenConversation, onSetTtsMessage, onGoBack, onCommandProcessed]);
+
+  useEffect(() => {
+    if (lastCommand) {
+      handleCommand(lastCommand);
+    }
+  }, [lastCommand, handleCommand]);
+
   const getIsNew = (createdAt: string) => new Date().getTime() - new Date(createdAt).getTime() < 5000;
 
   return (
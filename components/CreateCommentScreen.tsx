@@ -146,9 +146,9 @@ const CreateCommentScreen: React.FC<CreateCommentScreenProps> = ({ user, postId,
 
         onCommentPosted(newComment, postId);
 
-    } catch (error) {
+    } catch (error: any) {
         console.error("Failed to post comment:", error);
-        onSetTtsMessage("Sorry, there was an error posting your comment.");
+        onSetTtsMessage(`Failed to post comment: ${error.message}`);
         setIsPosting(false);
     }
   }, [user, postId, onCommentPosted, onSetTtsMessage, mode, text, imageFile, duration, audioUrl]);
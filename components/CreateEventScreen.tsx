@@ -17,6 +17,7 @@ const CreateEventScreen: React.FC<CreateEventScreenProps> = ({ currentUser, grou
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [date, setDate] = useState('');
+  const [endDate, setEndDate] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const { language } = useSettings();
 
@@ -26,8 +27,17 @@ const CreateEventScreen: React.FC<CreateEventScreenProps> = ({ currentUser, grou
       alert("Please fill out all fields.");
       return;
     }
+    if (endDate && new Date(endDate) <= new Date(date)) {
+      alert("The end time must be after the start time.");
+      return;
+    }
     setIsCreating(true);
-    await geminiService.createGroupEvent(currentUser, groupId, title, description, new Date(date).toISOString());
+    const event = await geminiService.createGroupEvent(currentUser, groupId, title, description, new Date(date).toISOString(), endDate ? new Date(endDate).toISOString() : undefined);
+    if (!event) {
+      alert("Could not create the event. Only group admins can create events.");
+      setIsCreating(false);
+      return;
+    }
     onSetTtsMessage(getTtsPrompt('event_created', language));
     onGoBack();
   };
@@ -70,6 +80,17 @@ const CreateEventScreen: React.FC<CreateEventScreenProps> = ({ currentUser, grou
               className="w-full bg-slate-700 border border-slate-600 text-slate-100 rounded-lg p-3 focus:ring-lime-500 focus:border-lime-500"
             />
           </div>
+          <div>
+            <label htmlFor="endDate" className="block mb-2 text-sm font-medium text-slate-300">End Time (optional)</label>
+            <input
+              type="datetime-local"
+              id="endDate"
+              value={endDate}
+              min={date}
+              onChange={e => setEndDate(e.target.value)}
+              className="w-full bg-slate-700 border border-slate-600 text-slate-100 rounded-lg p-3 focus:ring-lime-500 focus:border-lime-500"
+            />
+          </div>
           <div className="flex justify-end gap-3 pt-4">
             <button type="button" onClick={onGoBack} className="px-5 py-2 rounded-lg bg-slate-600 hover:bg-slate-500 text-white font-semibold">Cancel</button>
             <button type="submit" disabled={isCreating} className="px-5 py-2 rounded-lg bg-lime-600 hover:bg-lime-500 text-black font-bold disabled:bg-slate-500">
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { RecordingState, User, Post, PostImageLayout } from '../types';
-import { getTtsPrompt } from '../constants';
+import { getTtsPrompt, IMAGE_GENERATION_COST, IMAGE_GENERATION_MAX_VARIANTS } from '../constants';
 import Icon from './Icon';
 import { geminiService } from '../services/geminiService';
 import { firebaseService } from '../services/firebaseService';
@@ -12,7 +12,7 @@ interface CreatePostScreenProps {
   onPostCreated: (newPost: Post | null) => void;
   onSetTtsMessage: (message: string) => void;
   lastCommand: string | null;
-  onDeductCoinsForImage: () => Promise<boolean>;
+  onDeductCoinsForImage: (imageCount: number) => Promise<boolean>;
   onCommandProcessed: () => void;
   onGoBack: () => void;
   groupId?: string;
@@ -63,6 +63,13 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({ currentUser, onPost
     const audioChunksRef = useRef<Blob[]>([]);
     const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+    const [isImagePanelOpen, setIsImagePanelOpen] = useState(false);
+    const [imagePrompt, setImagePrompt] = useState('');
+    const [variantCount, setVariantCount] = useState(1);
+    const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+    const [selectedImageIndex, setSelectedImageIndex] = useState(0);
+    const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+
     const emojiPickerRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const { language } = useSettings();
@@ -92,6 +99,11 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({ currentUser, onPost
         if (fileInputRef.current) fileInputRef.current.value = "";
     }, [mediaPreviewUrls]);
 
+    const clearGeneratedImages = useCallback(() => {
+        setGeneratedImages([]);
+        setSelectedImageIndex(0);
+    }, []);
+
 
     const startTimer = useCallback(() => {
         stopTimer();
@@ -163,6 +175,7 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({ currentUser, onPost
         const files = e.target.files;
         if (files && files.length > 0) {
             clearAudioRecording();
+            clearGeneratedImages();
             const newFiles = Array.from(files);
             const newUrls = newFiles.map((file: File) => URL.createObjectURL(file));
             mediaPreviewUrls.forEach(URL.revokeObjectURL);
@@ -178,10 +191,46 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({ currentUser, onPost
         setImageCaptions(newCaptions);
     };
 
+    // Coins are only deducted for the variants that actually came back, after they have.
+    const handleGenerateImages = useCallback(async () => {
+        const prompt = imagePrompt.trim();
+        if (!prompt || isGeneratingImage || mediaFiles.length > 0) return;
+
+        const balance = currentUser.voiceCoins || 0;
+        if (balance < IMAGE_GENERATION_COST * variantCount) {
+            onSetTtsMessage(getTtsPrompt('image_generation_insufficient_coins', language, { cost: IMAGE_GENERATION_COST * variantCount, balance }));
+            return;
+        }
+
+        setIsGeneratingImage(true);
+        clearGeneratedImages();
+        onSetTtsMessage(variantCount > 1 ? `Generating ${variantCount} images...` : 'Generating your image...');
+        const images = await geminiService.generateImagesForPost(prompt, variantCount);
+
+        if (images.length === 0) {
+            setIsGeneratingImage(false);
+            onSetTtsMessage("Sorry, I couldn't generate an image for that prompt. You were not charged. Please try another one.");
+            return;
+        }
+
+        const isPaid = await onDeductCoinsForImage(images.length);
+        setIsGeneratingImage(false);
+        if (!isPaid) {
+            onSetTtsMessage(getTtsPrompt('image_generation_insufficient_coins', language, { cost: IMAGE_GENERATION_COST * images.length, balance: currentUser.voiceCoins || 0 }));
+            return;
+        }
+
+        setGeneratedImages(images);
+        onSetTtsMessage(images.length > 1
+            ? `${images.length} images are ready. Pick the one you like, then add a caption or voice note.`
+            : 'Image generated! You can now add a caption or voice note.');
+    }, [imagePrompt, isGeneratingImage, mediaFiles.length, currentUser.voiceCoins, variantCount, onSetTtsMessage, language, clearGeneratedImages, onDeductCoinsForImage]);
+
     const handlePost = useCallback(async () => {
         const hasMedia = mediaFiles.length > 0;
         const hasAudio = recordingState === RecordingState.PREVIEW && audioUrl;
-        const hasContent = caption.trim() || hasMedia || feeling || hasAudio;
+        const generatedImage = generatedImages[selectedImageIndex] || null;
+        const hasContent = caption.trim() || hasMedia || feeling || hasAudio || generatedImage;
 
         if (isPosting || !hasContent) return;
         
@@ -200,13 +249,15 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({ currentUser, onPost
                 duration: hasAudio ? duration : 0,
                 imageLayout: hasMedia ? selectedLayout : undefined,
                 imageCaptions: hasMedia ? imageCaptions : undefined,
+                imagePrompt: generatedImage ? imagePrompt.trim() : undefined,
             };
             
             await firebaseService.createPost(
                 postBaseData, 
                 { 
                     mediaFiles: mediaFiles,
-                    audioBlobUrl: audioUrl
+                    audioBlobUrl: audioUrl,
+                    generatedImageBase64: generatedImage,
                 }
             );
 
@@ -222,7 +273,7 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({ currentUser, onPost
             setIsPosting(false);
             if(hasAudio) setRecordingState(RecordingState.PREVIEW);
         }
-    }, [isPosting, caption, currentUser, onSetTtsMessage, onPostCreated, onGoBack, groupId, groupName, feeling, language, recordingState, audioUrl, duration, mediaFiles, selectedLayout, imageCaptions]);
+    }, [isPosting, caption, currentUser, onSetTtsMessage, onPostCreated, onGoBack, groupId, groupName, feeling, language, recordingState, audioUrl, duration, mediaFiles, selectedLayout, imageCaptions, generatedImages, selectedImageIndex, imagePrompt]);
 
     const handleFeelingSelect = (selected: Feeling) => {
         setFeeling(selected);
@@ -287,6 +338,64 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({ currentUser, onPost
                         </div>
                     )}
 
+                    {isImagePanelOpen && mediaPreviewUrls.length === 0 && (
+                        <div className="space-y-3 pb-4">
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={imagePrompt}
+                                    onChange={e => setImagePrompt(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleGenerateImages(); }}
+                                    placeholder="Describe the image you want to create..."
+                                    disabled={isGeneratingImage}
+                                    className="flex-grow bg-slate-700 border border-slate-600 text-slate-100 rounded-lg p-2.5 text-sm focus:ring-rose-500 focus:border-rose-500 disabled:opacity-40"
+                                />
+                                <button
+                                    onClick={handleGenerateImages}
+                                    disabled={isGeneratingImage || !imagePrompt.trim() || (currentUser.voiceCoins || 0) < IMAGE_GENERATION_COST * variantCount}
+                                    className="bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 text-white font-semibold py-2 px-3 rounded-lg text-sm whitespace-nowrap"
+                                >
+                                    {isGeneratingImage ? 'Generating...' : `Generate (${IMAGE_GENERATION_COST * variantCount} coins)`}
+                                </button>
+                            </div>
+                            <div className="flex items-center gap-2 text-sm text-slate-400">
+                                <span>Variants</span>
+                                {Array.from({ length: IMAGE_GENERATION_MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                                    <button
+                                        key={count}
+                                        onClick={() => setVariantCount(count)}
+                                        disabled={isGeneratingImage}
+                                        className={`w-8 h-8 rounded-md font-semibold transition-colors ${variantCount === count ? 'bg-rose-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                                    >
+                                        {count}
+                                    </button>
+                                ))}
+                                <span className="ml-auto text-xs">Balance: {currentUser.voiceCoins || 0}</span>
+                            </div>
+                            <p className="text-xs text-slate-500">{IMAGE_GENERATION_COST} coins per image, charged only for images that are created.</p>
+                            {isGeneratingImage && (
+                                <div className="aspect-square bg-slate-700/50 rounded-lg flex items-center justify-center flex-col gap-3 text-slate-300">
+                                    <Icon name="logo" className="w-12 h-12 text-rose-500 animate-spin"/>
+                                    <p>Generating your masterpiece...</p>
+                                </div>
+                            )}
+                            {generatedImages.length > 0 && !isGeneratingImage && (
+                                <div className="relative">
+                                    <div className={`grid gap-2 ${generatedImages.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                                        {generatedImages.map((imageUrl, index) => (
+                                            <button key={index} onClick={() => setSelectedImageIndex(index)} className={`rounded-lg overflow-hidden ring-4 transition-all ${selectedImageIndex === index ? 'ring-rose-500' : 'ring-transparent opacity-60 hover:opacity-100'}`}>
+                                                <img src={imageUrl} alt={`${imagePrompt} (${index + 1})`} className="aspect-square w-full object-cover" />
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <button onClick={clearGeneratedImages} className="absolute top-2 right-2 p-2 bg-black/50 hover:bg-black/80 rounded-full text-white text-xs">
+                                        Clear
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {recordingState !== RecordingState.IDLE && (
                          <div className="w-full flex flex-col items-center justify-center p-4 min-h-[150px] bg-slate-700/40 rounded-lg">
                             {recordingState === RecordingState.RECORDING && (
@@ -336,9 +445,10 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({ currentUser, onPost
                      <button onClick={handleStartRecording} className="flex items-center gap-2 text-rose-400 font-semibold p-2 rounded-md hover:bg-slate-700/50"><Icon name="mic" className="w-6 h-6"/> Voice</button>
                      <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 text-green-400 font-semibold p-2 rounded-md hover:bg-slate-700/50"><Icon name="photo" className="w-6 h-6"/> Photo/Video</button>
                      <button onClick={() => setSubView('feelings')} className="flex items-center gap-2 text-yellow-400 font-semibold p-2 rounded-md hover:bg-slate-700/50"><Icon name="face-smile" className="w-6 h-6"/> Feeling</button>
+                     <button onClick={() => setIsImagePanelOpen(p => !p)} disabled={mediaFiles.length > 0} className={`flex items-center gap-2 text-sky-400 font-semibold p-2 rounded-md hover:bg-slate-700/50 disabled:opacity-40 ${isImagePanelOpen ? 'bg-slate-700/50' : ''}`}><Icon name="coin" className="w-6 h-6"/> AI Image</button>
                 </div>
 
-                <button onClick={handlePost} disabled={isPosting || (!caption.trim() && mediaFiles.length === 0 && !feeling && recordingState !== RecordingState.PREVIEW)} className="w-full bg-rose-600 hover:bg-rose-500 disabled:bg-slate-600 text-white font-bold py-3 rounded-lg text-lg">
+                <button onClick={handlePost} disabled={isPosting || isGeneratingImage || (!caption.trim() && mediaFiles.length === 0 && !feeling && recordingState !== RecordingState.PREVIEW && generatedImages.length === 0)} className="w-full bg-rose-600 hover:bg-rose-500 disabled:bg-slate-600 text-white font-bold py-3 rounded-lg text-lg">
                     {isPosting ? 'Posting...' : 'Post'}
                 </button>
             </footer>
@@ -38,13 +38,14 @@ interface FeedScreenProps {
   onHidePost: (postId: string) => void;
   onSavePost: (post: Post, isSaving: boolean) => void;
   onCopyLink: (post: Post) => void;
+  onOpenConversation: (peer: User) => void;
 }
 
 const FeedScreen: React.FC<FeedScreenProps> = ({
     isLoading, posts: initialPosts, currentUser, onSetTtsMessage, lastCommand, onOpenProfile,
     onOpenComments, onReactToPost, onStartCreatePost, onRewardedAdClick, onAdViewed,
     onAdClick, onCommandProcessed, scrollState, onSetScrollState, onNavigate, friends, setSearchResults,
-    onSharePost, onOpenPhotoViewer, onDeletePost, onReportPost, hiddenPostIds, onHidePost, onSavePost, onCopyLink
+    onSharePost, onOpenPhotoViewer, onDeletePost, onReportPost, hiddenPostIds, onHidePost, onSavePost, onCopyLink, onOpenConversation
 }) => {
   const [posts, setPosts] = useState<Post[]>(initialPosts);
   const [adInjected, setAdInjected] = useState(false);
@@ -61,6 +62,8 @@ const FeedScreen: React.FC<FeedScreenProps> = ({
   const isProgrammaticScroll = useRef(false);
   const currentPostIndexRef = useRef(currentPostIndex);
   currentPostIndexRef.current = currentPostIndex;
+  // Injected ads already counted as an impression. Each injection is a new post object.
+  const viewedAdPostsRef = useRef<WeakSet<Post>>(new WeakSet());
 
   const visiblePosts = useMemo(() => {
     return posts.filter(p => p && !hiddenPostIds.has(p.id));
@@ -226,6 +229,14 @@ const FeedScreen: React.FC<FeedScreenProps> = ({
                 onSetTtsMessage(`Comment text added. Say 'post comment' to publish.`);
             }
             break;
+          case 'intent_read_post':
+            if (activePost) {
+                const authorName = activePost.isSponsored ? activePost.sponsorName : activePost.author.name;
+                onSetTtsMessage(activePost.caption
+                    ? getTtsPrompt('read_post', language, { name: authorName, caption: activePost.caption })
+                    : getTtsPrompt('read_post_empty', language));
+            }
+            break;
           case 'intent_open_post_viewer':
             if (activePost) {
                 onOpenPhotoViewer(activePost);
@@ -311,6 +322,18 @@ const FeedScreen: React.FC<FeedScreenProps> = ({
                 onNavigate(AppView.SEARCH_RESULTS, { query });
             }
             break;
+          case 'intent_open_chat':
+          case 'intent_send_message':
+            if (slots?.target_name) {
+                const targetName = (slots.target_name as string).toLowerCase();
+                const friend = friends.find(f => f.name.toLowerCase() === targetName) || friends.find(f => f.name.toLowerCase().includes(targetName));
+                if (friend) {
+                    onOpenConversation(friend);
+                } else {
+                    onSetTtsMessage(getTtsPrompt('chat_not_found', language, { name: slots.target_name as string }));
+                }
+            }
+            break;
           case 'intent_scroll_down':
               onSetScrollState(ScrollState.DOWN);
               break;
@@ -337,7 +360,7 @@ const FeedScreen: React.FC<FeedScreenProps> = ({
   }, [
       visiblePosts, currentPostIndex, friends, onOpenProfile, onReactToPost, onOpenComments, onSetTtsMessage, onStartCreatePost, 
       onNavigate, onSetScrollState, setSearchResults, onCommandProcessed, fetchRewardedCampaign, onSharePost, language, currentUser,
-      onSavePost, onHidePost, onCopyLink, onReportPost, onOpenPhotoViewer
+      onSavePost, onHidePost, onCopyLink, onReportPost, onOpenPhotoViewer, onOpenConversation
   ]);
 
 
@@ -365,7 +388,8 @@ const FeedScreen: React.FC<FeedScreenProps> = ({
     if (isInitialLoad.current || visiblePosts.length === 0 || currentPostIndex < 0) return;
     
     const activePost = visiblePosts[currentPostIndex];
-    if (activePost?.isSponsored && activePost.campaignId) {
+    if (activePost?.isSponsored && activePost.campaignId && !viewedAdPostsRef.current.has(activePost)) {
+        viewedAdPostsRef.current.add(activePost);
         onAdViewed(activePost.campaignId);
     }
   }, [currentPostIndex, visiblePosts, onAdViewed]);
@@ -116,8 +116,9 @@ const FriendsScreen: React.FC<FriendsScreenProps> = ({ currentUser, requests, fr
      }
   }, [currentUser.id, onSetTtsMessage, language]);
 
-  const handleUnfriend = useCallback(async (userToUnfriend: User) => {
-    if (window.confirm(`Are you sure you want to remove ${userToUnfriend.name} from your friends?`)) {
+  // A voice command has already been confirmed out loud, so it skips the dialog.
+  const handleUnfriend = useCallback(async (userToUnfriend: User, confirmed = false) => {
+    if (confirmed || window.confirm(`Are you sure you want to remove ${userToUnfriend.name} from your friends?`)) {
         const success = await geminiService.unfriendUser(currentUser.id, userToUnfriend.id);
         if (success) {
             onSetTtsMessage(getTtsPrompt('friend_removed', language, { name: userToUnfriend.name }));
@@ -168,7 +169,7 @@ const FriendsScreen: React.FC<FriendsScreenProps> = ({ currentUser, requests, fr
                     onOpenProfile(targetUser.username);
                     return;
                 } else if (intent === 'intent_unfriend_user' && activeTab === 'all_friends') {
-                    handleUnfriend(targetUser);
+                    handleUnfriend(targetUser, intentResponse.confirmed);
                     return;
                 } else if (intent === 'intent_cancel_friend_request' && activeTab === 'suggestions') {
                     handleCancelRequest(targetUser);
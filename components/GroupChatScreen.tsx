@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GroupChat, Group, User, GroupChatMessage, ReplyInfo, Author } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Group, User, GroupChatMessage, Author } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
 import TaggedContent from './TaggedContent';
@@ -19,8 +19,9 @@ const MessageBubble: React.FC<{
     isMe: boolean;
     onReply: (message: GroupChatMessage) => void;
     onReact: (messageId: string, emoji: string) => void;
+    onUnsend: (messageId: string) => void;
     onOpenProfile: (username: string) => void;
-}> = ({ message, isMe, onReply, onReact, onOpenProfile }) => {
+}> = ({ message, isMe, onReply, onReact, onUnsend, onOpenProfile }) => {
     const [isMenuOpen, setMenuOpen] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
     
@@ -37,6 +38,7 @@ const MessageBubble: React.FC<{
     const renderContent = () => {
         if (message.isDeleted) return <p className="italic text-sm text-slate-500">Message deleted</p>;
         if (message.mediaType === 'image' && message.mediaUrl) return <img src={message.mediaUrl} alt="Sent" className="max-w-xs max-h-48 rounded-lg cursor-pointer" />;
+        if (message.mediaType === 'video' && message.mediaUrl) return <video src={message.mediaUrl} controls className="max-w-xs max-h-48 rounded-lg" />;
         if (message.audioUrl) return <audio src={message.audioUrl} controls className="w-48 h-10" />;
         return <p className="text-slate-200"><TaggedContent text={message.text || ''} onTagClick={onOpenProfile} /></p>;
     };
@@ -66,6 +68,7 @@ const MessageBubble: React.FC<{
                             {reactionSummary.slice(0, 3).map(({ emoji }) => <span key={emoji}>{emoji}</span>)}
                         </div>
                     )}
+                    {!message.isDeleted && (
                     <div ref={menuRef} className={`absolute top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity ${isMe ? 'left-0 -translate-x-full' : 'right-0 translate-x-full'}`}>
                          <div className="flex bg-slate-800 rounded-full p-0.5 border border-slate-600">
                             <button onClick={() => setMenuOpen(p => !p)} className="p-1.5 rounded-full hover:bg-slate-700"><Icon name="face-smile" className="w-5 h-5 text-slate-300"/></button>
@@ -76,14 +79,18 @@ const MessageBubble: React.FC<{
                                 {EMOJI_REACTIONS.map(emoji => (
                                     <button key={emoji} onClick={() => { onReact(message.id, emoji); setMenuOpen(false); }} className="text-2xl p-1 rounded-full hover:bg-slate-700 transition-transform hover:scale-125">{emoji}</button>
                                 ))}
+                                {isMe && <button onClick={() => { onUnsend(message.id); setMenuOpen(false); }} className="p-2 rounded-full hover:bg-slate-700"><Icon name="trash" className="w-4 h-4 text-red-400"/></button>}
                             </div>
                         )}
                     </div>
+                    )}
                 </div>
             </div>
         </div>
     );
 };
+enum RecordingState { IDLE, RECORDING, PREVIEW }
+
 // FIX: Changed to a named export to resolve module import error in UserApp.tsx.
 export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
   currentUser,
@@ -92,44 +99,147 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
   onOpenProfile,
 }) => {
   const [group, setGroup] = useState<Group | null>(null);
-  const [chat, setChat] = useState<GroupChat | null>(null);
+  const [liveMessages, setLiveMessages] = useState<GroupChatMessage[]>([]);
+  const [olderMessages, setOlderMessages] = useState<GroupChatMessage[]>([]);
+  const [hasMoreHistory, setHasMoreHistory] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const [newMessage, setNewMessage] = useState('');
   const [replyingTo, setReplyingTo] = useState<GroupChatMessage | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [recordingState, setRecordingState] = useState<RecordingState>(RecordingState.IDLE);
+  const [audioPreview, setAudioPreview] = useState<{ url: string, blob: Blob, duration: number } | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioChunksRef = useRef<Blob[]>([]);
+  const recordingStartRef = useRef<number>(0);
+  const skipAutoScrollRef = useRef(false);
 
   useEffect(() => {
     const unsubGroup = geminiService.listenToGroup(groupId, setGroup);
     const unsubChat = geminiService.listenToGroupChat(groupId, (chatData) => {
-        setChat(chatData);
+        setLiveMessages(chatData?.messages || []);
         setIsLoading(false);
     });
     return () => { unsubGroup(); unsubChat(); };
   }, [groupId]);
 
+  // Live updates always win over the copy of a message we fetched while paging back.
+  const messages = useMemo(() => {
+    const byId = new Map<string, GroupChatMessage>();
+    olderMessages.forEach(m => byId.set(m.id, m));
+    liveMessages.forEach(m => byId.set(m.id, m));
+    return Array.from(byId.values()).sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }, [olderMessages, liveMessages]);
+
   useEffect(() => {
+    if (skipAutoScrollRef.current) {
+        skipAutoScrollRef.current = false;
+        return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chat?.messages]);
+  }, [liveMessages]);
+
+  const handleLoadOlder = async () => {
+    if (isLoadingOlder || messages.length === 0) return;
+    setIsLoadingOlder(true);
+    const container = scrollContainerRef.current;
+    const previousHeight = container?.scrollHeight || 0;
+    try {
+        const older = await geminiService.getOlderGroupChatMessages(groupId, messages[0].id);
+        if (older.length === 0) {
+            setHasMoreHistory(false);
+        } else {
+            skipAutoScrollRef.current = true;
+            setOlderMessages(prev => [...older, ...prev]);
+            // Keep the reader anchored on the message they were looking at.
+            requestAnimationFrame(() => {
+                if (container) container.scrollTop += container.scrollHeight - previousHeight;
+            });
+        }
+    } catch (error) {
+        console.error("Failed to load older group messages:", error);
+    } finally {
+        setIsLoadingOlder(false);
+    }
+  };
+
+  const sendContent = async (content: { text?: string; mediaFile?: File; audioBlob?: Blob; duration?: number }) => {
+    if (!group || isSending) return;
+    setIsSending(true);
+    const replyTo = replyingTo ? geminiService.createGroupChatReplySnippet(replyingTo) : undefined;
+    const success = await geminiService.sendGroupChatMessage(groupId, currentUser as Author, { ...content, replyTo });
+    setIsSending(false);
+    if (success) {
+        setNewMessage('');
+        setReplyingTo(null);
+        handleCancelRecording();
+    }
+  };
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !group) return;
-    
-    await geminiService.sendGroupChatMessage(groupId, currentUser as Author, newMessage);
-    
-    setNewMessage('');
-    setReplyingTo(null);
+    if (audioPreview) {
+        await sendContent({ audioBlob: audioPreview.blob, duration: audioPreview.duration });
+    } else if (newMessage.trim()) {
+        await sendContent({ text: newMessage });
+    }
   };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    await sendContent({ mediaFile: file });
+    e.target.value = '';
+  };
+
+  const handleStartRecording = async () => {
+    if (recordingState !== RecordingState.IDLE) return;
+    try {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        mediaRecorderRef.current = new MediaRecorder(stream);
+        audioChunksRef.current = [];
+        mediaRecorderRef.current.ondataavailable = (event) => audioChunksRef.current.push(event.data);
+        mediaRecorderRef.current.onstop = () => {
+            const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+            const duration = Math.round((Date.now() - recordingStartRef.current) / 1000);
+            setAudioPreview({ url: URL.createObjectURL(audioBlob), blob: audioBlob, duration });
+            setRecordingState(RecordingState.PREVIEW);
+            stream.getTracks().forEach(track => track.stop());
+        };
+        mediaRecorderRef.current.start();
+        recordingStartRef.current = Date.now();
+        setRecordingState(RecordingState.RECORDING);
+    } catch (err) { console.error("Mic permission error:", err); }
+  };
+
+  const handleStopRecording = () => mediaRecorderRef.current?.stop();
+
+  function handleCancelRecording() {
+    if (audioPreview) URL.revokeObjectURL(audioPreview.url);
+    setAudioPreview(null);
+    setRecordingState(RecordingState.IDLE);
+  }
   
   const handleReact = (messageId: string, emoji: string) => {
     geminiService.reactToGroupChatMessage(groupId, messageId, currentUser.id, emoji);
   };
 
+  const handleUnsend = (messageId: string) => {
+    if (window.confirm("Are you sure you want to unsend this message?")) {
+        geminiService.unsendGroupChatMessage(groupId, messageId, currentUser.id);
+    }
+  };
+
   if (isLoading || !group) {
     return <div className="h-full flex items-center justify-center bg-slate-900"><p className="text-slate-300">Loading chat...</p></div>;
   }
 
+  const isMember = group.memberIds?.includes(currentUser.id);
+
   return (
     <div className="h-full flex flex-col bg-slate-900">
       <header className="flex-shrink-0 flex items-center p-3 border-b border-slate-700 bg-slate-800">
@@ -142,14 +252,22 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
         </div>
       </header>
 
-      <main className="flex-grow overflow-y-auto p-4 space-y-4">
-        {chat?.messages.map(msg => (
+      <main ref={scrollContainerRef} className="flex-grow overflow-y-auto p-4 space-y-4">
+        {hasMoreHistory && messages.length > 0 && (
+            <div className="flex justify-center">
+                <button onClick={handleLoadOlder} disabled={isLoadingOlder} className="text-sm text-lime-400 hover:underline disabled:text-slate-500">
+                    {isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+                </button>
+            </div>
+        )}
+        {messages.map(msg => (
           <MessageBubble
             key={msg.id}
             message={msg}
             isMe={msg.sender.id === currentUser.id}
-            onReply={() => {}}
+            onReply={setReplyingTo}
             onReact={handleReact}
+            onUnsend={handleUnsend}
             onOpenProfile={onOpenProfile}
           />
         ))}
@@ -157,18 +275,47 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({
       </main>
 
       <footer className="p-2 border-t border-slate-700 bg-slate-800">
+        {!isMember ? (
+            <p className="text-center text-sm text-slate-400 py-2">Join this group to take part in the chat.</p>
+        ) : (
+        <>
+        {replyingTo && (
+            <div className="text-xs text-slate-400 px-3 py-2 mb-2 flex justify-between items-center bg-slate-700/50 rounded-md">
+                <span>Replying to {replyingTo.sender.id === currentUser.id ? 'yourself' : replyingTo.sender.name}</span>
+                <button onClick={() => setReplyingTo(null)}><Icon name="close" className="w-4 h-4" /></button>
+            </div>
+        )}
         <form onSubmit={handleSendMessage} className="flex items-center gap-2">
-          <input
-            type="text"
-            value={newMessage}
-            onChange={e => setNewMessage(e.target.value)}
-            placeholder="Send a message..."
-            className="flex-grow bg-slate-700 border border-slate-600 rounded-full py-2 px-4 text-white focus:outline-none focus:ring-1 focus:ring-lime-500"
-          />
-          <button type="submit" className="p-2.5 bg-lime-600 rounded-full text-black hover:bg-lime-500 disabled:bg-slate-500" disabled={!newMessage.trim()}>
+          <input type="file" ref={mediaInputRef} onChange={handleFileChange} accept="image/*,video/*" className="hidden"/>
+          <button type="button" onClick={() => mediaInputRef.current?.click()} className="p-2 rounded-full text-lime-400 hover:bg-slate-700" disabled={isSending}><Icon name="add-circle" className="w-6 h-6"/></button>
+          {newMessage.trim() === '' && recordingState === RecordingState.IDLE && (
+              <button type="button" onClick={handleStartRecording} className="p-2 rounded-full text-lime-400 hover:bg-slate-700"><Icon name="mic" className="w-6 h-6"/></button>
+          )}
+          {recordingState === RecordingState.RECORDING ? (
+              <div className="flex-grow bg-slate-700 rounded-full h-10 flex items-center px-4 justify-between">
+                  <div className="w-1/2 h-full"><Waveform isPlaying={true} isRecording /></div>
+                  <button type="button" onClick={handleStopRecording} className="bg-rose-500 rounded-full p-2"><Icon name="pause" className="w-4 h-4 text-white"/></button>
+              </div>
+          ) : audioPreview ? (
+              <div className="flex-grow bg-slate-700 rounded-full h-10 flex items-center px-4 justify-between">
+                  <p className="text-sm text-slate-300">Voice message ({audioPreview.duration}s)</p>
+                  <button type="button" onClick={handleCancelRecording} className="p-1"><Icon name="close" className="w-4 h-4 text-slate-400"/></button>
+              </div>
+          ) : (
+              <input
+                type="text"
+                value={newMessage}
+                onChange={e => setNewMessage(e.target.value)}
+                placeholder="Send a message..."
+                className="flex-grow bg-slate-700 border border-slate-600 rounded-full py-2 px-4 text-white focus:outline-none focus:ring-1 focus:ring-lime-500"
+              />
+          )}
+          <button type="submit" className="p-2.5 bg-lime-600 rounded-full text-black hover:bg-lime-500 disabled:bg-slate-500" disabled={isSending || (!newMessage.trim() && !audioPreview)}>
             <Icon name="paper-airplane" className="w-5 h-5"/>
           </button>
         </form>
+        </>
+        )}
       </footer>
     </div>
   );
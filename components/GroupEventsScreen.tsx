@@ -1,8 +1,8 @@
-
 import React, { useState, useEffect } from 'react';
-import { Event, Group, User, AppView } from '../types';
+import { Event, EventRsvpStatus, Group, User, AppView } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
+import { EVENT_DEFAULT_DURATION_HOURS } from '../constants';
 
 interface GroupEventsScreenProps {
   currentUser: User;
@@ -11,16 +11,78 @@ interface GroupEventsScreenProps {
   onNavigate: (view: AppView, props?: any) => void;
 }
 
-const EventCard: React.FC<{ event: Event; currentUser: User; onRsvp: (eventId: string) => void }> = ({ event, currentUser, onRsvp }) => {
-  const isAttending = event.attendees.some(a => a.id === currentUser.id);
+const RSVP_OPTIONS: { status: EventRsvpStatus; label: string }[] = [
+  { status: 'going', label: 'Going' },
+  { status: 'interested', label: 'Interested' },
+  { status: 'not_going', label: 'Not going' },
+];
+
+// --- iCalendar export ---
+const toIcsDate = (iso: string): string => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+const buildEventIcs = (event: Event, groupName: string): string => {
+  const endIso = event.endDate || new Date(new Date(event.date).getTime() + EVENT_DEFAULT_DURATION_HOURS * 60 * 60 * 1000).toISOString();
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//VoiceBook//Group Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.id}@voicebook`,
+    `DTSTAMP:${toIcsDate(new Date().toISOString())}`,
+    `DTSTART:${toIcsDate(event.date)}`,
+    `DTEND:${toIcsDate(endIso)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    `DESCRIPTION:${escapeIcsText(event.description)}`,
+    `ORGANIZER;CN=${escapeIcsText(event.creator.name)}:noreply@voicebook`,
+    `LOCATION:${escapeIcsText(groupName)}`,
+    'BEGIN:VALARM',
+    'TRIGGER:-PT1H',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeIcsText(event.title)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+};
+
+const downloadEventIcs = (event: Event, groupName: string) => {
+  const blob = new Blob([buildEventIcs(event, groupName)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${event.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'event'}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const EventCard: React.FC<{
+  event: Event;
+  groupName: string;
+  currentUser: User;
+  onRsvp: (eventId: string, status: EventRsvpStatus) => void;
+}> = ({ event, groupName, currentUser, onRsvp }) => {
+  const [showAttendees, setShowAttendees] = useState(false);
+  const myStatus = event.attendees.find(a => a.id === currentUser.id)?.status;
+  const going = event.attendees.filter(a => a.status === 'going');
+  const interested = event.attendees.filter(a => a.status === 'interested');
   const eventDate = new Date(event.date);
+  const isPast = eventDate.getTime() < Date.now();
 
   return (
-    <div className="bg-slate-800 rounded-lg overflow-hidden border border-slate-700">
+    <div className={`bg-slate-800 rounded-lg overflow-hidden border border-slate-700 ${isPast ? 'opacity-60' : ''}`}>
       <div className="p-5">
         <div className="flex justify-between items-start">
             <div>
-                <p className="text-sm font-bold text-lime-400">{eventDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+                <p className="text-sm font-bold text-lime-400">
+                  {eventDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })} · {eventDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                </p>
                 <h3 className="text-2xl font-bold text-slate-100 mt-1">{event.title}</h3>
                 <p className="text-slate-400 mt-2">{event.description}</p>
             </div>
@@ -30,20 +92,53 @@ const EventCard: React.FC<{ event: Event; currentUser: User; onRsvp: (eventId: s
             </div>
         </div>
       </div>
-      <div className="bg-slate-800/50 p-3 flex justify-between items-center">
-        <div className="flex items-center -space-x-2">
-            {event.attendees.slice(0, 5).map(a => <img key={a.id} src={a.avatarUrl} title={a.name} className="w-8 h-8 rounded-full border-2 border-slate-800"/>)}
-            {event.attendees.length > 5 && <div className="w-8 h-8 rounded-full bg-slate-600 flex items-center justify-center text-xs font-bold text-slate-200 border-2 border-slate-800">+{event.attendees.length - 5}</div>}
-            <span className="pl-4 text-slate-400 text-sm">{event.attendees.length} attending</span>
-        </div>
-        <button
-          onClick={() => onRsvp(event.id)}
-          disabled={isAttending}
-          className="bg-lime-600 hover:bg-lime-500 disabled:bg-slate-600 text-black font-bold py-2 px-5 rounded-lg transition-colors"
-        >
-          {isAttending ? 'Attending' : 'RSVP'}
+      <div className="bg-slate-800/50 p-3 flex flex-wrap gap-3 justify-between items-center">
+        <button onClick={() => setShowAttendees(s => !s)} className="flex items-center -space-x-2">
+            {going.slice(0, 5).map(a => <img key={a.id} src={a.avatarUrl} title={a.name} className="w-8 h-8 rounded-full border-2 border-slate-800"/>)}
+            {going.length > 5 && <div className="w-8 h-8 rounded-full bg-slate-600 flex items-center justify-center text-xs font-bold text-slate-200 border-2 border-slate-800">+{going.length - 5}</div>}
+            <span className="pl-4 text-slate-400 text-sm">{going.length} going · {interested.length} interested</span>
         </button>
+        <div className="flex items-center gap-2">
+          {!isPast && RSVP_OPTIONS.map(option => (
+            <button
+              key={option.status}
+              onClick={() => onRsvp(event.id, option.status)}
+              disabled={myStatus === option.status}
+              className={`font-semibold py-2 px-3 rounded-lg text-sm transition-colors ${myStatus === option.status ? 'bg-lime-600 text-black' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <button
+            onClick={() => downloadEventIcs(event, groupName)}
+            title="Add to calendar"
+            className="p-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200"
+          >
+            <Icon name="calendar" className="w-5 h-5" />
+          </button>
+        </div>
       </div>
+      {showAttendees && (
+        <div className="border-t border-slate-700 p-3 space-y-3">
+          {[{ label: 'Going', list: going }, { label: 'Interested', list: interested }].map(section => (
+            <div key={section.label}>
+              <p className="text-xs font-semibold uppercase text-slate-400 mb-2">{section.label} ({section.list.length})</p>
+              {section.list.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {section.list.map(a => (
+                    <div key={a.id} className="flex items-center gap-2 bg-slate-700/50 rounded-full pr-3">
+                      <img src={a.avatarUrl} alt={a.name} className="w-7 h-7 rounded-full" />
+                      <span className="text-sm text-slate-200">{a.name}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-slate-500">No one yet.</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -65,13 +160,14 @@ const GroupEventsScreen: React.FC<GroupEventsScreenProps> = ({ currentUser, grou
     };
     fetchData();
   }, [groupId]);
-  
-  const handleRsvp = async (eventId: string) => {
-    const success = await geminiService.rsvpToEvent(currentUser.id, eventId);
+
+  const handleRsvp = async (eventId: string, status: EventRsvpStatus) => {
+    const success = await geminiService.rsvpToEvent(currentUser, eventId, status);
     if(success) {
       // Optimistic update
-      setEvents(prevEvents => prevEvents.map(e => 
-        e.id === eventId ? { ...e, attendees: [...e.attendees, currentUser] } : e
+      const myRsvp = { id: currentUser.id, name: currentUser.name, username: currentUser.username, avatarUrl: currentUser.avatarUrl, status, respondedAt: new Date().toISOString() };
+      setEvents(prevEvents => prevEvents.map(e =>
+        e.id === eventId ? { ...e, attendees: [...e.attendees.filter(a => a.id !== currentUser.id), myRsvp] } : e
       ));
     }
   };
@@ -81,6 +177,9 @@ const GroupEventsScreen: React.FC<GroupEventsScreenProps> = ({ currentUser, grou
   }
 
   const isAdmin = group.admins.some(a => a.id === currentUser.id);
+  const now = Date.now();
+  const upcomingEvents = events.filter(e => new Date(e.date).getTime() >= now);
+  const pastEvents = events.filter(e => new Date(e.date).getTime() < now).reverse();
 
   return (
     <div className="h-full flex flex-col bg-slate-900">
@@ -102,17 +201,25 @@ const GroupEventsScreen: React.FC<GroupEventsScreenProps> = ({ currentUser, grou
 
       <main className="flex-grow overflow-y-auto p-4 sm:p-8">
         <div className="max-w-3xl mx-auto">
-            {events.length > 0 ? (
+            {upcomingEvents.length > 0 ? (
                 <div className="space-y-6">
-                    {events.map(event => <EventCard key={event.id} event={event} currentUser={currentUser} onRsvp={handleRsvp} />)}
+                    {upcomingEvents.map(event => <EventCard key={event.id} event={event} groupName={group.name} currentUser={currentUser} onRsvp={handleRsvp} />)}
                 </div>
             ) : (
                 <div className="text-center py-20 bg-slate-800/50 rounded-lg">
-                    <Icon name="bell" className="w-20 h-20 mx-auto text-slate-600 mb-4" />
+                    <Icon name="calendar" className="w-20 h-20 mx-auto text-slate-600 mb-4" />
                     <h2 className="text-2xl font-bold text-slate-300">No Upcoming Events</h2>
                     <p className="text-slate-400 mt-2">{isAdmin ? "Create an event to bring the group together." : "Check back later for new events."}</p>
                 </div>
             )}
+            {pastEvents.length > 0 && (
+                <div className="mt-10">
+                    <h3 className="text-lg font-bold text-slate-400 mb-4">Past Events</h3>
+                    <div className="space-y-6">
+                        {pastEvents.map(event => <EventCard key={event.id} event={event} groupName={group.name} currentUser={currentUser} onRsvp={handleRsvp} />)}
+                    </div>
+                </div>
+            )}
         </div>
       </main>
     </div>
@@ -1,10 +1,76 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import Icon from './Icon';
+import { User, VoiceCommandHistoryEntry } from '../types';
+import { geminiService } from '../services/geminiService';
 
 interface HelpScreenProps {
+  currentUser: User;
   onGoBack: () => void;
 }
 
+const HISTORY_LENGTH = 20;
+
+const describeIntent = (entry: VoiceCommandHistoryEntry): string => {
+    const name = entry.intent.replace(/^intent_/, '').replace(/_/g, ' ');
+    const slotValues = Object.values(entry.slots || {});
+    return slotValues.length > 0 ? `${name} (${slotValues.join(', ')})` : name;
+};
+
+const CommandHistoryItem: React.FC<{ entry: VoiceCommandHistoryEntry; onMisrecognized: (entry: VoiceCommandHistoryEntry, expectedMeaning: string) => Promise<void> }> = ({ entry, onMisrecognized }) => {
+    const [isCorrecting, setIsCorrecting] = useState(false);
+    const [expectedMeaning, setExpectedMeaning] = useState('');
+    const [isSending, setIsSending] = useState(false);
+
+    const handleSend = async () => {
+        setIsSending(true);
+        await onMisrecognized(entry, expectedMeaning.trim());
+        setIsSending(false);
+        setIsCorrecting(false);
+    };
+
+    const status = entry.misrecognized
+        ? { label: `Marked as not what you meant${entry.expectedMeaning ? `: "${entry.expectedMeaning}"` : ''}`, className: 'text-amber-400' }
+        : entry.success
+        ? { label: `Understood as: ${describeIntent(entry)}`, className: 'text-emerald-400' }
+        : { label: 'Not understood', className: 'text-rose-400' };
+
+    return (
+        <div className="bg-slate-800/60 p-4 rounded-lg">
+            <div className="flex justify-between items-start gap-4">
+                <div className="min-w-0">
+                    <p className="font-mono text-lg text-white break-words">" {entry.correctedTranscript} "</p>
+                    {entry.rawTranscript !== entry.correctedTranscript && (
+                        <p className="text-slate-500 text-sm break-words">Heard: {entry.rawTranscript}</p>
+                    )}
+                    <p className={`mt-1 text-sm ${status.className}`}>{status.label}</p>
+                </div>
+                <span className="text-xs text-slate-500 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</span>
+            </div>
+            {/* Failed commands are already counted as misses, so only understood ones can be flagged. */}
+            {entry.success && !entry.misrecognized && !isCorrecting && (
+                <button onClick={() => setIsCorrecting(true)} className="mt-2 text-sm font-semibold text-fuchsia-400 hover:text-fuchsia-300">
+                    That's not what I meant
+                </button>
+            )}
+            {isCorrecting && (
+                <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                    <input
+                        type="text"
+                        value={expectedMeaning}
+                        onChange={e => setExpectedMeaning(e.target.value)}
+                        placeholder="What did you mean? (optional)"
+                        className="flex-grow bg-slate-700 border border-slate-600 text-slate-100 text-sm rounded-lg focus:ring-fuchsia-500 focus:border-fuchsia-500 p-2"
+                    />
+                    <div className="flex gap-2">
+                        <button onClick={() => setIsCorrecting(false)} className="px-3 py-2 rounded-lg bg-slate-600 hover:bg-slate-500 text-white text-sm font-semibold">Cancel</button>
+                        <button onClick={handleSend} disabled={isSending} className="px-3 py-2 rounded-lg bg-fuchsia-600 hover:bg-fuchsia-500 text-white text-sm font-semibold disabled:opacity-50">Send</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
 const CommandCategory: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
     <div className="mb-8">
         <h2 className="text-2xl font-bold text-fuchsia-300 mb-4 border-b-2 border-fuchsia-500/30 pb-2">{title}</h2>
@@ -19,7 +85,24 @@ const CommandItem: React.FC<{ command: string, description: string }> = ({ comma
     </div>
 );
 
-const HelpScreen: React.FC<HelpScreenProps> = ({ onGoBack }) => {
+const HelpScreen: React.FC<HelpScreenProps> = ({ currentUser, onGoBack }) => {
+    const [history, setHistory] = useState<VoiceCommandHistoryEntry[]>([]);
+    const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+
+    useEffect(() => {
+        geminiService.getCommandHistory(currentUser.id, HISTORY_LENGTH).then(entries => {
+            setHistory(entries);
+            setIsLoadingHistory(false);
+        });
+    }, [currentUser.id]);
+
+    const handleMisrecognized = async (entry: VoiceCommandHistoryEntry, expectedMeaning: string) => {
+        const success = await geminiService.markCommandMisrecognized(currentUser.id, entry, expectedMeaning || undefined);
+        if (success) {
+            setHistory(current => current.map(e => e.id === entry.id ? { ...e, success: false, misrecognized: true, expectedMeaning: expectedMeaning || undefined } : e));
+        }
+    };
+
     return (
         <div className="h-full w-full overflow-y-auto text-white p-4 sm:p-8">
             <div className="max-w-4xl mx-auto">
@@ -34,6 +117,16 @@ const HelpScreen: React.FC<HelpScreenProps> = ({ onGoBack }) => {
                     Here are some example commands you can use. You can speak in English, Bengali, or a mix (Banglish). The AI is flexible!
                 </p>
 
+                <CommandCategory title="Your Recent Commands">
+                    {isLoadingHistory ? (
+                        <p className="text-slate-400">Loading your commands...</p>
+                    ) : history.length === 0 ? (
+                        <p className="text-slate-400">Commands you give will show up here, along with what VoiceBook understood.</p>
+                    ) : history.map(entry => (
+                        <CommandHistoryItem key={entry.id} entry={entry} onMisrecognized={handleMisrecognized} />
+                    ))}
+                </CommandCategory>
+
                 <CommandCategory title="Navigation">
                     <CommandItem command="Go to my feed / হোম পেজে যাও" description="Navigates to the main feed screen." />
                     <CommandItem command="Open explore / এক্সপ্লোর" description="Goes to the explore page to discover new content." />
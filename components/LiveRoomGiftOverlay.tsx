@@ -0,0 +1,28 @@
+import React from 'react';
+import { LiveRoomGift } from '../types';
+
+export const GIFT_ANIMATION_MS = 4000; // Matches the gift-burst animation in index.html
+
+interface LiveRoomGiftOverlayProps {
+  gifts: LiveRoomGift[];
+  hostName: string;
+}
+
+// Gifts float up over the room for a few seconds; the room screen removes them when they finish.
+const LiveRoomGiftOverlay: React.FC<LiveRoomGiftOverlayProps> = ({ gifts, hostName }) => (
+    <div className="absolute inset-0 pointer-events-none z-40 overflow-hidden">
+        {gifts.map((gift, i) => (
+            <div key={gift.id} className="gift-burst absolute left-1/2 flex flex-col items-center" style={{ bottom: `${10 + (i % 3) * 8}%` }}>
+                <span className="text-7xl drop-shadow-lg">{gift.emoji}</span>
+                <div className="mt-2 flex items-center gap-2 bg-black/60 backdrop-blur-sm rounded-full pl-1 pr-3 py-1">
+                    <img src={gift.sender.avatarUrl} alt={gift.sender.name} className="w-6 h-6 rounded-full" />
+                    <p className="text-sm text-white whitespace-nowrap">
+                        <span className="font-bold">{gift.sender.name}</span> sent {hostName} <span className="font-bold text-yellow-400">{gift.amount} coins</span>
+                    </p>
+                </div>
+            </div>
+        ))}
+    </div>
+);
+
+export default LiveRoomGiftOverlay;
@@ -1,8 +1,10 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { AppView, LiveAudioRoom, User, LiveAudioRoomMessage, Author } from '../types';
+import { AppView, LiveAudioRoom, User, LiveAudioRoomMessage, Author, LiveRoomGift } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
+import SendCoinsModal from './SendCoinsModal';
+import LiveRoomGiftOverlay, { GIFT_ANIMATION_MS } from './LiveRoomGiftOverlay';
 import { AGORA_APP_ID } from '../constants';
 import AgoraRTC from 'agora-rtc-sdk-ng';
 import type { IAgoraRTCClient, IAgoraRTCRemoteUser, IMicrophoneAudioTrack } from 'agora-rtc-sdk-ng';
@@ -188,6 +190,8 @@ const LiveRoomScreen: React.FC<LiveRoomScreenProps> = ({ currentUser, roomId, on
     
     const [isEmojiPickerOpen, setEmojiPickerOpen] = useState(false);
     const [showHeartAnimation, setShowHeartAnimation] = useState(false);
+    const [gifts, setGifts] = useState<LiveRoomGift[]>([]);
+    const [isGiftModalOpen, setIsGiftModalOpen] = useState(false);
 
     const onGoBackRef = useRef(onGoBack);
     const onSetTtsMessageRef = useRef(onSetTtsMessage);
@@ -290,6 +294,14 @@ const LiveRoomScreen: React.FC<LiveRoomScreenProps> = ({ currentUser, roomId, on
         return () => unsubscribe();
     }, [roomId]);
 
+    useEffect(() => {
+        const unsubscribe = geminiService.listenToRoomGifts(roomId, 'audio', (gift) => {
+            setGifts(prev => [...prev, gift]);
+            setTimeout(() => setGifts(prev => prev.filter(g => g.id !== gift.id)), GIFT_ANIMATION_MS);
+        });
+        return () => unsubscribe();
+    }, [roomId]);
+
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages]);
@@ -395,7 +407,8 @@ const LiveRoomScreen: React.FC<LiveRoomScreenProps> = ({ currentUser, roomId, on
     const activeAppSpeakerId = activeSpeakerId ? speakerIdMap.get(activeSpeakerId) : null;
 
     return (
-        <div className="h-full w-full flex flex-col bg-slate-900 text-white overflow-hidden">
+        <div className="relative h-full w-full flex flex-col bg-slate-900 text-white overflow-hidden">
+            <LiveRoomGiftOverlay gifts={gifts} hostName={room.host.name} />
              <header className="flex-shrink-0 p-4 flex items-center bg-black/20 z-20 border-b border-fuchsia-500/10">
                 <button onClick={onGoBack} className="p-2 rounded-full hover:bg-slate-700/50 mr-2" aria-label="Go Back">
                     <Icon name="back" className="w-6 h-6" />
@@ -485,6 +498,11 @@ const LiveRoomScreen: React.FC<LiveRoomScreenProps> = ({ currentUser, roomId, on
                                 <Icon name={isMuted ? 'microphone-slash' : 'mic'} className="w-5 h-5" />
                             </button>
                         )}
+                        {!isHost && (
+                            <button type="button" onClick={() => setIsGiftModalOpen(true)} title={`Send ${room.host.name} a gift`} className="p-3 rounded-full bg-slate-600 hover:bg-slate-500">
+                                <span className="text-xl">🎁</span>
+                            </button>
+                        )}
                     </div>
                     <div className="relative flex-grow">
                         <input
@@ -504,6 +522,14 @@ const LiveRoomScreen: React.FC<LiveRoomScreenProps> = ({ currentUser, roomId, on
                     </button>
                 </form>
             </footer>
+            {isGiftModalOpen && (
+                <SendCoinsModal
+                    currentUser={currentUser}
+                    recipient={room.host}
+                    context={{ type: 'live_audio_room', referenceId: roomId }}
+                    onClose={() => setIsGiftModalOpen(false)}
+                />
+            )}
         </div>
     );
 };
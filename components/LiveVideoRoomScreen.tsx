@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { AppView, LiveVideoRoom, User, VideoParticipantState, LiveVideoRoomMessage } from '../types';
+import { AppView, LiveVideoRoom, User, VideoParticipantState, LiveVideoRoomMessage, LiveRoomGift } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
+import SendCoinsModal from './SendCoinsModal';
+import LiveRoomGiftOverlay, { GIFT_ANIMATION_MS } from './LiveRoomGiftOverlay';
 import { AGORA_APP_ID } from '../constants';
 import AgoraRTC from 'agora-rtc-sdk-ng';
 import type { IAgoraRTCClient, IAgoraRTCRemoteUser, IMicrophoneAudioTrack, ICameraVideoTrack } from 'agora-rtc-sdk-ng';
@@ -114,6 +116,8 @@ const LiveVideoRoomScreen: React.FC<LiveVideoRoomScreenProps> = ({ currentUser,
     const [room, setRoom] = useState<LiveVideoRoom | null>(null);
     const [messages, setMessages] = useState<LiveVideoRoomMessage[]>([]);
     const [newMessage, setNewMessage] = useState('');
+    const [gifts, setGifts] = useState<LiveRoomGift[]>([]);
+    const [isGiftModalOpen, setIsGiftModalOpen] = useState(false);
     
     const [isMuted, setIsMuted] = useState(false);
     const [isCameraOff, setIsCameraOff] = useState(false);
@@ -241,6 +245,14 @@ const LiveVideoRoomScreen: React.FC<LiveVideoRoomScreenProps> = ({ currentUser,
         return () => { unsubRoom(); unsubMessages(); };
     }, [roomId, onGoBack, onNavigate, onSetTtsMessage]);
 
+    useEffect(() => {
+        const unsubscribe = geminiService.listenToRoomGifts(roomId, 'video', (gift) => {
+            setGifts(prev => [...prev, gift]);
+            setTimeout(() => setGifts(prev => prev.filter(g => g.id !== gift.id)), GIFT_ANIMATION_MS);
+        });
+        return () => unsubscribe();
+    }, [roomId]);
+
     // Controls visibility timeout
     useEffect(() => {
         if (controlsVisible) {
@@ -373,6 +385,7 @@ const LiveVideoRoomScreen: React.FC<LiveVideoRoomScreenProps> = ({ currentUser,
                 onMouseMove={handleDragMove} onMouseUp={handleDragEnd} onMouseLeave={handleDragEnd}
                 onTouchMove={handleDragMove} onTouchEnd={handleDragEnd}
             >
+                <LiveRoomGiftOverlay gifts={gifts} hostName={room.host.name} />
                 {mainParticipant && (
                      <div className="w-full h-full flex items-center justify-center" onDoubleClick={handleMainViewDoubleClick}>
                         <ParticipantVideo participant={mainParticipant} isLocal={mainParticipant.id === currentUser.id} localVideoTrack={localVideoTrack.current} isMainView />
@@ -400,6 +413,9 @@ const LiveVideoRoomScreen: React.FC<LiveVideoRoomScreenProps> = ({ currentUser,
                         <button onClick={(e) => {e.stopPropagation(); toggleMute();}} disabled={!isMicAvailable} className={`p-4 rounded-full transition-colors ${!isMicAvailable ? 'bg-red-600/50' : isMuted ? 'bg-rose-600' : 'bg-slate-700'}`}><Icon name={!isMicAvailable || isMuted ? 'microphone-slash' : 'mic'} className="w-6 h-6" /></button>
                         <button onClick={(e) => {e.stopPropagation(); toggleCamera();}} disabled={!isCamAvailable} className={`p-4 rounded-full transition-colors ${!isCamAvailable ? 'bg-red-600/50' : isCameraOff ? 'bg-rose-600' : 'bg-slate-700'}`}><Icon name={!isCamAvailable || isCameraOff ? 'video-camera-slash' : 'video-camera'} className="w-6 h-6" /></button>
                         <button onClick={(e) => { e.stopPropagation(); setIsChatOpen(p => !p); }} className="p-4 rounded-full bg-slate-700 md:hidden"><Icon name="message" className="w-6 h-6"/></button>
+                        {room.host.id !== currentUser.id && (
+                            <button onClick={(e) => { e.stopPropagation(); setIsGiftModalOpen(true); }} title={`Send ${room.host.name} a gift`} className="p-4 rounded-full bg-slate-700"><span className="text-2xl leading-6">🎁</span></button>
+                        )}
                         <button onClick={(e) => {e.stopPropagation(); handleHangUp();}} className="p-4 rounded-full bg-red-600"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" transform="rotate(-135 12 12)"/></svg></button>
                     </div>
                 </div>
@@ -420,6 +436,14 @@ const LiveVideoRoomScreen: React.FC<LiveVideoRoomScreenProps> = ({ currentUser,
                     </form>
                 </footer>
             </aside>
+            {isGiftModalOpen && (
+                <SendCoinsModal
+                    currentUser={currentUser}
+                    recipient={room.host}
+                    context={{ type: 'live_video_room', referenceId: roomId }}
+                    onClose={() => setIsGiftModalOpen(false)}
+                />
+            )}
         </div>
     );
 };
@@ -73,6 +73,9 @@ const NotificationItem: React.FC<{ notification: Notification; onClick: () => vo
       case 'group_request_approved': return <Icon name="users" className="w-5 h-5 text-white" />;
       case 'admin_announcement': return <Icon name="speaker-wave" className="w-5 h-5 text-white" />;
       case 'admin_warning': return <Icon name="bell" className="w-5 h-5 text-white" />;
+      case 'event_reminder': return <Icon name="calendar" className="w-5 h-5 text-white" />;
+      case 'report_resolved': return <Icon name="check" className="w-5 h-5 text-white" />;
+      case 'coins_received': return <Icon name="coin" className="w-5 h-5 text-white" />;
       default: return null;
     }
   };
@@ -90,6 +93,9 @@ const NotificationItem: React.FC<{ notification: Notification; onClick: () => vo
         case 'group_request_approved': return 'bg-green-500';
         case 'admin_announcement': return 'bg-sky-500';
         case 'admin_warning': return 'bg-yellow-500';
+        case 'event_reminder': return 'bg-lime-600';
+        case 'report_resolved': return 'bg-emerald-600';
+        case 'coins_received': return 'bg-yellow-500';
         default: return 'bg-slate-500';
     }
   }
@@ -127,6 +133,16 @@ const NotificationItem: React.FC<{ notification: Notification; onClick: () => vo
         return <><span className="font-bold text-sky-400">Announcement:</span> {notification.message}</>;
       case 'admin_warning':
         return <><span className="font-bold text-yellow-400">Warning:</span> {notification.message}</>;
+      case 'report_resolved':
+        return <><span className="font-bold text-emerald-400">Report reviewed:</span> {notification.message}</>;
+      case 'coins_received':
+        return <><span className="font-bold">{notification.user.name}</span> {notification.post ? 'tipped you' : 'sent you'} <span className="font-bold text-yellow-400">{notification.coinAmount} Voice Coins</span>{notification.post ? <> for {postPreview}</> : null}.{notification.message ? <> "{notification.message}"</> : null}</>;
+      case 'event_reminder': {
+        const when = notification.eventDate
+            ? new Date(notification.eventDate).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+            : 'soon';
+        return <>Reminder: <span className="font-bold">{notification.eventTitle}</span> in <span className="font-bold">{notification.groupName}</span> starts {when}.</>;
+      }
       default:
         return 'New notification';
     }
@@ -2,32 +2,55 @@
 
 import React, { useState } from 'react';
 import Icon from './Icon';
+import { PaymentMethod, PaymentSubmission } from '../types';
+import { PAYMENT_MERCHANT_NUMBER, normalizeBangladeshMobileNumber } from '../constants';
 
 interface PaymentModalProps {
   amount: number;
   onClose: () => void;
-  onPaymentSubmit: (transactionId: string) => void;
+  onPaymentSubmit: (payment: PaymentSubmission) => Promise<{ success: boolean; reason?: string }>;
 }
 
 type PaymentStep = 'instructions' | 'enter_trxid' | 'pending';
 
+const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+    { value: 'bkash', label: 'bKash' },
+    { value: 'nagad', label: 'Nagad' },
+];
+
+const SUBMIT_ERRORS: Record<string, string> = {
+    duplicate_transaction: 'This Transaction ID has already been submitted. Please check the TrxID in your SMS.',
+    invalid_payment: 'Please check the sender number and Transaction ID.',
+};
+
 const PaymentModal: React.FC<PaymentModalProps> = ({ amount, onClose, onPaymentSubmit }) => {
     const [step, setStep] = useState<PaymentStep>('instructions');
+    const [method, setMethod] = useState<PaymentMethod>('bkash');
+    const [senderNumber, setSenderNumber] = useState('');
     const [trxId, setTrxId] = useState('');
+    const [error, setError] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const handleSubmit = () => {
+    const handleSubmit = async () => {
+        if (!normalizeBangladeshMobileNumber(senderNumber)) {
+            setError('Enter the 11-digit number you paid from, e.g. 01712345678.');
+            return;
+        }
         if (!trxId.trim()) {
-            alert("Please enter a valid Transaction ID.");
+            setError('Please enter a valid Transaction ID.');
             return;
         }
+        setError('');
         setIsSubmitting(true);
         setStep('pending');
 
-        setTimeout(() => {
-            onPaymentSubmit(trxId);
-            // The modal will be closed by the parent component after this handler.
-        }, 3000); // Give user time to read the pending message
+        const result = await onPaymentSubmit({ method, senderNumber, transactionId: trxId.trim() });
+        // On success the parent closes the modal.
+        if (!result.success) {
+            setIsSubmitting(false);
+            setStep('enter_trxid');
+            setError(SUBMIT_ERRORS[result.reason || ''] || 'Could not submit your payment. Please try again.');
+        }
     };
     
     const renderInstructions = () => (
@@ -38,7 +61,7 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ amount, onClose, onPaymentS
             </p>
             <div className="bg-slate-900/50 p-4 rounded-lg text-center my-6">
                 <p className="text-sm text-slate-400">bKash / Nagad Merchant Number</p>
-                <p className="text-3xl font-bold text-white tracking-widest">01721-013902</p>
+                <p className="text-3xl font-bold text-white tracking-widest">{PAYMENT_MERCHANT_NUMBER}</p>
             </div>
             <button
                 onClick={() => setStep('enter_trxid')}
@@ -55,6 +78,30 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ amount, onClose, onPaymentS
             <p className="text-center text-slate-400 mb-6">
                 Enter the Transaction ID (TrxID) you received from bKash/Nagad via SMS.
             </p>
+            <div className="flex gap-2 p-1 bg-slate-700 rounded-lg mb-4">
+                {PAYMENT_METHODS.map(option => (
+                    <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setMethod(option.value)}
+                        className={`w-full p-2 rounded-md font-semibold transition-colors ${method === option.value ? 'bg-slate-900 text-white' : 'text-slate-300'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            <div className="mb-4">
+                <label htmlFor="senderNumber" className="block mb-2 text-sm font-medium text-slate-300">Sent From (your {method === 'bkash' ? 'bKash' : 'Nagad'} number)</label>
+                <input
+                    type="tel"
+                    id="senderNumber"
+                    value={senderNumber}
+                    onChange={e => setSenderNumber(e.target.value)}
+                    placeholder="01XXXXXXXXX"
+                    required
+                    className="bg-slate-700 border border-slate-600 text-slate-100 text-lg tracking-wider text-center rounded-lg focus:ring-rose-500 focus:border-rose-500 block w-full p-2.5 transition"
+                />
+            </div>
             <div>
                 <label htmlFor="trxId" className="block mb-2 text-sm font-medium text-slate-300">Transaction ID (TrxID)</label>
                 <input 
@@ -67,6 +114,7 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ amount, onClose, onPaymentS
                     className="bg-slate-700 border border-slate-600 text-slate-100 text-lg tracking-wider text-center rounded-lg focus:ring-rose-500 focus:border-rose-500 block w-full p-2.5 transition" 
                 />
             </div>
+            {error && <p className="text-sm text-red-400 mt-4 text-center">{error}</p>}
              <div className="flex gap-4 mt-8">
                 <button
                     onClick={() => setStep('instructions')}
@@ -76,7 +124,7 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ amount, onClose, onPaymentS
                 </button>
                 <button
                     onClick={handleSubmit}
-                    disabled={!trxId.trim()}
+                    disabled={!trxId.trim() || !senderNumber.trim()}
                     className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg transition-colors text-lg"
                 >
                     Submit for Verification
@@ -88,9 +136,9 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ amount, onClose, onPaymentS
     const renderPending = () => (
         <div className="text-center py-10">
             <Icon name="logo" className="w-12 h-12 text-rose-500 animate-spin mx-auto mb-4"/>
-            <h2 className="text-2xl font-bold mb-2">Verification Pending</h2>
+            <h2 className="text-2xl font-bold mb-2">Submitting Payment</h2>
             <p className="text-slate-300">
-                Thank you! Your transaction is being manually verified. This may take up to 5 minutes. You will receive a notification once your campaign is approved.
+                Thank you! Once submitted, your transaction is verified against our merchant statement. You will receive a notification once your campaign is approved.
             </p>
         </div>
     );
@@ -4,8 +4,11 @@ import Icon from './Icon';
 import Waveform from './Waveform';
 import TaggedContent from './TaggedContent';
 import GroupRoleBadge from './GroupRoleBadge';
-import { REEL_TEXT_FONTS } from '../constants';
+import { REEL_TEXT_FONTS, getTtsPrompt } from '../constants';
+import { useSettings } from '../contexts/SettingsContext';
+import { speechService } from '../services/speechService';
 import ReactionListModal from './ReactionListModal';
+import SendCoinsModal from './SendCoinsModal';
 
 interface PostCardProps {
   post: Post;
@@ -124,6 +127,9 @@ export const PostCard: React.FC<PostCardProps> = ({ post, currentUser, isActive,
   const longPressTimer = useRef<number | null>(null);
   const pickerTimeout = useRef<number | null>(null);
   const [isReactionModalOpen, setIsReactionModalOpen] = useState(false);
+  const [isTipModalOpen, setIsTipModalOpen] = useState(false);
+  const { language } = useSettings();
+  const canTip = !!currentUser && currentUser.id !== post.author.id;
 
 
   const myReaction = React.useMemo(() => {
@@ -287,6 +293,13 @@ export const PostCard: React.FC<PostCardProps> = ({ post, currentUser, isActive,
     onCopyLink?.(post);
   };
  
+  const handleReadAloud = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setMenuOpen(false);
+    const authorName = post.isSponsored ? post.sponsorName : post.author.name;
+    speechService.speak(getTtsPrompt('read_post', language, { name: authorName || '', caption: post.caption || '' }), { interrupt: true });
+  };
+
   const handleHide = (e: React.MouseEvent) => {
     e.stopPropagation();
     setMenuOpen(false);
@@ -518,6 +531,7 @@ export const PostCard: React.FC<PostCardProps> = ({ post, currentUser, isActive,
                         <div className="my-1 h-px bg-slate-700"></div>
                         <li><button onClick={handleSave} className="w-full text-left px-4 py-2 hover:bg-slate-800 text-fuchsia-300">{isSaved ? 'Unsave post' : 'Save post'}</button></li>
                         <li><button onClick={handleCopy} className="w-full text-left px-4 py-2 hover:bg-slate-800 text-fuchsia-300">Copy link</button></li>
+                        {post.caption && <li><button onClick={handleReadAloud} className="w-full text-left px-4 py-2 hover:bg-slate-800 text-fuchsia-300">Read aloud</button></li>}
                         <li><button onClick={handleHide} className="w-full text-left px-4 py-2 hover:bg-slate-800 text-fuchsia-300">Hide post</button></li>
                       </>
                     )}
@@ -597,6 +611,11 @@ export const PostCard: React.FC<PostCardProps> = ({ post, currentUser, isActive,
                     <Icon name="share" className="w-6 h-6" />
                     <span className="font-semibold text-base">Share</span>
                   </button>
+                  {canTip && (
+                    <button onClick={(e) => { e.stopPropagation(); setIsTipModalOpen(true); }} title="Tip with Voice Coins" className="flex items-center justify-center px-2 py-1.5 rounded-lg text-yellow-400 hover:bg-slate-800 transition-colors duration-200">
+                      <Icon name="coin" className="w-6 h-6" />
+                    </button>
+                  )}
               </>
           )}
         </div>
@@ -608,6 +627,14 @@ export const PostCard: React.FC<PostCardProps> = ({ post, currentUser, isActive,
               reactions={post.reactions || {}}
           />
       )}
+      {isTipModalOpen && currentUser && (
+          <SendCoinsModal
+              currentUser={currentUser}
+              recipient={post.author}
+              context={{ type: 'post', referenceId: post.id }}
+              onClose={() => setIsTipModalOpen(false)}
+          />
+      )}
     </>
   );
 };
@@ -9,6 +9,7 @@ import ImageCropper from './ImageCropper';
 import { useSettings } from '../contexts/SettingsContext';
 import { t } from '../i18n';
 import UserCard from './UserCard';
+import SendCoinsModal from './SendCoinsModal';
 
 
 interface ProfileScreenProps {
@@ -78,6 +79,7 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
   const [commonFriends, setCommonFriends] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [friendshipStatus, setFriendshipStatus] = useState<FriendshipStatus>(FriendshipStatus.NOT_FRIENDS);
+  const [isSendCoinsOpen, setIsSendCoinsOpen] = useState(false);
   const [isLoadingStatus, setIsLoadingStatus] = useState(true);
   const [activeTab, setActiveTab] = useState<'posts' | 'about' | 'friends' | 'saved'>('posts');
   
@@ -361,10 +363,11 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
       setIsLoadingStatus(false);
   }, [profileUser, currentUser.id, onSetTtsMessage, language, isLoadingStatus]);
 
-  const handleUnfriend = useCallback(async () => {
+  // A voice command has already been confirmed out loud, so it skips the dialog.
+  const handleUnfriend = useCallback(async (confirmed = false) => {
     if (!profileUser) return;
     setIsActionMenuOpen(false);
-    if (window.confirm(`Are you sure you want to remove ${profileUser.name} from your friends?`)) {
+    if (confirmed || window.confirm(`Are you sure you want to remove ${profileUser.name} from your friends?`)) {
         const success = await geminiService.unfriendUser(currentUser.id, profileUser.id);
         if (success) {
             setFriendshipStatus(FriendshipStatus.NOT_FRIENDS);
@@ -389,7 +392,8 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
 
   const handleCommand = useCallback(async (command: string) => {
     if (!profileUser) {
-        onCommandProcessed();
+        // A chained command can arrive while the profile is still loading; it runs once it has.
+        if (!isLoading) onCommandProcessed();
         return;
     };
     
@@ -413,7 +417,7 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
               break;
           case 'intent_unfriend_user':
             if (friendshipStatus === FriendshipStatus.FRIENDS) {
-                handleUnfriend();
+                handleUnfriend(intentResponse.confirmed);
             }
             break;
         case 'intent_cancel_friend_request':
@@ -440,7 +444,7 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
     } finally {
         onCommandProcessed();
     }
-  }, [profileUser, currentUser.id, onCommandProcessed, onSetTtsMessage, language, handleAddFriendAction, friendshipStatus, handleRespondToRequest, handleUnfriend, handleCancelRequest, posts, currentPostIndex, onSavePost, onHidePost, onCopyLink, onReportPost]);
+  }, [profileUser, isLoading, currentUser.id, onCommandProcessed, onSetTtsMessage, language, handleAddFriendAction, friendshipStatus, handleRespondToRequest, handleUnfriend, handleCancelRequest, posts, currentPostIndex, onSavePost, onHidePost, onCopyLink, onReportPost]);
 
   useEffect(() => {
     if (lastCommand) {
@@ -496,7 +500,7 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
                     </button>
                     {isActionMenuOpen && (
                         <div className="absolute top-full right-0 mt-2 w-40 bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-10 animate-fade-in-fast">
-                            <button onClick={handleUnfriend} className="w-full text-left px-4 py-2 text-red-400 hover:bg-red-500/10">
+                            <button onClick={() => handleUnfriend()} className="w-full text-left px-4 py-2 text-red-400 hover:bg-red-500/10">
                                 {t(language, 'profile.unfriend')}
                             </button>
                         </div>
@@ -637,6 +641,11 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
                                          <Icon name="message" className="w-5 h-5"/>
                                          {t(language, 'profile.message')}
                                     </button>
+                                    {friendshipStatus === FriendshipStatus.FRIENDS && (
+                                        <button onClick={() => setIsSendCoinsOpen(true)} title="Send Voice Coins" className="p-2 rounded-lg transition-colors bg-yellow-500 text-black hover:bg-yellow-400">
+                                            <Icon name="coin" className="w-5 h-5"/>
+                                        </button>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -773,6 +782,15 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
                 isUploading={cropperState.isUploading}
             />
         )}
+        {isSendCoinsOpen && (
+            <SendCoinsModal
+                currentUser={currentUser}
+                recipient={profileUser}
+                context={{ type: 'profile' }}
+                onClose={() => setIsSendCoinsOpen(false)}
+                onSent={(amount) => onSetTtsMessage(`Sent ${amount} Voice Coins to ${profileUser.name}.`)}
+            />
+        )}
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { User, Author, CoinGiftContext } from '../types';
+import { geminiService } from '../services/geminiService';
+import { COIN_GIFT_AMOUNTS, COIN_GIFT_MAX_AMOUNT, LIVE_ROOM_GIFTS } from '../constants';
+import Icon from './Icon';
+
+interface SendCoinsModalProps {
+  currentUser: User;
+  recipient: Author;
+  context: { type: CoinGiftContext; referenceId?: string };
+  onClose: () => void;
+  onSent?: (amount: number) => void;
+}
+
+const FAILURE_MESSAGES: { [reason: string]: string } = {
+    insufficient_balance: "You don't have enough Voice Coins.",
+    invalid_amount: `Choose an amount between 1 and ${COIN_GIFT_MAX_AMOUNT} coins.`,
+    not_friends: 'You can only send coins to friends.',
+    recipient_unavailable: "This person can't receive coins right now.",
+};
+
+const SendCoinsModal: React.FC<SendCoinsModalProps> = ({ currentUser, recipient, context, onClose, onSent }) => {
+    const isLiveRoom = context.type === 'live_audio_room' || context.type === 'live_video_room';
+    const [amount, setAmount] = useState<number>(isLiveRoom ? LIVE_ROOM_GIFTS[0].amount : COIN_GIFT_AMOUNTS[0]);
+    const [emoji, setEmoji] = useState(LIVE_ROOM_GIFTS[0].emoji);
+    const [message, setMessage] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState('');
+
+    const balance = currentUser.voiceCoins || 0;
+    const title = context.type === 'post' ? `Tip ${recipient.name}` : `Send a gift to ${recipient.name}`;
+
+    const handleSend = async () => {
+        setIsSending(true);
+        setError('');
+        const result = await geminiService.sendCoins(currentUser, recipient.id, amount, context, {
+            message: isLiveRoom ? undefined : message,
+            emoji: isLiveRoom ? emoji : undefined,
+        });
+        setIsSending(false);
+        if (result.success) {
+            onSent?.(amount);
+            onClose();
+        } else {
+            setError(FAILURE_MESSAGES[result.reason] || 'Could not send coins. Please try again.');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in-fast" onClick={onClose}>
+            <div className="w-full max-w-sm bg-slate-800 border border-fuchsia-500/20 rounded-xl shadow-2xl p-5 text-white" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <img src={recipient.avatarUrl} alt={recipient.name} className="w-10 h-10 rounded-full" />
+                        <h2 className="text-lg font-bold text-slate-100">{title}</h2>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-700"><Icon name="close" className="w-5 h-5" /></button>
+                </div>
+
+                {isLiveRoom ? (
+                    <div className="grid grid-cols-4 gap-2 mt-5">
+                        {LIVE_ROOM_GIFTS.map(gift => (
+                            <button
+                                key={gift.emoji}
+                                onClick={() => { setEmoji(gift.emoji); setAmount(gift.amount); }}
+                                className={`flex flex-col items-center p-2 rounded-lg border transition-colors ${emoji === gift.emoji ? 'border-yellow-400 bg-yellow-400/10' : 'border-slate-600 hover:bg-slate-700'}`}
+                            >
+                                <span className="text-3xl">{gift.emoji}</span>
+                                <span className="text-xs text-slate-300 mt-1">{gift.name}</span>
+                                <span className="text-xs font-semibold text-yellow-400">{gift.amount}</span>
+                            </button>
+                        ))}
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex flex-wrap gap-2 mt-5">
+                            {COIN_GIFT_AMOUNTS.map(preset => (
+                                <button
+                                    key={preset}
+                                    onClick={() => setAmount(preset)}
+                                    className={`px-4 py-2 rounded-full font-semibold text-sm transition-colors ${amount === preset ? 'bg-yellow-500 text-black' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}
+                                >
+                                    {preset}
+                                </button>
+                            ))}
+                            <input
+                                type="number"
+                                min={1}
+                                max={COIN_GIFT_MAX_AMOUNT}
+                                value={amount}
+                                onChange={e => setAmount(parseInt(e.target.value, 10) || 0)}
+                                className="w-24 bg-slate-700 border border-slate-600 rounded-full px-3 py-2 text-sm text-slate-100"
+                            />
+                        </div>
+                        <input
+                            type="text"
+                            value={message}
+                            onChange={e => setMessage(e.target.value)}
+                            maxLength={120}
+                            placeholder="Add a message (optional)"
+                            className="w-full mt-4 bg-slate-700 border border-slate-600 rounded-lg p-2.5 text-sm text-slate-100"
+                        />
+                    </>
+                )}
+
+                <p className="text-xs text-slate-400 mt-4 flex items-center gap-1">
+                    <Icon name="coin" className="w-4 h-4 text-yellow-400" /> Your balance: {balance}
+                </p>
+                {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+
+                <button
+                    onClick={handleSend}
+                    disabled={isSending || amount <= 0 || amount > balance}
+                    className="w-full mt-4 bg-yellow-500 hover:bg-yellow-400 disabled:bg-slate-600 disabled:text-slate-400 text-black font-bold py-2.5 rounded-lg"
+                >
+                    {isSending ? 'Sending...' : `Send ${amount} coins`}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SendCoinsModal;
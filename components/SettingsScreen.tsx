@@ -1,10 +1,11 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Icon from './Icon';
-import { User, ScrollState } from '../types';
+import { User, ScrollState, GroupCategory, VoiceMacro } from '../types';
 import { geminiService } from '../services/geminiService';
-import { getTtsPrompt } from '../constants';
+import { getTtsPrompt, GROUP_CATEGORIES } from '../constants';
 import { useSettings } from '../contexts/SettingsContext';
 import { t } from '../i18n';
+import { speechService, SPEECH_RATE_MIN, SPEECH_RATE_MAX } from '../services/speechService';
 
 interface SettingsScreenProps {
   currentUser: User;
@@ -63,7 +64,8 @@ const SettingRowSelect: React.FC<{ icon: React.ReactNode; title: string; value:
 
 
 const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSettings, onUnblockUser, onDeactivateAccount, lastCommand, onSetTtsMessage, scrollState, onCommandProcessed, onGoBack }) => {
-  const { language, setLanguage } = useSettings();
+  const { language, setLanguage, speechRate, setSpeechRate, speechVoiceURI, setSpeechVoiceURI, isSpeechMuted, setSpeechMuted, isHandsFreeEnabled, setHandsFreeEnabled } = useSettings();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => speechService.getVoices(language));
   
   // Profile info state
   const [name, setName] = useState(currentUser.name);
@@ -73,6 +75,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSe
   const [currentCity, setCurrentCity] = useState(currentUser.currentCity || '');
   const [hometown, setHometown] = useState(currentUser.hometown || '');
   const [relationshipStatus, setRelationshipStatus] = useState(currentUser.relationshipStatus || 'Prefer not to say');
+  const [followedTopics, setFollowedTopics] = useState<GroupCategory[]>(currentUser.followedTopics || []);
 
   // Privacy settings state
   const [postVisibility, setPostVisibility] = useState(currentUser.privacySettings.postVisibility);
@@ -90,6 +93,8 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSe
   const [confirmNewPassword, setConfirmNewPassword] = useState('');
   const [passwordError, setPasswordError] = useState('');
   const [isDeactivationModalOpen, setIsDeactivationModalOpen] = useState(false);
+  const [newMacroName, setNewMacroName] = useState('');
+  const [newMacroCommands, setNewMacroCommands] = useState('');
 
 
   const [isLoading, setIsLoading] = useState(false);
@@ -108,6 +113,11 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSe
     fetchBlockedUsers();
   }, [currentUser.blockedUserIds, onSetTtsMessage, language]);
 
+  useEffect(() => {
+    setVoices(speechService.getVoices(language));
+    return speechService.onVoicesChanged(() => setVoices(speechService.getVoices(language)));
+  }, [language]);
+
   useEffect(() => {
     const scrollContainer = scrollContainerRef.current;
     if (!scrollContainer || scrollState === ScrollState.NONE) {
@@ -141,6 +151,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSe
       currentCity,
       hometown,
       relationshipStatus,
+      followedTopics,
       privacySettings: {
         postVisibility,
         friendRequestPrivacy,
@@ -151,7 +162,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSe
     await onUpdateSettings(updatedSettings);
     setIsLoading(false);
     onSetTtsMessage(getTtsPrompt('settings_saved', language));
-  }, [name, bio, work, education, currentCity, hometown, relationshipStatus, postVisibility, friendRequestPrivacy, friendListVisibility, notificationSettings, onUpdateSettings, onSetTtsMessage, language]);
+  }, [name, bio, work, education, currentCity, hometown, relationshipStatus, followedTopics, postVisibility, friendRequestPrivacy, friendListVisibility, notificationSettings, onUpdateSettings, onSetTtsMessage, language]);
 
   const handleChangePassword = async () => {
     setPasswordError('');
@@ -178,6 +189,23 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSe
     }
   };
 
+  // A macro with an existing name replaces it, the same as re-recording it by voice.
+  const handleAddMacro = async () => {
+      const macroName = newMacroName.trim();
+      const commands = newMacroCommands.split('\n').map(command => command.trim()).filter(Boolean);
+      if (!macroName || commands.length === 0) return;
+      const otherMacros = (currentUser.voiceMacros || []).filter(m => m.name.toLowerCase() !== macroName.toLowerCase());
+      await onUpdateSettings({ voiceMacros: [...otherMacros, { name: macroName, commands }] });
+      setNewMacroName('');
+      setNewMacroCommands('');
+      onSetTtsMessage(getTtsPrompt('macro_saved', language, { name: macroName, count: commands.length }));
+  };
+
+  const handleDeleteMacro = async (macro: VoiceMacro) => {
+      await onUpdateSettings({ voiceMacros: (currentUser.voiceMacros || []).filter(m => m !== macro) });
+      onSetTtsMessage(getTtsPrompt('macro_deleted', language, { name: macro.name }));
+  };
+
   const handleDeactivate = () => {
       setIsDeactivationModalOpen(true);
   };
@@ -262,7 +290,12 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSe
                 onSetTtsMessage(getTtsPrompt('password_change_prompt', language));
                 break;
             case 'intent_deactivate_account':
-                handleDeactivate();
+                // Voice deactivation was already confirmed out loud; the modal is for taps.
+                if (intentResponse.confirmed) {
+                    confirmDeactivation();
+                } else {
+                    handleDeactivate();
+                }
                 break;
         }
     } catch (error) {
@@ -301,6 +334,61 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSe
           </div>
         </div>
 
+        {/* Voice Feedback */}
+        <div className="bg-slate-800 p-6 rounded-lg mb-6">
+          <h2 className="text-2xl font-semibold mb-2 text-rose-400">{t(language, 'settings.voiceFeedback')}</h2>
+          {speechService.isSupported() ? (
+            <>
+              <SettingRow icon={<Icon name="speaker-wave" className="w-5 h-5"/>} title={t(language, 'settings.speakResponses')}>
+                  <ToggleSwitch enabled={!isSpeechMuted} onChange={enabled => setSpeechMuted(!enabled)} />
+              </SettingRow>
+              <SettingRow icon={<Icon name="speaker-wave" className="w-5 h-5"/>} title={t(language, 'settings.speechRate')}>
+                  <div className="flex items-center gap-3">
+                      <input type="range" min={SPEECH_RATE_MIN} max={SPEECH_RATE_MAX} step={0.1} value={speechRate} onChange={e => setSpeechRate(parseFloat(e.target.value))} disabled={isSpeechMuted} className="w-full accent-rose-500" />
+                      <span className="w-12 text-right text-slate-300">{speechRate.toFixed(1)}x</span>
+                  </div>
+              </SettingRow>
+              <SettingRowSelect icon={<Icon name="speaker-wave" className="w-5 h-5"/>} title={t(language, 'settings.speechVoice')} value={speechVoiceURI || ''} onChange={e => setSpeechVoiceURI(e.target.value || null)}>
+                  <option value="">{t(language, 'settings.defaultVoice')}</option>
+                  {voices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>)}
+              </SettingRowSelect>
+              {voices.length === 0 && <p className="text-sm text-slate-400 mt-1">{t(language, 'settings.noVoicesInstalled')}</p>}
+              <button onClick={() => speechService.speak(getTtsPrompt('voice_test', language), { interrupt: true })} disabled={isSpeechMuted} className="mt-3 px-4 py-2 rounded-lg bg-slate-600 hover:bg-slate-500 text-white font-semibold disabled:opacity-50">{t(language, 'settings.testVoice')}</button>
+            </>
+          ) : (
+            <p className="text-slate-400">{t(language, 'settings.speechNotSupported')}</p>
+          )}
+          <SettingRow icon={<Icon name="mic" className="w-5 h-5"/>} title={t(language, 'settings.handsFree')}>
+              <ToggleSwitch enabled={isHandsFreeEnabled} onChange={enabled => {
+                  setHandsFreeEnabled(enabled);
+                  onSetTtsMessage(getTtsPrompt(enabled ? 'hands_free_on' : 'hands_free_off', language));
+              }} />
+          </SettingRow>
+          <p className="text-sm text-slate-400">{t(language, 'settings.handsFreeDescription')}</p>
+        </div>
+
+        {/* Voice Macros */}
+        <div className="bg-slate-800 p-6 rounded-lg mb-6">
+          <h2 className="text-2xl font-semibold mb-4 text-rose-400">{t(language, 'settings.voiceMacros')}</h2>
+          <p className="text-sm text-slate-400 mb-4">{t(language, 'settings.voiceMacrosDescription')}</p>
+          <div className="space-y-3">
+            {(currentUser.voiceMacros || []).length > 0 ? currentUser.voiceMacros!.map(macro => (
+              <div key={macro.name} className="flex items-center justify-between gap-3 bg-slate-700/50 p-3 rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-semibold text-slate-200">{macro.name}</p>
+                  <p className="text-sm text-slate-400 truncate">{macro.commands.join(' → ')}</p>
+                </div>
+                <button onClick={() => handleDeleteMacro(macro)} title={t(language, 'settings.deleteMacro')} className="p-2 rounded-md text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors flex-shrink-0">
+                  <Icon name="trash" className="w-5 h-5"/>
+                </button>
+              </div>
+            )) : <p className="text-slate-400">{t(language, 'settings.noVoiceMacros')}</p>}
+          </div>
+          <SettingRowInput icon={<Icon name="mic" className="w-5 h-5"/>} title={t(language, 'settings.macroName')} value={newMacroName} onChange={e => setNewMacroName(e.target.value)} placeholder={t(language, 'settings.macroNamePlaceholder')} />
+          <SettingRowInput icon={<Icon name="edit" className="w-5 h-5"/>} title={t(language, 'settings.macroCommands')} value={newMacroCommands} onChange={e => setNewMacroCommands(e.target.value)} placeholder={t(language, 'settings.macroCommandsPlaceholder')} isTextarea />
+          <button onClick={handleAddMacro} disabled={!newMacroName.trim() || !newMacroCommands.trim()} className="mt-3 px-4 py-2 rounded-lg bg-slate-600 hover:bg-slate-500 text-white font-semibold disabled:opacity-50">{t(language, 'settings.addMacro')}</button>
+        </div>
+
 
         {/* Profile Information */}
         <div className="bg-slate-800 p-6 rounded-lg mb-6">
@@ -319,6 +407,20 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ currentUser, onUpdateSe
               <option value="Married">{t(language, 'settings.relationshipStatus.married')}</option>
               <option value="It's complicated">{t(language, 'settings.relationshipStatus.its_complicated')}</option>
           </SettingRowSelect>
+          <SettingRow icon={<Icon name="like" className="w-5 h-5"/>} title={t(language, 'settings.followedTopics')}>
+              <div className="flex flex-wrap gap-2">
+                  {GROUP_CATEGORIES.filter(topic => topic !== 'General').map(topic => (
+                      <button
+                          type="button"
+                          key={topic}
+                          onClick={() => setFollowedTopics(prev => prev.includes(topic) ? prev.filter(followed => followed !== topic) : [...prev, topic])}
+                          className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${followedTopics.includes(topic) ? 'bg-rose-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                      >
+                          {topic}
+                      </button>
+                  ))}
+              </div>
+          </SettingRow>
         </div>
 
         {/* Privacy */}
@@ -5,7 +5,7 @@ import VoiceCommandInput from './VoiceCommandInput';
 
 interface SidebarProps {
   currentUser: User;
-  onNavigate: (viewName: 'feed' | 'explore' | 'reels' | 'friends' | 'settings' | 'profile' | 'messages' | 'ads_center' | 'rooms' | 'groups' | 'help') => void;
+  onNavigate: (viewName: 'feed' | 'explore' | 'reels' | 'friends' | 'settings' | 'profile' | 'messages' | 'ads_center' | 'rooms' | 'groups' | 'help' | 'voice_coins') => void;
   friendRequestCount: number;
   activeView: AppView;
   voiceCoins: number;
@@ -134,7 +134,7 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
       </div>
 
       {/* Voice Coins */}
-      <div className="mb-4 bg-slate-900/50 shadow-md rounded-lg flex items-center justify-between p-3 border border-fuchsia-500/20">
+      <button onClick={() => onNavigate('voice_coins')} className="mb-4 w-full text-left bg-slate-900/50 hover:bg-slate-900/80 transition-colors shadow-md rounded-lg flex items-center justify-between p-3 border border-fuchsia-500/20">
           <div className="flex items-center gap-3">
               <Icon name="coin" className="w-8 h-8 text-yellow-400" />
               <div>
@@ -143,7 +143,7 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
               </div>
           </div>
           <p className="text-2xl font-bold text-yellow-400">{voiceCoins}</p>
-      </div>
+      </button>
 
 
       {/* Voice Command Input */}
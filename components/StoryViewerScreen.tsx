@@ -1,7 +1,7 @@
 
 
 import React, { useState, useEffect, useRef } from 'react';
-import { User, Story } from '../types';
+import { User, Story, StoryViewer } from '../types';
 import { geminiService } from '../services/geminiService';
 import Icon from './Icon';
 import Waveform from './Waveform';
@@ -15,20 +15,139 @@ interface StoryViewerScreenProps {
   initialUserIndex: number;
   onGoBack: () => void;
   onOpenProfile: (userName: string) => void;
+  onSetTtsMessage: (message: string) => void;
 }
 
-const StoryViewerScreen: React.FC<StoryViewerScreenProps> = ({ currentUser, storiesByAuthor, initialUserIndex, onGoBack, onOpenProfile }) => {
+const STORY_REACTIONS = ['❤️', '😂', '😮', '😢', '👏', '🔥'];
+
+const formatViewedAt = (date: string) => {
+  const seconds = Math.floor((new Date().getTime() - new Date(date).getTime()) / 1000);
+  if (seconds < 60) return 'Just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
+
+const ViewersSheet: React.FC<{ viewers: StoryViewer[] | null; onClose: () => void; onOpenProfile: (userName: string) => void }> = ({ viewers, onClose, onOpenProfile }) => (
+  <div className="absolute inset-x-0 bottom-0 max-h-[60%] bg-slate-900/95 backdrop-blur-sm rounded-t-2xl z-30 flex flex-col animate-slide-in-bottom" onClick={(e) => e.stopPropagation()} onMouseDown={(e) => e.stopPropagation()} onMouseUp={(e) => e.stopPropagation()}>
+    <div className="flex items-center justify-between p-4 border-b border-slate-700">
+      <h3 className="font-bold text-white">{viewers ? `Seen by ${viewers.length}` : 'Seen by'}</h3>
+      <button onClick={onClose} className="text-slate-400 hover:text-white"><Icon name="close" className="w-5 h-5" /></button>
+    </div>
+    <div className="overflow-y-auto p-2">
+      {viewers === null && <p className="text-center text-slate-400 p-4">Loading...</p>}
+      {viewers?.length === 0 && <p className="text-center text-slate-400 p-4">No one has seen this story yet.</p>}
+      {viewers?.map(viewer => (
+        <button key={viewer.user.id} onClick={() => onOpenProfile(viewer.user.username)} className="w-full flex items-center gap-3 p-2 rounded-lg hover:bg-slate-800 text-left">
+          <img src={viewer.user.avatarUrl} alt={viewer.user.name} className="w-10 h-10 rounded-full" />
+          <div className="flex-grow">
+            <p className="font-semibold text-slate-100">{viewer.user.name}</p>
+            <p className="text-xs text-slate-400">{formatViewedAt(viewer.viewedAt)}</p>
+          </div>
+          {viewer.reaction && <span className="text-2xl">{viewer.reaction}</span>}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const StoryViewerScreen: React.FC<StoryViewerScreenProps> = ({ currentUser, storiesByAuthor, initialUserIndex, onGoBack, onOpenProfile, onSetTtsMessage }) => {
   const [userIndex, setUserIndex] = useState(initialUserIndex);
   const [storyIndex, setStoryIndex] = useState(0);
-  const [isPaused, setIsPaused] = useState(false);
+  const [isPressed, setIsPressed] = useState(false);
+  const [viewers, setViewers] = useState<StoryViewer[] | null>(null);
+  const [isViewersSheetOpen, setViewersSheetOpen] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [isReplyFocused, setReplyFocused] = useState(false);
+  const [isRecordingReply, setRecordingReply] = useState(false);
+  const [sentReaction, setSentReaction] = useState<string | null>(null);
+  // The story holds still while the author browses viewers or the viewer composes a reply.
+  const isPaused = isPressed || isViewersSheetOpen || isReplyFocused || isRecordingReply || replyText.trim() !== '';
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null); // For story audio
   const musicRef = useRef<HTMLAudioElement>(null); // For background music
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioChunksRef = useRef<Blob[]>([]);
+  const recordingStartRef = useRef<number>(0);
+  // Sponsored stories already counted in this session; pausing and resuming isn't a new impression.
+  const trackedAdStoryIdsRef = useRef<Set<string>>(new Set());
   
   const currentUserStories = storiesByAuthor[userIndex];
   const currentStory = currentUserStories?.stories[storyIndex];
+  const isOwnStory = currentStory?.author.id === currentUser.id;
+
+  useEffect(() => {
+    setViewers(null);
+    setViewersSheetOpen(false);
+    setReplyText('');
+    setSentReaction(null);
+  }, [currentStory?.id]);
+
+  const handleOpenViewers = async () => {
+    if (!currentStory) return;
+    setViewersSheetOpen(true);
+    const storyViewers = await geminiService.getStoryViewers(currentStory.id);
+    setViewers(storyViewers);
+  };
+
+  const handleSendReaction = async (emoji: string) => {
+    if (!currentStory) return;
+    setSentReaction(emoji);
+    const success = await geminiService.sendStoryReply(currentStory, currentUser, { emoji });
+    onSetTtsMessage(success ? `Reaction sent to ${currentStory.author.name}.` : "Couldn't send your reaction. Please try again.");
+    setTimeout(() => setSentReaction(null), 1500);
+  };
+
+  const handleSendTextReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentStory || !replyText.trim()) return;
+    const text = replyText;
+    setReplyText('');
+    const success = await geminiService.sendStoryReply(currentStory, currentUser, { text });
+    onSetTtsMessage(success ? `Reply sent to ${currentStory.author.name}.` : "Couldn't send your reply. Please try again.");
+  };
+
+  const handleToggleVoiceReply = async () => {
+    if (isRecordingReply) {
+      mediaRecorderRef.current?.stop();
+      return;
+    }
+    if (!currentStory) return;
+    const story = currentStory;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      mediaRecorderRef.current = recorder;
+      audioChunksRef.current = [];
+      recorder.ondataavailable = (event) => audioChunksRef.current.push(event.data);
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        setRecordingReply(false);
+        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        const duration = Math.max(1, Math.round((Date.now() - recordingStartRef.current) / 1000));
+        const success = await geminiService.sendStoryReply(story, currentUser, { audioBlob, duration });
+        onSetTtsMessage(success ? `Voice reply sent to ${story.author.name}.` : "Couldn't send your voice reply. Please try again.");
+      };
+      recorder.start();
+      recordingStartRef.current = Date.now();
+      setRecordingReply(true);
+    } catch (err) {
+      console.error("Mic permission error:", err);
+      onSetTtsMessage("Microphone permission is needed to send a voice reply.");
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      if (mediaRecorderRef.current?.state === 'recording') {
+        mediaRecorderRef.current.onstop = null;
+        mediaRecorderRef.current.stop();
+        mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
+      }
+    };
+  }, []);
 
   const goToNextStory = () => {
     if (storyIndex < currentUserStories.stories.length - 1) {
@@ -67,9 +186,12 @@ const StoryViewerScreen: React.FC<StoryViewerScreenProps> = ({ currentUser, stor
       return;
     }
     
-    // Don't mark sponsored stories as "viewed" by the user
+    // Don't mark sponsored stories as "viewed" by the user; they count as an ad impression instead.
     if (!currentStory.isSponsored) {
         geminiService.markStoryAsViewed(currentStory.id, currentUser.id);
+    } else if (currentStory.campaignId && !trackedAdStoryIdsRef.current.has(currentStory.id)) {
+        trackedAdStoryIdsRef.current.add(currentStory.id);
+        geminiService.trackAdView(currentStory.campaignId, currentUser);
     }
 
 
@@ -161,7 +283,7 @@ const StoryViewerScreen: React.FC<StoryViewerScreenProps> = ({ currentUser, stor
 
   return (
     <div className="fixed inset-0 bg-black z-40 flex items-center justify-center">
-      <div className="w-full h-full max-w-md max-h-screen aspect-[9/16] bg-slate-800 rounded-lg overflow-hidden relative" onMouseDown={() => setIsPaused(true)} onMouseUp={() => setIsPaused(false)} onClick={handleTap}>
+      <div className="w-full h-full max-w-md max-h-screen aspect-[9/16] bg-slate-800 rounded-lg overflow-hidden relative" onMouseDown={() => setIsPressed(true)} onMouseUp={() => setIsPressed(false)} onClick={handleTap}>
         {/* Progress Bars */}
         <div className="absolute top-2 left-2 right-2 flex gap-1 z-10">
           {currentUserStories.stories.map((s, i) => (
@@ -205,6 +327,55 @@ const StoryViewerScreen: React.FC<StoryViewerScreenProps> = ({ currentUser, stor
                 Learn More
             </a>
         )}
+
+        {/* Author: seen by */}
+        {isOwnStory && (
+            <button
+                onClick={(e) => { e.stopPropagation(); handleOpenViewers(); }}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="absolute bottom-5 left-4 z-20 flex items-center gap-2 text-white text-shadow bg-black/30 px-3 py-2 rounded-full"
+            >
+                <Icon name="eye" className="w-5 h-5" />
+                <span className="text-sm font-semibold">{currentStory.viewedBy.filter(id => id !== currentUser.id).length} views</span>
+            </button>
+        )}
+
+        {/* Viewer: reactions and replies */}
+        {!isOwnStory && !currentStory.isSponsored && (
+            <div className="absolute bottom-3 left-3 right-3 z-20 flex flex-col gap-2" onClick={(e) => e.stopPropagation()} onMouseDown={(e) => e.stopPropagation()} onMouseUp={(e) => e.stopPropagation()}>
+                <div className="flex justify-center gap-2">
+                    {STORY_REACTIONS.map(emoji => (
+                        <button key={emoji} onClick={() => handleSendReaction(emoji)} className={`text-2xl transition-transform hover:scale-125 ${sentReaction === emoji ? 'scale-150' : ''}`}>{emoji}</button>
+                    ))}
+                </div>
+                <form onSubmit={handleSendTextReply} className="flex items-center gap-2">
+                    {isRecordingReply ? (
+                        <div className="flex-grow h-10 bg-black/40 border border-white/40 rounded-full flex items-center px-4"><Waveform isPlaying={true} isRecording /></div>
+                    ) : (
+                        <input
+                            type="text"
+                            value={replyText}
+                            onChange={(e) => setReplyText(e.target.value)}
+                            onFocus={() => setReplyFocused(true)}
+                            onBlur={() => setReplyFocused(false)}
+                            placeholder={`Reply to ${currentStory.author.name}...`}
+                            className="flex-grow bg-black/40 border border-white/40 rounded-full py-2 px-4 text-white placeholder-slate-300 focus:outline-none focus:ring-2 focus:ring-white/60"
+                        />
+                    )}
+                    {replyText.trim() ? (
+                        <button type="submit" className="p-2 text-white"><Icon name="paper-airplane" className="w-6 h-6" /></button>
+                    ) : (
+                        <button type="button" onClick={handleToggleVoiceReply} className={`p-2 rounded-full ${isRecordingReply ? 'bg-rose-500 text-white' : 'text-white'}`}>
+                            <Icon name={isRecordingReply ? 'pause' : 'mic'} className="w-6 h-6" />
+                        </button>
+                    )}
+                </form>
+            </div>
+        )}
+
+        {isViewersSheetOpen && (
+            <ViewersSheet viewers={viewers} onClose={() => setViewersSheetOpen(false)} onOpenProfile={onOpenProfile} />
+        )}
       </div>
     </div>
   );
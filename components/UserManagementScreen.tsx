@@ -25,7 +25,7 @@ const UserManagementScreen: React.FC<UserManagementScreenProps> = ({ currentUser
     }, [fetchUsers]);
 
     const handleRoleChange = async (targetUser: User, newRole: 'admin' | 'user') => {
-        const success = await geminiService.updateUserRole(targetUser.id, newRole);
+        const success = await geminiService.updateUserRole(targetUser.id, newRole, currentUser);
         if (success) {
             // Refresh the list to show the change
             setUsers(currentUsers => currentUsers.map(u => 
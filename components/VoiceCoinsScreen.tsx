@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { User, CoinTransaction, CoinTransactionReason, CoinGiftContext } from '../types';
+import { geminiService } from '../services/geminiService';
+import { REWARD_AD_COIN_VALUE, REWARD_AD_DAILY_LIMIT, IMAGE_GENERATION_COST } from '../constants';
+import Icon from './Icon';
+
+interface VoiceCoinsScreenProps {
+  currentUser: User;
+  onGoBack: () => void;
+}
+
+const REASON_LABELS: Record<CoinTransactionReason, string> = {
+    signup_bonus: 'Welcome bonus',
+    rewarded_ad: 'Watched a sponsored ad',
+    image_generation: 'AI image generation',
+    gift_sent: 'Gift sent',
+    gift_received: 'Gift received',
+};
+
+const GIFT_CONTEXT_LABELS: Record<CoinGiftContext, string> = {
+    profile: 'from profile',
+    chat: 'in chat',
+    post: 'tip on a post',
+    live_audio_room: 'in a live audio room',
+    live_video_room: 'in a live video room',
+};
+
+const describeTransaction = (transaction: CoinTransaction): string => {
+    const label = REASON_LABELS[transaction.reason] || transaction.reason;
+    if (!transaction.counterparty) return label;
+    const direction = transaction.reason === 'gift_sent' ? 'to' : 'from';
+    return `${label} ${direction} ${transaction.counterparty.name}`;
+};
+
+const TransactionRow: React.FC<{ transaction: CoinTransaction }> = ({ transaction }) => {
+    const isEarn = transaction.type === 'earn';
+    return (
+        <li className="flex items-center justify-between gap-4 py-3">
+            <div className="flex items-center gap-3">
+                <div className={`p-2 rounded-full ${isEarn ? 'bg-green-500/20' : 'bg-rose-500/20'}`}>
+                    <Icon name="coin" className={`w-5 h-5 ${isEarn ? 'text-green-400' : 'text-rose-400'}`} />
+                </div>
+                <div>
+                    <p className="font-semibold text-slate-100">{describeTransaction(transaction)}</p>
+                    {transaction.message && <p className="text-sm text-slate-300 italic">"{transaction.message}"</p>}
+                    <p className="text-xs text-slate-400">
+                        {new Date(transaction.createdAt).toLocaleString()}
+                        {transaction.giftContext && ` · ${GIFT_CONTEXT_LABELS[transaction.giftContext]}`}
+                    </p>
+                </div>
+            </div>
+            <div className="text-right">
+                <p className={`font-bold ${isEarn ? 'text-green-400' : 'text-rose-400'}`}>{isEarn ? '+' : '−'}{transaction.amount}</p>
+                <p className="text-xs text-slate-500">Balance {transaction.balanceAfter}</p>
+            </div>
+        </li>
+    );
+};
+
+const VoiceCoinsScreen: React.FC<VoiceCoinsScreenProps> = ({ currentUser, onGoBack }) => {
+    const [transactions, setTransactions] = useState<CoinTransaction[]>([]);
+    const [rewardedAdsToday, setRewardedAdsToday] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchWallet = async () => {
+            setIsLoading(true);
+            const [history, adsToday] = await Promise.all([
+                geminiService.getCoinTransactions(currentUser.id),
+                geminiService.getRewardedAdsToday(currentUser.id),
+            ]);
+            setTransactions(history);
+            setRewardedAdsToday(adsToday);
+            setIsLoading(false);
+        };
+        fetchWallet();
+    }, [currentUser.id, currentUser.voiceCoins]);
+
+    return (
+        <div className="h-full w-full overflow-y-auto text-white p-4 sm:p-8">
+            <div className="max-w-2xl mx-auto">
+                <div className="flex items-center gap-4 mb-8">
+                    <button onClick={onGoBack} className="p-2 -ml-2 rounded-full text-fuchsia-400 hover:bg-slate-800 md:hidden">
+                        <Icon name="back" className="w-6 h-6" />
+                    </button>
+                    <h1 className="text-4xl font-bold">Voice Coins</h1>
+                </div>
+
+                <div className="bg-slate-800 rounded-lg p-6 flex items-center justify-between">
+                    <div>
+                        <p className="text-sm text-slate-400">Current balance</p>
+                        <p className="text-4xl font-bold text-yellow-400">{currentUser.voiceCoins || 0}</p>
+                    </div>
+                    <Icon name="coin" className="w-14 h-14 text-yellow-400" />
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4 text-sm">
+                    <div className="bg-slate-800/60 p-4 rounded-lg">
+                        <p className="text-slate-400">Rewarded ads today</p>
+                        <p className="text-lg font-semibold text-slate-100">{rewardedAdsToday} / {REWARD_AD_DAILY_LIMIT}</p>
+                        <p className="text-xs text-slate-500 mt-1">Each ad watched to the end earns {REWARD_AD_COIN_VALUE} coins.</p>
+                    </div>
+                    <div className="bg-slate-800/60 p-4 rounded-lg">
+                        <p className="text-slate-400">AI image generation</p>
+                        <p className="text-lg font-semibold text-slate-100">{IMAGE_GENERATION_COST} coins per image</p>
+                        <p className="text-xs text-slate-500 mt-1">Only charged for images that are actually created.</p>
+                    </div>
+                </div>
+
+                <h2 className="text-2xl font-bold text-fuchsia-300 mt-8 mb-2">History</h2>
+                {isLoading ? (
+                    <p className="text-slate-400">Loading history...</p>
+                ) : transactions.length === 0 ? (
+                    <p className="text-slate-500">No transactions yet.</p>
+                ) : (
+                    <ul className="divide-y divide-slate-700 bg-slate-800/40 rounded-lg px-4">
+                        {transactions.map(transaction => <TransactionRow key={transaction.id} transaction={transaction} />)}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default VoiceCoinsScreen;
@@ -1,6 +1,7 @@
 import React from 'react';
 import Icon from './Icon';
 import { VoiceState } from '../types';
+import { useSettings } from '../contexts/SettingsContext';
 
 interface VoiceCommandInputProps {
   onSendCommand: (command: string) => void;
@@ -13,6 +14,8 @@ interface VoiceCommandInputProps {
 }
 
 const VoiceCommandInput: React.FC<VoiceCommandInputProps> = ({ onSendCommand, voiceState, onMicClick, value, onValueChange, placeholder, isChatRecording }) => {
+  const { isHandsFreeEnabled } = useSettings();
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (value.trim()) {
@@ -31,7 +34,7 @@ const VoiceCommandInput: React.FC<VoiceCommandInputProps> = ({ onSendCommand, vo
       case VoiceState.PROCESSING:
         return 'text-yellow-500';
       default:
-        return 'text-fuchsia-400';
+        return isHandsFreeEnabled ? 'text-emerald-400' : 'text-fuchsia-400';
     }
   };
 
@@ -46,6 +49,9 @@ const VoiceCommandInput: React.FC<VoiceCommandInputProps> = ({ onSendCommand, vo
       <div className="relative flex items-center">
         <div className="absolute inset-y-0 left-0 flex items-center pl-4 pointer-events-none">
           <Icon name="mic" className={`w-5 h-5 ${getIndicatorColor()}`} />
+          {isHandsFreeEnabled && !isListening && !isChatRecording && (
+            <span className="absolute left-6 top-1/2 -translate-y-3 w-2 h-2 rounded-full bg-emerald-400 animate-pulse" aria-label="Hands-free listening is on" />
+          )}
         </div>
         <input
           type="text"
@@ -1,13 +1,38 @@
 
 
-import { FriendshipStatus, type User, type Post, type Message, type Comment, type ChatTheme, type AdminUser, type LiveAudioRoom, type LiveVideoRoom, type Campaign, type Group, type Event, type GroupChat, type GroupCategory, type MusicTrack, type Story, type StoryTextStyle } from './types';
+import { FriendshipStatus, type User, type Post, type Message, type Comment, type ChatTheme, type AdminUser, type LiveAudioRoom, type LiveVideoRoom, type Campaign, type Group, type Event, type GroupChat, type GroupCategory, type BangladeshDistrict, type MusicTrack, type Story, type StoryTextStyle } from './types';
 import { t, Language } from './i18n';
 
 export const CLOUDINARY_CLOUD_NAME = "deeieh2bd";
 export const CLOUDINARY_UPLOAD_PRESET = "Voicebook";
-export const IMAGE_GENERATION_COST = 60;
+export const IMAGE_GENERATION_COST = 60; // Per image actually generated
+export const IMAGE_GENERATION_MAX_VARIANTS = 4;
 export const SPONSOR_CPM_BDT = 300; // Cost Per 1000 Impressions in BDT
+export const CAMPAIGN_DEFAULT_DURATION_DAYS = 7;
+export const AD_FREQUENCY_CAP_PER_DAY = 3; // Times one user may see the same campaign per day
+export const ACTIVE_CAMPAIGN_PAGE_SIZE = 100; // Active campaigns read per query when picking an ad
 export const REWARD_AD_COIN_VALUE = 5;
+export const REWARD_AD_DAILY_LIMIT = 10; // Rewarded ads that pay out per user per day (UTC)
+export const SIGNUP_COIN_BONUS = 100;
+export const COIN_GIFT_AMOUNTS = [10, 25, 50, 100];
+export const COIN_GIFT_MAX_AMOUNT = 1000; // Largest single gift or tip
+export const LIVE_ROOM_GIFTS = [
+  { emoji: '🌹', name: 'Rose', amount: 10 },
+  { emoji: '🎉', name: 'Party', amount: 25 },
+  { emoji: '💎', name: 'Diamond', amount: 50 },
+  { emoji: '👑', name: 'Crown', amount: 100 },
+];
+export const STORY_LIFETIME_HOURS = 24;
+export const GROUP_CHAT_PAGE_SIZE = 30;
+export const ADMIN_AUDIT_LOG_PAGE_SIZE = 100;
+export const EVENT_REMINDER_HOURS = 24;
+export const EVENT_DEFAULT_DURATION_HOURS = 1;
+export const ADMIN_INVITE_EXPIRY_DAYS = 7;
+export const ADMIN_SESSION_IDLE_MINUTES = 30;
+export const ADMIN_SESSION_MAX_HOURS = 8;
+export const REPORT_SUSPENSION_DAYS = 7;
+export const AD_INTEREST_MIN_REACTIONS = 3; // Reactions to a category's group posts before it counts as an interest
+export const AUDIENCE_SAMPLE_SIZE = 500; // Profiles sampled to estimate a campaign's audience size
 // IMPORTANT: Replace with your actual Agora App ID
 export const AGORA_APP_ID = '0063ad751cdb46bcbf9feb29f639be75'; 
 
@@ -132,6 +157,117 @@ export const GROUP_CATEGORIES: GroupCategory[] = [
     'General', 'Food', 'Gaming', 'Music', 'Technology', 'Travel', 'Art & Culture', 'Sports'
 ];
 
+export const AD_RADIUS_OPTIONS_KM = [0, 25, 50, 100];
+
+export const BANGLADESH_DISTRICTS: BangladeshDistrict[] = [
+    // Dhaka
+    { name: 'Dhaka', nameBn: 'ঢাকা', division: 'Dhaka', lat: 23.8103, lng: 90.4125, aliases: ['dacca', 'dhaka city'] },
+    { name: 'Faridpur', nameBn: 'ফরিদপুর', division: 'Dhaka', lat: 23.6070, lng: 89.8429 },
+    { name: 'Gazipur', nameBn: 'গাজীপুর', division: 'Dhaka', lat: 24.0023, lng: 90.4264, aliases: ['গাজিপুর', 'tongi', 'টঙ্গী'] },
+    { name: 'Gopalganj', nameBn: 'গোপালগঞ্জ', division: 'Dhaka', lat: 23.0051, lng: 89.8266 },
+    { name: 'Kishoreganj', nameBn: 'কিশোরগঞ্জ', division: 'Dhaka', lat: 24.4449, lng: 90.7766, aliases: ['kishorganj'] },
+    { name: 'Madaripur', nameBn: 'মাদারীপুর', division: 'Dhaka', lat: 23.1641, lng: 90.1897, aliases: ['মাদারিপুর'] },
+    { name: 'Manikganj', nameBn: 'মানিকগঞ্জ', division: 'Dhaka', lat: 23.8644, lng: 90.0047 },
+    { name: 'Munshiganj', nameBn: 'মুন্সীগঞ্জ', division: 'Dhaka', lat: 23.5422, lng: 90.5305, aliases: ['মুন্সিগঞ্জ', 'bikrampur'] },
+    { name: 'Narayanganj', nameBn: 'নারায়ণগঞ্জ', division: 'Dhaka', lat: 23.6238, lng: 90.5000, aliases: ['নারায়নগঞ্জ', 'narayangonj'] },
+    { name: 'Narsingdi', nameBn: 'নরসিংদী', division: 'Dhaka', lat: 23.9322, lng: 90.7151, aliases: ['narshingdi', 'নরসিংদি'] },
+    { name: 'Rajbari', nameBn: 'রাজবাড়ী', division: 'Dhaka', lat: 23.7574, lng: 89.6445, aliases: ['রাজবাড়ি'] },
+    { name: 'Shariatpur', nameBn: 'শরীয়তপুর', division: 'Dhaka', lat: 23.2423, lng: 90.4348, aliases: ['শরিয়তপুর'] },
+    { name: 'Tangail', nameBn: 'টাঙ্গাইল', division: 'Dhaka', lat: 24.2513, lng: 89.9167, aliases: ['টাংগাইল'] },
+    // Chattogram
+    { name: 'Bandarban', nameBn: 'বান্দরবান', division: 'Chattogram', lat: 22.1953, lng: 92.2184 },
+    { name: 'Brahmanbaria', nameBn: 'ব্রাহ্মণবাড়িয়া', division: 'Chattogram', lat: 23.9571, lng: 91.1119, aliases: ['b baria', 'বি বাড়িয়া'] },
+    { name: 'Chandpur', nameBn: 'চাঁদপুর', division: 'Chattogram', lat: 23.2333, lng: 90.6712 },
+    { name: 'Chattogram', nameBn: 'চট্টগ্রাম', division: 'Chattogram', lat: 22.3569, lng: 91.7832, aliases: ['chittagong', 'ctg', 'chottogram', 'চিটাগাং'] },
+    { name: 'Cumilla', nameBn: 'কুমিল্লা', division: 'Chattogram', lat: 23.4607, lng: 91.1809, aliases: ['comilla'] },
+    { name: "Cox's Bazar", nameBn: 'কক্সবাজার', division: 'Chattogram', lat: 21.4272, lng: 92.0058, aliases: ['coxs bazar', 'cox bazar'] },
+    { name: 'Feni', nameBn: 'ফেনী', division: 'Chattogram', lat: 23.0159, lng: 91.3976, aliases: ['ফেনি'] },
+    { name: 'Khagrachhari', nameBn: 'খাগড়াছড়ি', division: 'Chattogram', lat: 23.1193, lng: 91.9847, aliases: ['khagrachari'] },
+    { name: 'Lakshmipur', nameBn: 'লক্ষ্মীপুর', division: 'Chattogram', lat: 22.9447, lng: 90.8282, aliases: ['laxmipur', 'লক্ষীপুর'] },
+    { name: 'Noakhali', nameBn: 'নোয়াখালী', division: 'Chattogram', lat: 22.8696, lng: 91.0995, aliases: ['নোয়াখালি', 'maijdee'] },
+    { name: 'Rangamati', nameBn: 'রাঙ্গামাটি', division: 'Chattogram', lat: 22.6533, lng: 92.1789, aliases: ['রাঙামাটি'] },
+    // Rajshahi
+    { name: 'Bogura', nameBn: 'বগুড়া', division: 'Rajshahi', lat: 24.8465, lng: 89.3773, aliases: ['bogra'] },
+    { name: 'Chapainawabganj', nameBn: 'চাঁপাইনবাবগঞ্জ', division: 'Rajshahi', lat: 24.5965, lng: 88.2776, aliases: ['nawabganj', 'chapai nawabganj', 'চাঁপাই'] },
+    { name: 'Joypurhat', nameBn: 'জয়পুরহাট', division: 'Rajshahi', lat: 25.0968, lng: 89.0227, aliases: ['jaipurhat'] },
+    { name: 'Naogaon', nameBn: 'নওগাঁ', division: 'Rajshahi', lat: 24.7936, lng: 88.9318 },
+    { name: 'Natore', nameBn: 'নাটোর', division: 'Rajshahi', lat: 24.4206, lng: 89.0003 },
+    { name: 'Pabna', nameBn: 'পাবনা', division: 'Rajshahi', lat: 24.0064, lng: 89.2372 },
+    { name: 'Rajshahi', nameBn: 'রাজশাহী', division: 'Rajshahi', lat: 24.3745, lng: 88.6042, aliases: ['রাজশাহি'] },
+    { name: 'Sirajganj', nameBn: 'সিরাজগঞ্জ', division: 'Rajshahi', lat: 24.4534, lng: 89.7007, aliases: ['sirajgonj'] },
+    // Khulna
+    { name: 'Bagerhat', nameBn: 'বাগেরহাট', division: 'Khulna', lat: 22.6516, lng: 89.7859 },
+    { name: 'Chuadanga', nameBn: 'চুয়াডাঙ্গা', division: 'Khulna', lat: 23.6401, lng: 88.8418, aliases: ['চুয়াডাংগা'] },
+    { name: 'Jashore', nameBn: 'যশোর', division: 'Khulna', lat: 23.1664, lng: 89.2081, aliases: ['jessore'] },
+    { name: 'Jhenaidah', nameBn: 'ঝিনাইদহ', division: 'Khulna', lat: 23.5450, lng: 89.1726, aliases: ['jhenidah'] },
+    { name: 'Khulna', nameBn: 'খুলনা', division: 'Khulna', lat: 22.8456, lng: 89.5403 },
+    { name: 'Kushtia', nameBn: 'কুষ্টিয়া', division: 'Khulna', lat: 23.9013, lng: 89.1205 },
+    { name: 'Magura', nameBn: 'মাগুরা', division: 'Khulna', lat: 23.4855, lng: 89.4198 },
+    { name: 'Meherpur', nameBn: 'মেহেরপুর', division: 'Khulna', lat: 23.7622, lng: 88.6318 },
+    { name: 'Narail', nameBn: 'নড়াইল', division: 'Khulna', lat: 23.1725, lng: 89.5127 },
+    { name: 'Satkhira', nameBn: 'সাতক্ষীরা', division: 'Khulna', lat: 22.7185, lng: 89.0705, aliases: ['সাতক্ষিরা'] },
+    // Barishal
+    { name: 'Barguna', nameBn: 'বরগুনা', division: 'Barishal', lat: 22.0953, lng: 90.1121 },
+    { name: 'Barishal', nameBn: 'বরিশাল', division: 'Barishal', lat: 22.7010, lng: 90.3535, aliases: ['barisal'] },
+    { name: 'Bhola', nameBn: 'ভোলা', division: 'Barishal', lat: 22.6859, lng: 90.6482 },
+    { name: 'Jhalokati', nameBn: 'ঝালকাঠি', division: 'Barishal', lat: 22.6406, lng: 90.1987, aliases: ['jhalakathi', 'jhalokathi'] },
+    { name: 'Patuakhali', nameBn: 'পটুয়াখালী', division: 'Barishal', lat: 22.3596, lng: 90.3299, aliases: ['পটুয়াখালি'] },
+    { name: 'Pirojpur', nameBn: 'পিরোজপুর', division: 'Barishal', lat: 22.5841, lng: 89.9720 },
+    // Sylhet
+    { name: 'Habiganj', nameBn: 'হবিগঞ্জ', division: 'Sylhet', lat: 24.3749, lng: 91.4155, aliases: ['hobiganj'] },
+    { name: 'Moulvibazar', nameBn: 'মৌলভীবাজার', division: 'Sylhet', lat: 24.4829, lng: 91.7774, aliases: ['maulvibazar', 'sreemangal', 'শ্রীমঙ্গল'] },
+    { name: 'Sunamganj', nameBn: 'সুনামগঞ্জ', division: 'Sylhet', lat: 25.0658, lng: 91.3950 },
+    { name: 'Sylhet', nameBn: 'সিলেট', division: 'Sylhet', lat: 24.8949, lng: 91.8687, aliases: ['srihatta'] },
+    // Rangpur
+    { name: 'Dinajpur', nameBn: 'দিনাজপুর', division: 'Rangpur', lat: 25.6217, lng: 88.6354 },
+    { name: 'Gaibandha', nameBn: 'গাইবান্ধা', division: 'Rangpur', lat: 25.3288, lng: 89.5430 },
+    { name: 'Kurigram', nameBn: 'কুড়িগ্রাম', division: 'Rangpur', lat: 25.8072, lng: 89.6295 },
+    { name: 'Lalmonirhat', nameBn: 'লালমনিরহাট', division: 'Rangpur', lat: 25.9923, lng: 89.2847 },
+    { name: 'Nilphamari', nameBn: 'নীলফামারী', division: 'Rangpur', lat: 25.9317, lng: 88.8560, aliases: ['saidpur', 'সৈয়দপুর'] },
+    { name: 'Panchagarh', nameBn: 'পঞ্চগড়', division: 'Rangpur', lat: 26.3411, lng: 88.5542 },
+    { name: 'Rangpur', nameBn: 'রংপুর', division: 'Rangpur', lat: 25.7439, lng: 89.2752 },
+    { name: 'Thakurgaon', nameBn: 'ঠাকুরগাঁও', division: 'Rangpur', lat: 26.0337, lng: 88.4617 },
+    // Mymensingh
+    { name: 'Jamalpur', nameBn: 'জামালপুর', division: 'Mymensingh', lat: 24.9375, lng: 89.9372 },
+    { name: 'Mymensingh', nameBn: 'ময়মনসিংহ', division: 'Mymensingh', lat: 24.7471, lng: 90.4203, aliases: ['mymensing', 'moymonsingh'] },
+    { name: 'Netrokona', nameBn: 'নেত্রকোণা', division: 'Mymensingh', lat: 24.8103, lng: 90.8656, aliases: ['netrakona', 'নেত্রকোনা'] },
+    { name: 'Sherpur', nameBn: 'শেরপুর', division: 'Mymensingh', lat: 25.0205, lng: 90.0153 },
+];
+
+// Lowercases and strips punctuation, spacing and suffixes like "District" / "জেলা" so that
+// "Cox's Bazar", "coxs bazar" and "কক্সবাজার জেলা" compare equal to their list entries.
+const normalizePlaceName = (value: string): string =>
+    value.normalize('NFC').toLowerCase()
+        .replace(/\b(district|zila|zilla|sadar|city)\b/g, '')
+        .replace(/(জেলা|সদর|শহর)/g, '')
+        .replace(/[^a-z\u0980-\u09FF]/g, '');
+
+const DISTRICT_LOOKUP: Map<string, BangladeshDistrict> = new Map(
+    BANGLADESH_DISTRICTS.flatMap(district =>
+        [district.name, district.nameBn, ...(district.aliases || [])].map(name => [normalizePlaceName(name), district] as const)
+    )
+);
+
+// Resolves a free-text city such as "Mirpur, Dhaka" or "চট্টগ্রাম" to a district. The last
+// comma-separated part is tried first, since addresses usually end with the district.
+export const findBangladeshDistrict = (city?: string | null): BangladeshDistrict | null => {
+    if (!city) return null;
+    const parts = city.split(/[,،।]/).map(normalizePlaceName).filter(Boolean).reverse();
+    for (const part of parts) {
+        const district = DISTRICT_LOOKUP.get(part);
+        if (district) return district;
+    }
+    return null;
+};
+
+export const PAYMENT_MERCHANT_NUMBER = '01721-013902';
+
+// Accepts "01712-345678", "+8801712345678" and similar, returning the 11-digit local form.
+export const normalizeBangladeshMobileNumber = (value: string): string | null => {
+    const digits = value.replace(/\D/g, '').replace(/^88(?=01)/, '');
+    return /^01[3-9]\d{8}$/.test(digits) ? digits : null;
+};
+
 export const TEXT_STORY_STYLES: StoryTextStyle[] = [
   { name: 'Classic', backgroundColor: 'bg-gradient-to-br from-sky-500 to-indigo-600', fontFamily: 'font-sans', color: 'text-white', textAlign: 'center' },
   { name: 'Elegant', backgroundColor: 'bg-gray-800', fontFamily: 'font-serif', color: 'text-yellow-200', textAlign: 'center' },
@@ -1,5 +1,6 @@
 
 import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { speechService } from '../services/speechService';
 
 export type Theme = 'light' | 'dark';
 export type Language = 'en' | 'bn';
@@ -9,6 +10,14 @@ interface SettingsContextType {
     setTheme: (theme: Theme) => void;
     language: Language;
     setLanguage: (language: Language) => void;
+    speechRate: number;
+    setSpeechRate: (rate: number) => void;
+    speechVoiceURI: string | null;
+    setSpeechVoiceURI: (voiceURI: string | null) => void;
+    isSpeechMuted: boolean;
+    setSpeechMuted: (muted: boolean) => void;
+    isHandsFreeEnabled: boolean;
+    setHandsFreeEnabled: (enabled: boolean) => void;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -20,6 +29,18 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     const [language, setLanguageState] = useState<Language>(() => {
         return (localStorage.getItem('voicebook-language') as Language) || 'en';
     });
+    const [speechRate, setSpeechRateState] = useState<number>(() => {
+        return parseFloat(localStorage.getItem('voicebook-speech-rate') || '') || 1;
+    });
+    const [speechVoiceURI, setSpeechVoiceURIState] = useState<string | null>(() => {
+        return localStorage.getItem('voicebook-speech-voice');
+    });
+    const [isSpeechMuted, setSpeechMutedState] = useState<boolean>(() => {
+        return localStorage.getItem('voicebook-speech-muted') === 'true';
+    });
+    const [isHandsFreeEnabled, setHandsFreeEnabledState] = useState<boolean>(() => {
+        return localStorage.getItem('voicebook-hands-free') === 'true';
+    });
 
     useEffect(() => {
         const root = window.document.documentElement;
@@ -34,14 +55,41 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
         localStorage.setItem('voicebook-language', language);
     }, [language]);
 
+    useEffect(() => {
+        localStorage.setItem('voicebook-speech-rate', String(speechRate));
+        localStorage.setItem('voicebook-speech-muted', String(isSpeechMuted));
+        if (speechVoiceURI) {
+            localStorage.setItem('voicebook-speech-voice', speechVoiceURI);
+        } else {
+            localStorage.removeItem('voicebook-speech-voice');
+        }
+        speechService.configure({ language, rate: speechRate, voiceURI: speechVoiceURI, muted: isSpeechMuted });
+    }, [language, speechRate, speechVoiceURI, isSpeechMuted]);
+
+    useEffect(() => {
+        localStorage.setItem('voicebook-hands-free', String(isHandsFreeEnabled));
+    }, [isHandsFreeEnabled]);
+
     const setTheme = (newTheme: Theme) => setThemeState(newTheme);
     const setLanguage = (newLanguage: Language) => setLanguageState(newLanguage);
+    const setSpeechRate = (rate: number) => setSpeechRateState(rate);
+    const setSpeechVoiceURI = (voiceURI: string | null) => setSpeechVoiceURIState(voiceURI);
+    const setSpeechMuted = (muted: boolean) => setSpeechMutedState(muted);
+    const setHandsFreeEnabled = (enabled: boolean) => setHandsFreeEnabledState(enabled);
 
     const value = {
         theme,
         setTheme,
         language,
         setLanguage,
+        speechRate,
+        setSpeechRate,
+        speechVoiceURI,
+        setSpeechVoiceURI,
+        isSpeechMuted,
+        setSpeechMuted,
+        isHandsFreeEnabled,
+        setHandsFreeEnabled,
     };
 
     return (
@@ -0,0 +1,68 @@
+import { NLUResponse } from '../types';
+import { createGeminiAIProvider } from './geminiAIProvider';
+import { offlineAIProvider } from './offlineAIProvider';
+
+export type AIProviderName = 'gemini' | 'offline';
+
+// Names the NLU can match against, taken from whatever is on screen.
+export interface IntentContext {
+  userNames?: string[];
+  groupNames?: string[];
+  themeNames?: string[];
+  // The user's saved voice macros; only the on-device matcher uses these.
+  macroNames?: string[];
+}
+
+// The slimmed-down post shape sent for explore categorization.
+export interface ExplorePostSummary {
+  id: string;
+  caption?: string;
+  type: 'audio' | 'video' | 'image/text';
+  reactionCount: number;
+  commentCount: number;
+  createdAt: string;
+}
+
+export interface ExploreCategoryIds {
+  trending: string[];
+  forYou: string[];
+  recent: string[];
+  funnyVoiceNotes: string[];
+  newTalent: string[];
+}
+
+// Everything the app asks of a language/image model. geminiService calls these instead of a
+// specific SDK so the app also runs, deterministically, without an API key.
+export interface AIProvider {
+  readonly name: AIProviderName;
+  parseIntent(command: string, context?: IntentContext): Promise<NLUResponse>;
+  correctTranscript(rawText: string): Promise<string>;
+  // Breaks a chained utterance into self-contained commands, in order. A single command comes
+  // back as a one-element array.
+  splitCommand(command: string): Promise<string[]>;
+  categorizeExplorePosts(posts: ExplorePostSummary[], userId: string): Promise<ExploreCategoryIds>;
+  // Image methods return data URLs; an empty result or null means nothing was produced.
+  generateImages(prompt: string, count: number): Promise<string[]>;
+  editImage(base64ImageData: string, mimeType: string, prompt: string): Promise<string | null>;
+}
+
+// AI_PROVIDER picks the provider ('gemini' or 'offline'). When it is unset, Gemini is used if
+// an API key is configured and the offline provider otherwise.
+const selectAIProvider = (): AIProvider => {
+    const configured = (process.env.AI_PROVIDER || '').toLowerCase();
+    const apiKey = process.env.API_KEY;
+
+    if (configured === 'offline') {
+        return offlineAIProvider;
+    }
+    if (configured && configured !== 'gemini') {
+        console.warn(`Unknown AI_PROVIDER "${configured}".`);
+    }
+    if (!apiKey) {
+        console.warn("Gemini API key is not configured; using the offline AI provider. Set GEMINI_API_KEY in .env.local to use Gemini.");
+        return offlineAIProvider;
+    }
+    return createGeminiAIProvider(apiKey);
+};
+
+export const aiProvider: AIProvider = selectAIProvider();
@@ -0,0 +1,45 @@
+import { NLUResponse } from '../types';
+import { firebaseService } from './firebaseService';
+
+// Follows a command from what was heard to what the NLU made of it, and saves the result to the
+// user's command history. UserApp starts an entry for every command the user gives; the first
+// NLU result after that finishes it. Later results for the same command, such as a second
+// component reading it or the following steps of a chain, are not saved again.
+
+interface PendingEntry {
+  userId: string;
+  rawTranscript: string;
+  correctedTranscript: string;
+}
+
+// Intents that mean nothing happened.
+const FAILED_INTENTS = new Set(['unknown', 'unhandled']);
+
+let pending: PendingEntry | null = null;
+
+const save = (entry: PendingEntry, response: NLUResponse) => {
+  firebaseService.addCommandHistoryEntry(entry.userId, {
+    rawTranscript: entry.rawTranscript,
+    correctedTranscript: entry.correctedTranscript,
+    intent: response.intent,
+    slots: response.slots,
+    success: !FAILED_INTENTS.has(response.intent),
+  });
+};
+
+export const commandHistory = {
+  start(userId: string, rawTranscript: string, correctedTranscript: string) {
+    // Nothing asked the NLU about the previous command, so no screen acted on it.
+    if (pending) {
+      save(pending, { intent: 'unhandled' });
+    }
+    pending = { userId, rawTranscript, correctedTranscript };
+  },
+
+  finish(response: NLUResponse) {
+    if (!pending) return;
+    const entry = pending;
+    pending = null;
+    save(entry, response);
+  },
+};
@@ -0,0 +1,142 @@
+import { NLUResponse } from '../types';
+import { matchIntent, MIN_LOCAL_CONFIDENCE } from './intentMatcher';
+
+// Turns one-shot NLU results into short conversations. An intent that is missing a required slot
+// is held while the user is asked for it ("Who should I message?"), and destructive intents are
+// only released once the user says yes. "Cancel" ends the conversation at any step. Screens never
+// see the in-between turns: they get DIALOGUE_TURN_INTENT, and the question to ask is left here
+// for UserApp to pick up with takePrompt() once the screen has finished with the command.
+
+export interface DialoguePrompt {
+  key: string;
+  options?: { [key: string]: string | number };
+}
+
+export const DIALOGUE_TURN_INTENT = 'intent_dialogue_turn';
+
+// A question left unanswered this long is dropped, so a later command isn't taken as the answer.
+const DIALOGUE_TIMEOUT_MS = 30 * 1000;
+
+const REQUIRED_SLOTS: Record<string, { slot: string; promptKey: string }[]> = {
+  intent_send_message: [{ slot: 'target_name', promptKey: 'ask_message_recipient' }],
+  intent_open_chat: [{ slot: 'target_name', promptKey: 'ask_message_recipient' }],
+  intent_search_user: [{ slot: 'target_name', promptKey: 'ask_search_name' }],
+  intent_delete_chat: [{ slot: 'target_name', promptKey: 'ask_delete_chat_name' }],
+  intent_update_profile: [
+    { slot: 'field', promptKey: 'ask_profile_field' },
+    { slot: 'value', promptKey: 'ask_profile_value' },
+  ],
+};
+
+const CONFIRMATION_PROMPTS: Record<string, (slots: NonNullable<NLUResponse['slots']>) => DialoguePrompt> = {
+  intent_deactivate_account: () => ({ key: 'confirm_deactivate_account' }),
+  intent_delete_chat: slots => ({ key: 'confirm_delete_chat', options: { name: slots.target_name } }),
+  intent_unfriend_user: slots => slots.target_name
+    ? { key: 'confirm_unfriend', options: { name: slots.target_name } }
+    : { key: 'confirm_unfriend_current' },
+};
+
+// Spoken answers to "which field?", mapped to the keys SettingsScreen updates.
+const PROFILE_FIELDS = new Map(Object.entries({
+  name: 'name', 'নাম': 'name',
+  bio: 'bio', about: 'bio', 'বায়ো': 'bio',
+  work: 'work', job: 'work', 'কাজ': 'work',
+  education: 'education', school: 'education', college: 'education', 'শিক্ষা': 'education',
+  hometown: 'hometown', 'home town': 'hometown', 'গ্রামের বাড়ি': 'hometown',
+  city: 'currentCity', 'current city': 'currentCity', 'শহর': 'currentCity',
+  relationship: 'relationshipStatus', 'relationship status': 'relationshipStatus',
+}).map(([spoken, field]) => [spoken.normalize('NFC'), field]));
+
+// Slots whose answers must come from a fixed set; anything else is asked again.
+const SLOT_ANSWERS: Record<string, (answer: string) => string | undefined> = {
+  field: answer => PROFILE_FIELDS.get(answer.toLowerCase().replace(/^(?:my|amar|আমার) /, '')),
+};
+
+interface PendingDialogue {
+  response: NLUResponse;
+  awaiting: 'slot' | 'confirmation';
+  slot?: string;
+  question: DialoguePrompt;
+  askedAt: number;
+}
+
+let pending: PendingDialogue | null = null;
+let prompt: DialoguePrompt | null = null;
+
+const ask = (dialogue: Omit<PendingDialogue, 'question' | 'askedAt'>, question: DialoguePrompt): NLUResponse => {
+  pending = { ...dialogue, question, askedAt: Date.now() };
+  prompt = question;
+  return { intent: DIALOGUE_TURN_INTENT };
+};
+
+const cancel = (): NLUResponse => {
+  pending = null;
+  prompt = { key: 'dialogue_cancelled' };
+  return { intent: DIALOGUE_TURN_INTENT };
+};
+
+// Asks for the first missing slot, then for confirmation, and only then hands the intent over.
+const advance = (response: NLUResponse): NLUResponse => {
+  const missing = (REQUIRED_SLOTS[response.intent] || []).find(({ slot }) => !response.slots?.[slot]);
+  if (missing) {
+    return ask({ response, awaiting: 'slot', slot: missing.slot }, { key: missing.promptKey, options: response.slots });
+  }
+  const confirmationPrompt = CONFIRMATION_PROMPTS[response.intent];
+  if (confirmationPrompt && !response.confirmed) {
+    return ask({ response, awaiting: 'confirmation' }, confirmationPrompt(response.slots || {}));
+  }
+  pending = null;
+  return response;
+};
+
+export const dialogueManager = {
+  // `parse` is the stateless NLU step; it is skipped when the reply can be read locally.
+  async handle(command: string, parse: (command: string) => Promise<NLUResponse>): Promise<NLUResponse> {
+    if (pending && Date.now() - pending.askedAt > DIALOGUE_TIMEOUT_MS) {
+      pending = null;
+    }
+    if (!pending) {
+      return advance(await parse(command));
+    }
+
+    const localMatch = matchIntent(command);
+    const localIntent = localMatch && localMatch.confidence >= MIN_LOCAL_CONFIDENCE ? localMatch.intent : null;
+    if (localIntent === 'intent_cancel' || localIntent === 'intent_deny') {
+      return cancel();
+    }
+
+    if (pending.awaiting === 'confirmation') {
+      // "Yes" and "no" are usually caught locally; anything longer goes to the NLU.
+      const answer = localIntent || (await parse(command)).intent;
+      if (answer === 'intent_confirm') return advance({ ...pending.response, confirmed: true });
+      if (answer === 'intent_cancel' || answer === 'intent_deny') return cancel();
+      return ask(pending, { key: 'confirm_repeat' });
+    }
+
+    // A recognisable command instead of an answer means the user has moved on.
+    if (localIntent && localIntent !== 'intent_confirm') {
+      pending = null;
+      return advance(await parse(command));
+    }
+
+    const slot = pending.slot as string;
+    const spoken = command.normalize('NFC').replace(/[?!.,।]+$/, '').trim();
+    const answer = SLOT_ANSWERS[slot] ? SLOT_ANSWERS[slot](spoken) : spoken;
+    if (!answer) {
+      return ask(pending, pending.question);
+    }
+    return advance({ ...pending.response, slots: { ...pending.response.slots, [slot]: answer } });
+  },
+
+  // The question or acknowledgement from the last turn, if any. Reading it clears it.
+  takePrompt(): DialoguePrompt | null {
+    const next = prompt;
+    prompt = null;
+    return next;
+  },
+
+  // True while a question is waiting for its answer.
+  isActive(): boolean {
+    return pending !== null && Date.now() - pending.askedAt <= DIALOGUE_TIMEOUT_MS;
+  },
+};
@@ -1,19 +1,20 @@
 // @ts-nocheck
 import {
     getFirestore, collection, doc, setDoc, getDoc, getDocs, updateDoc, addDoc, deleteDoc, onSnapshot,
-    query, where, orderBy, limit, runTransaction, writeBatch, documentId,
-    serverTimestamp, increment, arrayUnion, arrayRemove, deleteField, Timestamp,
+    query, where, orderBy, limit, startAfter, runTransaction, writeBatch, documentId,
+    serverTimestamp, increment, arrayUnion, arrayRemove, deleteField, Timestamp, getCountFromServer,
     type DocumentSnapshot, type QuerySnapshot
 } from 'firebase/firestore';
 import {
-    getAuth, onAuthStateChanged, createUserWithEmailAndPassword, signInWithEmailAndPassword, signOut,
-    type User as FirebaseUser
+    getAuth, onAuthStateChanged, createUserWithEmailAndPassword, signInWithEmailAndPassword, signOut, sendEmailVerification,
+    getMultiFactorResolver, multiFactor, TotpMultiFactorGenerator,
+    type User as FirebaseUser, type MultiFactorResolver, type TotpSecret
 } from 'firebase/auth';
 import { getStorage, ref, uploadBytes, getDownloadURL, uploadString } from 'firebase/storage';
 
 import { db, auth, storage } from './firebaseConfig';
-import { User, Post, Comment, Message, ReplyInfo, Story, Group, Campaign, LiveAudioRoom, LiveVideoRoom, Report, Notification, Lead, Author, AdminUser, FriendshipStatus, ChatSettings, Conversation, Call, LiveAudioRoomMessage, LiveVideoRoomMessage, VideoParticipantState, GroupChat } from '../types';
-import { DEFAULT_AVATARS, DEFAULT_COVER_PHOTOS, CLOUDINARY_CLOUD_NAME, CLOUDINARY_UPLOAD_PRESET, SPONSOR_CPM_BDT } from '../constants';
+import { User, Post, Comment, Message, ReplyInfo, Story, StoryReplyInfo, StoryViewer, Group, Campaign, LiveAudioRoom, LiveVideoRoom, Report, Notification, Lead, Author, AdminUser, FriendshipStatus, ChatSettings, Conversation, Call, LiveAudioRoomMessage, LiveVideoRoomMessage, VideoParticipantState, GroupChat, GroupChatMessage, Event, EventAttendee, EventRsvpStatus, DashboardStats, DashboardTimeSeriesPoint, AdminAuditAction, AdminAuditLogEntry, AdminAuditLogFilters, AdminInvite, ReportResolutionAction, CampaignStatCounts, CampaignDailyStats, Payment, PaymentSubmission, PaymentStatementRow, PaymentReconciliationResult, CoinTransaction, CoinTransactionReason, CoinGiftContext, LiveRoomGift, VoiceCommandHistoryEntry, VoiceCommandMiss } from '../types';
+import { DEFAULT_AVATARS, DEFAULT_COVER_PHOTOS, CLOUDINARY_CLOUD_NAME, CLOUDINARY_UPLOAD_PRESET, SPONSOR_CPM_BDT, CAMPAIGN_DEFAULT_DURATION_DAYS, AD_FREQUENCY_CAP_PER_DAY, ACTIVE_CAMPAIGN_PAGE_SIZE, STORY_LIFETIME_HOURS, GROUP_CHAT_PAGE_SIZE, ADMIN_AUDIT_LOG_PAGE_SIZE, EVENT_REMINDER_HOURS, ADMIN_INVITE_EXPIRY_DAYS, REPORT_SUSPENSION_DAYS, AD_INTEREST_MIN_REACTIONS, AUDIENCE_SAMPLE_SIZE, BANGLADESH_DISTRICTS, findBangladeshDistrict, normalizeBangladeshMobileNumber, REWARD_AD_COIN_VALUE, REWARD_AD_DAILY_LIMIT, SIGNUP_COIN_BONUS, COIN_GIFT_MAX_AMOUNT } from '../constants';
 
 
 // --- Helper Functions ---
@@ -41,6 +42,12 @@ const docToUser = (doc: DocumentSnapshot): User => {
     }
     if (user.commentingSuspendedUntil && user.commentingSuspendedUntil instanceof Timestamp) {
         user.commentingSuspendedUntil = user.commentingSuspendedUntil.toDate().toISOString();
+    }
+    if (user.postingSuspendedUntil && user.postingSuspendedUntil instanceof Timestamp) {
+        user.postingSuspendedUntil = user.postingSuspendedUntil.toDate().toISOString();
+    }
+    if (user.bannedAt && user.bannedAt instanceof Timestamp) {
+        user.bannedAt = user.bannedAt.toDate().toISOString();
     }
      if (user.lastActiveTimestamp && user.lastActiveTimestamp instanceof Timestamp) {
         user.lastActiveTimestamp = user.lastActiveTimestamp.toDate().toISOString();
@@ -49,6 +56,21 @@ const docToUser = (doc: DocumentSnapshot): User => {
     return user;
 }
 
+// Image reactions are stored per user, imageReactionsByUser[userId][imageId], so rules can keep each
+// user to their own entry. Older posts hold theirs in imageReactions[imageId][userId]; a null in the
+// per-user map clears such an older reaction.
+const mergeImageReactions = (legacy: any = {}, byUser: any = {}): { [imageId: string]: { [userId: string]: string } } => {
+    const merged = Object.fromEntries(Object.entries(legacy).map(([imageId, reactions]: [string, any]) => [imageId, { ...reactions }]));
+    for (const [userId, images] of Object.entries(byUser) as [string, any][]) {
+        for (const [imageId, emoji] of Object.entries(images || {})) {
+            merged[imageId] = merged[imageId] || {};
+            if (emoji) merged[imageId][userId] = emoji;
+            else delete merged[imageId][userId];
+        }
+    }
+    return merged;
+};
+
 const docToPost = (doc: DocumentSnapshot): Post => {
     const data = doc.data() || {};
     return {
@@ -56,6 +78,7 @@ const docToPost = (doc: DocumentSnapshot): Post => {
         id: doc.id,
         createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
         reactions: data.reactions || {},
+        imageReactions: mergeImageReactions(data.imageReactions, data.imageReactionsByUser),
         comments: (data.comments || []).map((c: any) => ({
             ...c,
             createdAt: c.createdAt instanceof Timestamp ? c.createdAt.toDate().toISOString() : new Date().toISOString(),
@@ -64,6 +87,101 @@ const docToPost = (doc: DocumentSnapshot): Post => {
     } as Post;
 }
 
+const docToStory = (doc: DocumentSnapshot): Story => {
+    const data = doc.data() || {};
+    return {
+        ...data,
+        id: doc.id,
+        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+        expiresAt: data.expiresAt instanceof Timestamp ? data.expiresAt.toDate().toISOString() : data.expiresAt,
+        viewedBy: data.viewedBy || [],
+        viewerTimestamps: Object.fromEntries(Object.entries(data.viewerTimestamps || {}).map(([userId, ts]: [string, any]) => [
+            userId,
+            ts instanceof Timestamp ? ts.toDate().toISOString() : ts,
+        ])),
+        reactions: data.reactions || {},
+        privacy: data.privacy || 'public',
+    } as Story;
+}
+
+// Mirrors the feed's visibility rules: blocked authors are hidden both ways,
+// and 'friends' stories are only shown to people on the author's friend list.
+const canViewStory = (story: Story, author: User, viewer: User): boolean => {
+    const authorId = story.author.id;
+    if (authorId === viewer.id) return true;
+    if ((viewer.blockedUserIds || []).includes(authorId)) return false;
+    if ((author.blockedUserIds || []).includes(viewer.id)) return false;
+    if (story.expiresAt && new Date(story.expiresAt) <= new Date()) return false;
+    if (story.privacy === 'friends') {
+        return (viewer.friendIds || []).includes(authorId);
+    }
+    return true;
+};
+
+const docToGroupChatMessage = (doc: DocumentSnapshot): GroupChatMessage => {
+    const data = doc.data() || {};
+    return {
+        ...data,
+        id: doc.id,
+        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+        reactions: data.reactions || {},
+    } as GroupChatMessage;
+}
+
+const docToEvent = (doc: DocumentSnapshot): Event => {
+    const data = doc.data() || {};
+    const toIso = (value: any) => value instanceof Timestamp ? value.toDate().toISOString() : value;
+    const attendees: EventAttendee[] = Object.values(data.rsvps || {}).map((rsvp: any) => ({
+        ...rsvp,
+        respondedAt: toIso(rsvp.respondedAt),
+    }));
+    return {
+        id: doc.id,
+        groupId: data.groupId,
+        groupName: data.groupName,
+        creator: data.creator,
+        title: data.title,
+        description: data.description,
+        date: toIso(data.date),
+        endDate: data.endDate ? toIso(data.endDate) : undefined,
+        attendees,
+    } as Event;
+}
+
+const createGroupChatSnippet = (message: Partial<GroupChatMessage>): string => {
+    if (message.isDeleted) return 'Message deleted';
+    if (message.mediaType === 'image') return 'Photo';
+    if (message.mediaType === 'video') return 'Video';
+    if (message.audioUrl) return `Voice message · ${message.duration || 0}s`;
+    return message.text || '';
+};
+
+const docToCampaign = (doc: DocumentSnapshot): Campaign => {
+    const data = doc.data() || {};
+    const toIso = (value: any) => value instanceof Timestamp ? value.toDate().toISOString() : value;
+    return {
+        ...data,
+        id: doc.id,
+        createdAt: toIso(data.createdAt) || new Date().toISOString(),
+        startedAt: toIso(data.startedAt),
+        finishedAt: toIso(data.finishedAt),
+        views: data.views || 0,
+        clicks: data.clicks || 0,
+    } as Campaign;
+};
+
+const docToPayment = (doc: DocumentSnapshot): Payment => {
+    const data = doc.data() || {};
+    const toIso = (value: any) => value instanceof Timestamp ? value.toDate().toISOString() : value;
+    return {
+        ...data,
+        id: doc.id,
+        createdAt: toIso(data.createdAt) || new Date().toISOString(),
+        verifiedAt: toIso(data.verifiedAt),
+        reconciledAt: toIso(data.reconciledAt),
+    } as Payment;
+};
+
 const getDailyCollectionId = (date: Date | string): string => {
     const d = typeof date === 'string' ? new Date(date) : date;
     const year = d.getUTCFullYear();
@@ -96,6 +214,9 @@ const _createNotification = async (recipientId: string, type: Notification['type
             group_post: settings.groupPosts !== false,
             group_join_request: true, // Always on for admins/mods
             group_request_approved: true, // Always on for the user
+            event_reminder: settings.groupPosts !== false,
+            report_resolved: true, // Always on for the reporter
+            coins_received: true, // Always on for the recipient
         }[type] ?? true;
         
         if (!isEnabled) {
@@ -126,6 +247,10 @@ const _createNotification = async (recipientId: string, type: Notification['type
             campaignName: options.campaignName,
             rejectionReason: options.rejectionReason,
             message: options.message,
+            eventId: options.eventId,
+            eventTitle: options.eventTitle,
+            eventDate: options.eventDate,
+            coinAmount: options.coinAmount,
         };
 
         await addDoc(notificationRef, removeUndefined(notificationData));
@@ -134,6 +259,174 @@ const _createNotification = async (recipientId: string, type: Notification['type
     }
 };
 
+const getBanMessage = (user: Pick<User, 'banReason'>): string =>
+    user.banReason ? `This account has been banned. Reason: ${user.banReason}` : "This account has been banned.";
+
+const _getActiveSuspension = (user: User, kind: 'posting' | 'commenting'): Date | null => {
+    const until = kind === 'posting' ? user.postingSuspendedUntil : user.commentingSuspendedUntil;
+    if (!until) return null;
+    const untilDate = new Date(until);
+    return untilDate > new Date() ? untilDate : null;
+};
+
+// Reads the author's current profile so a suspension applied after the client loaded still takes effect.
+const _assertCanPublish = async (userId: string, kind: 'posting' | 'commenting'): Promise<void> => {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    if (!userDoc.exists()) throw new Error("User profile not found.");
+    const user = docToUser(userDoc);
+    if (user.isBanned) throw new Error(getBanMessage(user));
+    const suspendedUntil = _getActiveSuspension(user, kind);
+    if (suspendedUntil) {
+        throw new Error(`Your ${kind} privileges are suspended until ${suspendedUntil.toLocaleString()}.`);
+    }
+};
+
+// Notifications require a complete author object, so admin-originated ones use this shared actor.
+const ADMIN_ACTOR = { id: 'admin', name: 'VoiceBook Admin', username: 'voicebook', avatarUrl: DEFAULT_AVATARS[0] } as User;
+// Automatic notifications, such as event reminders, come from VoiceBook itself rather than a person.
+const SYSTEM_ACTOR = { id: 'system', name: 'VoiceBook', username: 'voicebook', avatarUrl: DEFAULT_AVATARS[0] } as User;
+
+const REPORT_RESOLUTION_LABELS: Record<ReportResolutionAction, string> = {
+    dismiss: 'Dismissed',
+    delete_content: 'Content removed',
+    warn: 'User warned',
+    suspend: `User suspended for ${REPORT_SUSPENSION_DAYS} days`,
+    ban: 'User banned',
+};
+
+// Held between the password step and the TOTP step of an admin sign-in.
+let pendingAdminMfaResolver: MultiFactorResolver | null = null;
+let pendingTotpSecret: TotpSecret | null = null;
+
+// An account is an admin if it carries the `admin` custom claim or its profile has role 'admin'.
+// A pending invite for the account's email is redeemed on its first admin sign-in, once the
+// email address is verified.
+const _resolveAdminAccess = async (firebaseUser: FirebaseUser): Promise<AdminUser> => {
+    const tokenResult = await firebaseUser.getIdTokenResult(true);
+    const userRef = doc(db, 'users', firebaseUser.uid);
+    const userDoc = await getDoc(userRef);
+    const profile = userDoc.exists() ? docToUser(userDoc) : null;
+    const email = (firebaseUser.email || profile?.email || '').toLowerCase();
+
+    let isAdmin = tokenResult.claims.admin === true || profile?.role === 'admin';
+    if (!isAdmin && profile && email) {
+        const inviteRef = doc(db, 'adminInvites', email);
+        if (!firebaseUser.emailVerified) {
+            const inviteDoc = await getDoc(inviteRef);
+            if (inviteDoc.exists() && inviteDoc.data().status === 'pending') {
+                await sendEmailVerification(firebaseUser).catch(error => console.warn("Could not send verification email:", error.message));
+                await signOut(auth);
+                throw new Error("Verify your email address to accept your admin invite. We've sent you a verification link.");
+            }
+        }
+        // The role change and the acceptance commit together; the rules only grant the role alongside it.
+        isAdmin = firebaseUser.emailVerified && await runTransaction(db, async (transaction) => {
+            const inviteDoc = await transaction.get(inviteRef);
+            if (!inviteDoc.exists()) return false;
+            const invite = inviteDoc.data();
+            const expiresAt = invite.expiresAt instanceof Timestamp ? invite.expiresAt.toMillis() : 0;
+            if (invite.status !== 'pending' || expiresAt < Date.now()) return false;
+            transaction.update(userRef, { role: 'admin' });
+            transaction.update(inviteRef, { status: 'accepted', acceptedBy: firebaseUser.uid, acceptedAt: serverTimestamp() });
+            return true;
+        });
+    }
+
+    if (!isAdmin) {
+        await signOut(auth);
+        throw new Error("This account does not have admin access.");
+    }
+    if (profile?.isBanned || profile?.isDeactivated) {
+        await signOut(auth);
+        throw new Error("This account is disabled.");
+    }
+
+    return {
+        id: firebaseUser.uid,
+        email,
+        name: profile?.name,
+        mfaEnabled: multiFactor(firebaseUser).enrolledFactors.some(f => f.factorId === TotpMultiFactorGenerator.FACTOR_ID),
+    };
+};
+
+const _pickAuditFields = (data: any, fields: string[]): { [key: string]: any } => {
+    const picked: { [key: string]: any } = {};
+    for (const field of fields) {
+        const value = data?.[field];
+        picked[field] = value instanceof Timestamp ? value.toDate().toISOString() : (value ?? null);
+    }
+    return picked;
+};
+
+const _logAdminAction = async (
+    admin: AdminUser,
+    action: AdminAuditAction,
+    target: { type: AdminAuditLogEntry['targetType']; id: string },
+    details: { before?: { [key: string]: any } | null; after?: { [key: string]: any } | null; reason?: string } = {}
+) => {
+    try {
+        await addDoc(collection(db, 'adminAuditLog'), removeUndefined({
+            adminId: admin.id,
+            adminEmail: admin.email,
+            action,
+            targetType: target.type,
+            targetId: target.id,
+            before: details.before ?? null,
+            after: details.after ?? null,
+            reason: details.reason || undefined,
+            createdAt: serverTimestamp(),
+        }));
+    } catch (error) {
+        // The action itself already succeeded; a missing audit entry is logged rather than surfaced.
+        console.error(`Failed to write audit log entry for ${action} on ${target.type} ${target.id}:`, error);
+    }
+};
+
+// Applies an admin change to a user document and records the affected fields before and after.
+const _applyAdminUserUpdate = async (
+    admin: AdminUser,
+    userId: string,
+    action: AdminAuditAction,
+    updates: { [key: string]: any },
+    after: { [key: string]: any },
+    reason?: string
+): Promise<boolean> => {
+    const userRef = doc(db, 'users', userId);
+    try {
+        const userDoc = await getDoc(userRef);
+        if (!userDoc.exists()) return false;
+        const before = _pickAuditFields(userDoc.data(), Object.keys(after));
+        await updateDoc(userRef, updates);
+        await _logAdminAction(admin, action, { type: 'user', id: userId }, { before, after, reason });
+        return true;
+    } catch (error) {
+        console.error(`Admin action ${action} failed for user ${userId}:`, error);
+        return false;
+    }
+};
+
+const _countDocuments = async (q: any): Promise<number> => {
+    try {
+        const snapshot = await getCountFromServer(q);
+        return snapshot.data().count;
+    } catch (error) {
+        console.error("Error running count aggregation:", error);
+        return 0;
+    }
+};
+
+// Counts for days that are over don't change, so the admin dashboard keeps them in this browser and
+// only counts the days it hasn't seen yet, plus today.
+const DASHBOARD_DAILY_COUNTS_KEY = 'voicebook-admin-daily-counts';
+
+const _getCachedDailyCounts = (): { [date: string]: DashboardTimeSeriesPoint } => {
+    try {
+        return JSON.parse(localStorage.getItem(DASHBOARD_DAILY_COUNTS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
 const _parseMentions = async (text: string): Promise<string[]> => {
     const mentionRegex = /@([\w_]+)/g;
     const mentions = text.match(mentionRegex);
@@ -180,41 +473,381 @@ const uploadMediaToCloudinary = async (file: File | Blob, fileName: string): Pro
     return { url: data.secure_url, type: data.resource_type };
 };
 
-// --- Ad Targeting Helper ---
-const matchesTargeting = (campaign: Campaign, user: User): boolean => {
+// --- Ad Budget Pacing ---
+// Spend is derived from impressions at the flat CPM, rounded to the paisa.
+const _campaignSpendForViews = (views: number): number => Math.round(views * SPONSOR_CPM_BDT / 10) / 100;
+
+// Spreads what is left of a campaign's budget evenly over its remaining days, and within a day
+// releases it hour by hour so a budget isn't exhausted in the first hour after midnight (UTC).
+const _getCampaignPacing = (campaign: Campaign, now: Date = new Date()) => {
+    const today = getDailyCollectionId(now);
+    const spent = campaign.spent ?? _campaignSpendForViews(campaign.views || 0);
+    const spentToday = campaign.spendDate === today ? (campaign.spentToday || 0) : 0;
+    const remaining = Math.max(0, campaign.budget - spent);
+
+    const startedAt = new Date(campaign.startedAt || campaign.createdAt).getTime();
+    const daysElapsed = Math.max(0, Math.floor((now.getTime() - startedAt) / (24 * 60 * 60 * 1000)));
+    const daysLeft = Math.max(1, (campaign.durationDays || CAMPAIGN_DEFAULT_DURATION_DAYS) - daysElapsed);
+    const dailyBudget = (remaining + spentToday) / daysLeft;
+    const allowedSoFarToday = dailyBudget * (now.getUTCHours() + 1) / 24;
+
+    return { today, spent, spentToday, remaining, dailyBudget, allowedSoFarToday };
+};
+
+const _isCampaignDeliverable = (campaign: Campaign, now: Date = new Date()): boolean => {
+    if (campaign.status !== 'active') return false;
+    const { remaining, spentToday, allowedSoFarToday } = _getCampaignPacing(campaign, now);
+    return remaining > 0 && spentToday < allowedSoFarToday;
+};
+
+// --- Ad Targeting Helpers ---
+const _groupCategoryCache = new Map<string, GroupCategory | null>();
+
+// Resolves group ids to their categories, caching across calls since a group's category rarely changes.
+const _getGroupCategories = async (groupIds: string[]): Promise<Map<string, GroupCategory | null>> => {
+    const missing = [...new Set(groupIds)].filter(id => !_groupCategoryCache.has(id));
+    for (let i = 0; i < missing.length; i += 30) {
+        const chunk = missing.slice(i, i + 30);
+        try {
+            const snapshot = await getDocs(query(collection(db, 'groups'), where(documentId(), 'in', chunk)));
+            const found = new Map(snapshot.docs.map(d => [d.id, (d.data().category as GroupCategory) || null]));
+            chunk.forEach(id => _groupCategoryCache.set(id, found.get(id) ?? null));
+        } catch (error) {
+            console.error("Error loading group categories:", error);
+        }
+    }
+    return _groupCategoryCache;
+};
+
+// A user's interests are the topics they follow, the categories of the groups they belong to,
+// and the categories whose group posts they keep reacting to. 'General' says nothing about a person.
+const _getUserInterests = async (user: User): Promise<Set<string>> => {
+    const categories = await _getGroupCategories(user.groupIds || []);
+    const interests = new Set<string>(user.followedTopics || []);
+    (user.groupIds || []).forEach(id => {
+        const category = categories.get(id);
+        if (category) interests.add(category);
+    });
+    Object.entries(user.interestScores || {}).forEach(([category, score]) => {
+        if (score >= AD_INTEREST_MIN_REACTIONS) interests.add(category);
+    });
+    interests.delete('General');
+    return interests;
+};
+
+const _getUserDistrict = (user: User) =>
+    BANGLADESH_DISTRICTS.find(d => d.name === user.district) || findBangladeshDistrict(user.currentCity);
+
+const _distanceKm = (a: { lat: number; lng: number }, b: { lat: number; lng: number }): number => {
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 6371 * 2 * Math.asin(Math.sqrt(h));
+};
+
+// Parses "18-25" and "50+" style ranges.
+const _parseAgeRange = (ageRange: string): { min: number; max: number } | null => {
+    const match = ageRange.trim().match(/^(\d+)\s*(?:-\s*(\d+)|\+)$/);
+    if (!match) return null;
+    return { min: parseInt(match[1], 10), max: match[2] ? parseInt(match[2], 10) : Infinity };
+};
+
+// Every targeting criterion the sponsor set must be known on the profile and match it;
+// a user who hasn't told us their age is not in an age-targeted audience.
+const matchesTargeting = (campaign: Campaign, user: User, userInterests: Set<string>): boolean => {
     if (!campaign.targeting) return true; // No targeting set, matches everyone
-    const { location, gender, ageRange, interests } = campaign.targeting;
+    const { location, radiusKm, gender, ageRange, interests } = campaign.targeting;
 
-    // Location check
-    if (location && user.currentCity && location.toLowerCase().trim() !== user.currentCity.toLowerCase().trim()) {
-        return false;
+    if (location) {
+        const targetDistrict = findBangladeshDistrict(location);
+        const userDistrict = _getUserDistrict(user);
+        if (!targetDistrict || !userDistrict) return false;
+        if (userDistrict.name !== targetDistrict.name && _distanceKm(userDistrict, targetDistrict) > (radiusKm || 0)) {
+            return false;
+        }
     }
 
-    // Gender check
-    if (gender && gender !== 'All' && user.gender && gender !== user.gender) {
+    if (gender && gender !== 'All' && gender !== user.gender) {
         return false;
     }
 
-    // Age range check
-    if (ageRange && user.age) {
-        const [min, max] = ageRange.split('-').map(part => parseInt(part, 10));
-        if (user.age < min || user.age > max) {
-            return false;
-        }
+    const range = ageRange ? _parseAgeRange(ageRange) : null;
+    if (range && (!user.age || user.age < range.min || user.age > range.max)) {
+        return false;
     }
 
-    // Interests check (simple bio check)
-    if (interests && interests.length > 0 && user.bio) {
-        const userBioLower = user.bio.toLowerCase();
-        const hasMatchingInterest = interests.some(interest => userBioLower.includes(interest.toLowerCase()));
-        if (!hasMatchingInterest) {
-            return false;
-        }
+    if (interests && interests.length > 0 && !interests.some(interest => userInterests.has(interest))) {
+        return false;
     }
 
     return true;
 };
 
+// Picks a random sample of eligible profiles once per session. Auto-generated user ids are
+// random, so the first N by id are an unbiased sample of the whole user base.
+let _audienceSamplePromise: Promise<{ sample: { user: User; interests: Set<string> }[]; total: number }> | null = null;
+
+const _getAudienceSample = () => {
+    if (!_audienceSamplePromise) {
+        _audienceSamplePromise = (async () => {
+            const [snapshot, total] = await Promise.all([
+                getDocs(query(collection(db, 'users'), orderBy(documentId()), limit(AUDIENCE_SAMPLE_SIZE))),
+                _countDocuments(collection(db, 'users')),
+            ]);
+            const users = snapshot.docs.map(docToUser).filter(u => !u.isBanned && !u.isDeactivated);
+            await _getGroupCategories(users.flatMap(u => u.groupIds || []));
+            const sample = await Promise.all(users.map(async user => ({ user, interests: await _getUserInterests(user) })));
+            return { sample, total: total * (snapshot.size ? users.length / snapshot.size : 1) };
+        })().catch(error => {
+            _audienceSamplePromise = null;
+            throw error;
+        });
+    }
+    return _audienceSamplePromise;
+};
+
+// --- Campaign Analytics ---
+// The audience segments an ad event is attributed to, matching the sponsor targeting options.
+const _getAudienceSegments = (viewer?: User | null) => {
+    const age = viewer?.age;
+    const ageBand = !age ? 'Unknown'
+        : age < 18 ? 'Under 18'
+        : age <= 25 ? '18-25'
+        : age <= 35 ? '26-35'
+        : age <= 50 ? '36-50'
+        : '50+';
+    return {
+        city: (viewer && _getUserDistrict(viewer)?.name) || viewer?.currentCity?.trim() || 'Unknown',
+        gender: viewer?.gender || 'Unknown',
+        ageBand,
+    };
+};
+
+// A merge payload for campaigns/{id}/dailyStats/{day} that bumps one metric, overall and per segment.
+// lastEvent names the metric and segments so the security rules can check that only those moved.
+const _campaignStatsUpdate = (metric: keyof CampaignStatCounts, viewer?: User | null, spend: number = 0) => {
+    const segments = _getAudienceSegments(viewer);
+    const now = new Date();
+    return {
+        date: now.toISOString().slice(0, 10),
+        [metric]: increment(1),
+        ...(spend > 0 ? { spend: increment(spend) } : {}),
+        lastEvent: { metric, ...segments },
+        breakdown: {
+            city: { [segments.city]: { [metric]: increment(1) } },
+            gender: { [segments.gender]: { [metric]: increment(1) } },
+            ageBand: { [segments.ageBand]: { [metric]: increment(1) } },
+        },
+    };
+};
+
+const _campaignStatsRef = (campaignId: string) => doc(db, 'campaigns', campaignId, 'dailyStats', getDailyCollectionId(new Date()));
+
+const _recordCampaignStat = async (campaignId: string, metric: keyof CampaignStatCounts, viewer?: User | null) => {
+    try {
+        await setDoc(_campaignStatsRef(campaignId), _campaignStatsUpdate(metric, viewer), { merge: true });
+    } catch (error) {
+        console.error(`Failed to record ${metric} for campaign ${campaignId}:`, error);
+    }
+};
+
+// --- Ad Selection ---
+// Per-user impression counts for the current UTC day, keyed by campaign id.
+const _getAdImpressionsToday = async (userId: string): Promise<{ [campaignId: string]: number }> => {
+    try {
+        const impressionsDoc = await getDoc(doc(db, 'users', userId, 'adImpressions', getDailyCollectionId(new Date())));
+        return impressionsDoc.exists() ? impressionsDoc.data() : {};
+    } catch (error) {
+        console.error("Failed to load ad impressions:", error);
+        return {};
+    }
+};
+
+// Every active campaign of a type, read in pages so none are left out of the lottery.
+const _getActiveCampaigns = async (adType: Campaign['adType']): Promise<Campaign[]> => {
+    const campaigns: Campaign[] = [];
+    let lastDoc: DocumentSnapshot | null = null;
+    while (true) {
+        const constraints = [where('status', '==', 'active'), where('adType', '==', adType), orderBy(documentId())];
+        if (lastDoc) constraints.push(startAfter(lastDoc));
+        const snapshot = await getDocs(query(collection(db, 'campaigns'), ...constraints, limit(ACTIVE_CAMPAIGN_PAGE_SIZE)));
+        campaigns.push(...snapshot.docs.map(docToCampaign));
+        if (snapshot.docs.length < ACTIVE_CAMPAIGN_PAGE_SIZE) return campaigns;
+        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    }
+};
+
+// Runs a weighted lottery among the eligible campaigns. A campaign's weight is the number of
+// impressions its remaining budget still buys at its CPM, divided down by how often this user
+// has already seen it today, so large budgets win more often without locking out small ones.
+const _selectCampaignForUser = async (adType: Campaign['adType'], user: User): Promise<Campaign | null> => {
+    const [activeCampaigns, impressionsToday, userInterests] = await Promise.all([_getActiveCampaigns(adType), _getAdImpressionsToday(user.id), _getUserInterests(user)]);
+    if (activeCampaigns.length === 0) return null;
+
+    const now = new Date();
+    const candidates = activeCampaigns
+        .filter(c => c.sponsorId !== user.id)
+        .filter(c => (impressionsToday[c.id] || 0) < AD_FREQUENCY_CAP_PER_DAY)
+        .filter(c => _isCampaignDeliverable(c, now) && matchesTargeting(c, user, userInterests))
+        .map(campaign => {
+            const remainingImpressions = _getCampaignPacing(campaign, now).remaining / SPONSOR_CPM_BDT * 1000;
+            return { campaign, weight: remainingImpressions / (1 + (impressionsToday[campaign.id] || 0)) };
+        });
+    if (candidates.length === 0) return null;
+
+    const totalWeight = candidates.reduce((sum, c) => sum + c.weight, 0);
+    let ticket = Math.random() * totalWeight;
+    for (const candidate of candidates) {
+        ticket -= candidate.weight;
+        if (ticket <= 0) return candidate.campaign;
+    }
+    return candidates[candidates.length - 1].campaign;
+};
+
+// --- Voice Coins ---
+type CoinTransactionResult = {
+    success: boolean;
+    balance?: number;
+    reason?: 'insufficient_balance' | 'daily_limit_reached' | 'invalid_amount' | 'not_friends' | 'recipient_unavailable' | 'failed';
+};
+
+// Sets a ledger entry and the balance it produces. The user document points at the entry via
+// lastCoinTransactionId, which is how the security rules tie every balance change to exactly one
+// ledger entry. Callers must have read the balance already: transactions do all reads before writes.
+const _setCoinEntry = (
+    transaction: any,
+    userId: string,
+    entryId: string,
+    entry: Omit<CoinTransaction, 'id' | 'balanceAfter' | 'createdAt'>,
+    balanceAfter: number
+) => {
+    transaction.set(doc(db, 'users', userId, 'coinTransactions', entryId), removeUndefined({ ...entry, balanceAfter, createdAt: serverTimestamp() }));
+    transaction.update(doc(db, 'users', userId), { voiceCoins: balanceAfter, lastCoinTransactionId: entryId });
+};
+
+// Writes a ledger entry and the balance it produces inside a Firestore transaction.
+const _writeCoinTransaction = async (
+    transaction: any,
+    userId: string,
+    entry: { type: 'earn' | 'spend'; amount: number; reason: CoinTransactionReason; referenceId?: string }
+): Promise<number> => {
+    const userDoc = await transaction.get(doc(db, 'users', userId));
+    if (!userDoc.exists()) throw new Error("User not found");
+
+    const balance = userDoc.data().voiceCoins || 0;
+    const balanceAfter = entry.type === 'earn' ? balance + entry.amount : balance - entry.amount;
+    if (balanceAfter < 0) throw new Error('insufficient_balance');
+
+    _setCoinEntry(transaction, userId, doc(collection(db, 'users', userId, 'coinTransactions')).id, entry, balanceAfter);
+    return balanceAfter;
+};
+
+const _liveRoomCollection = (context: CoinGiftContext): string | null =>
+    context === 'live_audio_room' ? 'liveAudioRooms' : context === 'live_video_room' ? 'liveVideoRooms' : null;
+
+// --- Voice Command History ---
+// Misses are keyed by a SHA-256 of the phrase, so everyone saying the same thing bumps one counter
+// whatever the phrase's length or script.
+const _commandMissId = async (phrase: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(phrase));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const _recordCommandMiss = async (
+    entry: Pick<VoiceCommandHistoryEntry, 'rawTranscript' | 'correctedTranscript' | 'intent' | 'expectedMeaning'>,
+    kind: 'unknown' | 'misrecognized'
+) => {
+    const phrase = entry.correctedTranscript.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+    if (!phrase) return;
+    await setDoc(doc(db, 'voiceCommandMisses', await _commandMissId(phrase)), removeUndefined({
+        phrase,
+        count: increment(1),
+        unknownCount: increment(kind === 'unknown' ? 1 : 0),
+        misrecognizedCount: increment(kind === 'misrecognized' ? 1 : 0),
+        lastIntent: entry.intent,
+        lastExpectedMeaning: entry.expectedMeaning,
+        lastRawTranscript: entry.rawTranscript,
+        lastSeenAt: serverTimestamp(),
+    }), { merge: true });
+};
+
+// --- Payments ---
+const _normalizeTransactionId = (transactionId: string): string =>
+    (transactionId || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Sponsors may read their own payments and ids nobody has claimed yet, so a denied read means
+// another sponsor already submitted this transaction id.
+const _paymentExists = async (paymentRef): Promise<boolean> => {
+    try {
+        return (await getDoc(paymentRef)).exists();
+    } catch (error) {
+        return error?.code === 'permission-denied';
+    }
+};
+
+// Verifies or fails a pending payment. Verifying activates its campaign; failing rejects it.
+const _settlePayment = async (
+    paymentId: string,
+    outcome: 'verified' | 'failed',
+    admin: AdminUser,
+    options: { reason?: string; reconciled?: boolean } = {}
+): Promise<boolean> => {
+    const paymentRef = doc(db, 'payments', paymentId);
+    try {
+        const payment = await runTransaction(db, async (transaction) => {
+            const paymentDoc = await transaction.get(paymentRef);
+            if (!paymentDoc.exists()) throw new Error("Payment not found");
+            const payment = paymentDoc.data();
+            if (payment.status !== 'pending') throw new Error(`Payment is already ${payment.status}`);
+            const campaignRef = doc(db, 'campaigns', payment.campaignId);
+            const campaignDoc = await transaction.get(campaignRef);
+            // A payment only ever covers its campaign's whole budget, so an underpayment is never verified.
+            if (outcome === 'verified' && campaignDoc.exists() && Math.abs(payment.amount - campaignDoc.data().budget) > 0.005) {
+                throw new Error("Payment amount does not match the campaign budget");
+            }
+
+            transaction.update(paymentRef, removeUndefined({
+                status: outcome,
+                verifiedBy: admin.id,
+                verifiedByEmail: admin.email,
+                verifiedAt: serverTimestamp(),
+                failureReason: outcome === 'failed' ? options.reason : undefined,
+                reconciledAt: options.reconciled ? serverTimestamp() : undefined,
+            }));
+            if (campaignDoc.exists()) {
+                const activate = outcome === 'verified' && campaignDoc.data().status === 'pending';
+                transaction.update(campaignRef, {
+                    paymentStatus: outcome,
+                    paymentVerifiedBy: admin.id,
+                    paymentVerifiedAt: serverTimestamp(),
+                    ...(activate ? { status: 'active', startedAt: serverTimestamp() } : {}),
+                    ...(outcome === 'failed' ? { status: 'rejected' } : {}),
+                });
+            }
+            return payment;
+        });
+
+        await _logAdminAction(admin, outcome === 'verified' ? 'verify_payment' : 'reject_payment', { type: 'payment', id: paymentId }, {
+            before: { status: 'pending' },
+            after: { status: outcome, campaignId: payment.campaignId, amount: payment.amount, ...(options.reconciled ? { reconciled: true } : {}) },
+            reason: options.reason,
+        });
+        if (outcome === 'verified') {
+            await _createNotification(payment.sponsorId, 'campaign_approved', ADMIN_ACTOR, { campaignName: payment.sponsorName });
+        } else {
+            await _createNotification(payment.sponsorId, 'campaign_rejected', ADMIN_ACTOR, {
+                campaignName: payment.sponsorName,
+                rejectionReason: options.reason || 'We could not verify your payment.',
+            });
+        }
+        return true;
+    } catch (error) {
+        console.error(`Error marking payment ${paymentId} as ${outcome}:`, error);
+        return false;
+    }
+};
+
 // --- Service Definition ---
 export const firebaseService = {
     // --- Authentication ---
@@ -246,6 +879,7 @@ export const firebaseService = {
             if (user) {
                 const userRef = doc(db, 'users', user.uid);
                 const usernameRef = doc(db, 'usernames', username.toLowerCase());
+                const bonusRef = doc(collection(db, 'users', user.uid, 'coinTransactions'));
 
                 const newUserProfile: Omit<User, 'id' | 'createdAt'> = {
                     name: fullName,
@@ -258,7 +892,8 @@ export const firebaseService = {
                     privacySettings: { postVisibility: 'public', friendRequestPrivacy: 'everyone', friendListVisibility: 'friends' },
                     notificationSettings: { likes: true, comments: true, friendRequests: true },
                     blockedUserIds: [],
-                    voiceCoins: 100,
+                    voiceCoins: SIGNUP_COIN_BONUS,
+                    lastCoinTransactionId: bonusRef.id,
                     friendIds: [],
                     groupIds: [],
                     onlineStatus: 'offline',
@@ -268,7 +903,10 @@ export const firebaseService = {
                     lastActiveTimestamp: serverTimestamp(),
                 };
                 
-                await setDoc(userRef, removeUndefined(newUserProfile));
+                const batch = writeBatch(db);
+                batch.set(userRef, removeUndefined(newUserProfile));
+                batch.set(bonusRef, { type: 'earn', amount: SIGNUP_COIN_BONUS, reason: 'signup_bonus', balanceAfter: SIGNUP_COIN_BONUS, createdAt: serverTimestamp() });
+                await batch.commit();
                 await setDoc(usernameRef, { userId: user.uid });
                 return true;
             }
@@ -300,11 +938,20 @@ export const firebaseService = {
             }
         }
 
+        let signedInUid: string;
         try {
-            await signInWithEmailAndPassword(auth, emailToSignIn, pass);
+            const credential = await signInWithEmailAndPassword(auth, emailToSignIn, pass);
+            signedInUid = credential.user.uid;
         } catch (authError) {
             throw new Error("Invalid details. Please check your username/email and password.");
         }
+
+        // Banned accounts are refused only after the password is verified, so the ban reason is never revealed to strangers.
+        const profile = await firebaseService.getUserProfileById(signedInUid);
+        if (profile?.isBanned) {
+            await signOut(auth);
+            throw new Error(getBanMessage(profile));
+        }
     },
     
     async signOutUser(userId: string | null): Promise<void> {
@@ -784,6 +1431,7 @@ export const firebaseService = {
         }
     ) {
         const { author: user, ...restOfPostData } = postData;
+        await _assertCanPublish(user.id, 'posting');
         
         const authorInfo: Author = {
             id: user.id,
@@ -956,6 +1604,7 @@ export const firebaseService = {
         try {
             let postAuthorId: string | null = null;
             let postCaption: string = '';
+            let reactedInGroupId: string | null = null;
 
             await runTransaction(db, async (transaction) => {
                 const postDoc = await transaction.get(postRef);
@@ -964,6 +1613,7 @@ export const firebaseService = {
                 const postData = postDoc.data() as Post;
                 postAuthorId = postData.author.id;
                 postCaption = postData.caption || '';
+                reactedInGroupId = null;
 
                 const reactions = { ...(postData.reactions || {}) };
                 const userPreviousReaction = reactions[userId];
@@ -972,11 +1622,20 @@ export const firebaseService = {
                     delete reactions[userId]; // User un-reacted
                 } else {
                     reactions[userId] = newReaction;
+                    if (!userPreviousReaction && postData.groupId) reactedInGroupId = postData.groupId;
                 }
                 
                 transaction.update(postRef, { reactions });
             });
 
+            // Reacting to a group's posts feeds the reactor's interest in the group's category, used for ad targeting.
+            if (reactedInGroupId) {
+                const category = (await _getGroupCategories([reactedInGroupId])).get(reactedInGroupId);
+                if (category && category !== 'General') {
+                    await updateDoc(doc(db, 'users', userId), { [`interestScores.${category}`]: increment(1) });
+                }
+            }
+
             // Send notification outside the transaction
             if (postAuthorId) {
                 await _createNotification(postAuthorId, 'like', currentUser, {
@@ -998,27 +1657,13 @@ export const firebaseService = {
                 const postDoc = await transaction.get(postRef);
                 if (!postDoc.exists()) throw "Post does not exist!";
 
-                const postData = postDoc.data() as Post;
-                const imageReactions = { ...(postData.imageReactions || {}) };
-
-                if (!imageReactions[imageId]) {
-                    imageReactions[imageId] = {};
-                }
-
-                const userPreviousReaction = imageReactions[imageId][userId];
-
-                if (userPreviousReaction === newReaction) {
-                    delete imageReactions[imageId][userId]; // User un-reacted by tapping the same emoji again
-                } else {
-                    imageReactions[imageId][userId] = newReaction;
-                }
+                const postData = postDoc.data();
+                const userPreviousReaction = mergeImageReactions(postData.imageReactions, postData.imageReactionsByUser)[imageId]?.[userId];
+                const hasLegacyReaction = !!postData.imageReactions?.[imageId]?.[userId];
 
-                // Clean up empty imageId keys
-                if (Object.keys(imageReactions[imageId]).length === 0) {
-                    delete imageReactions[imageId];
-                }
-
-                transaction.update(postRef, { imageReactions });
+                // Tapping the same emoji again un-reacts.
+                const value = userPreviousReaction !== newReaction ? newReaction : hasLegacyReaction ? null : deleteField();
+                transaction.update(postRef, { [`imageReactionsByUser.${userId}.${imageId}`]: value });
             });
             return true;
         } catch (e) {
@@ -1080,10 +1725,7 @@ export const firebaseService = {
     },
     
     async createComment(user: User, postId: string, data: { text?: string; imageFile?: File; audioBlob?: Blob; duration?: number; parentId?: string | null; imageId?: string }): Promise<Comment | null> {
-        if (user.commentingSuspendedUntil && new Date(user.commentingSuspendedUntil) > new Date()) {
-            console.warn(`User ${user.id} is suspended from commenting.`);
-            return null;
-        }
+        await _assertCanPublish(user.id, 'commenting');
     
         const postRef = doc(db, 'posts', postId);
     
@@ -1391,6 +2033,7 @@ export const firebaseService = {
         if (messageContent.text) newMessage.text = messageContent.text;
         if (messageContent.duration) newMessage.duration = messageContent.duration;
         if (messageContent.replyTo) newMessage.replyTo = messageContent.replyTo;
+        if (messageContent.storyReply) newMessage.storyReply = messageContent.storyReply;
         if (messageContent.mediaUrl) newMessage.mediaUrl = messageContent.mediaUrl; // Added for animated emojis
 
         if (messageContent.mediaFile) {
@@ -1588,6 +2231,9 @@ export const firebaseService = {
         if (updates.name) {
             updatesToSave.name_lowercase = updates.name.toLowerCase();
         }
+        if (updates.currentCity !== undefined) {
+            updatesToSave.district = findBangladeshDistrict(updates.currentCity)?.name || null;
+        }
     
         try {
             await updateDoc(userRef, removeUndefined(updatesToSave));
@@ -1746,64 +2392,271 @@ export const firebaseService = {
     },
 
     // --- Voice Coins ---
-    async updateVoiceCoins(userId: string, amount: number): Promise<boolean> {
-        const userRef = doc(db, 'users', userId);
+    async getCoinTransactions(userId: string, maxEntries: number = 100): Promise<CoinTransaction[]> {
         try {
-            await updateDoc(userRef, {
-                voiceCoins: increment(amount)
+            const q = query(collection(db, 'users', userId, 'coinTransactions'), orderBy('createdAt', 'desc'), limit(maxEntries));
+            const snapshot = await getDocs(q);
+            return snapshot.docs.map(d => {
+                const data = d.data();
+                return {
+                    id: d.id,
+                    ...data,
+                    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+                } as CoinTransaction;
             });
-            return true;
-        } catch (e) {
-            console.error("Failed to update voice coins:", e);
-            return false;
+        } catch (error) {
+            console.error("Error fetching coin transactions:", error);
+            return [];
         }
     },
 
-    // --- Reporting ---
-    async createReport(reporter: User, content: Post | Comment | User, contentType: 'post' | 'comment' | 'user', reason: string): Promise<boolean> {
+    async getRewardedAdsToday(userId: string): Promise<number> {
         try {
-            const reportedUserId = 'author' in content ? content.author.id : content.id;
-            const reportData: Omit<Report, 'id'> = {
-                reporterId: reporter.id,
-                reporterName: reporter.name,
-                reportedUserId: reportedUserId,
-                reportedContentId: content.id,
-                reportedContentType: contentType,
-                reason: reason,
-                status: 'pending',
-                createdAt: new Date().toISOString(),
-            };
-            await addDoc(collection(db, 'reports'), reportData);
-            return true;
+            const earningsDoc = await getDoc(doc(db, 'users', userId, 'coinEarnings', getDailyCollectionId(new Date())));
+            return earningsDoc.exists() ? earningsDoc.data().rewardedAds || 0 : 0;
         } catch (error) {
-            console.error("Error creating report:", error);
-            return false;
+            console.error("Error fetching today's rewarded ads:", error);
+            return 0;
         }
     },
-    
-    // --- Ads (for FeedScreen) ---
-    async getInjectableStoryAd(currentUser: User): Promise<Story | null> {
-        const q = query(collection(db, 'campaigns'), where('status', '==', 'active'), where('adType', '==', 'story'), limit(10));
-        const snapshot = await getDocs(q);
-        if (snapshot.empty) return null;
-        const campaigns = snapshot.docs.map(d => ({ ...d.data(), id: d.id })) as Campaign[];
-        const matchingCampaign = campaigns.find(c => matchesTargeting(c, currentUser));
 
-        if (matchingCampaign) {
-            const sponsor = await firebaseService.getUserProfileById(matchingCampaign.sponsorId);
-            if (!sponsor) return null;
+    // Credits the reward for watching a sponsored ad to the end, up to REWARD_AD_DAILY_LIMIT ads a day.
+    async earnRewardedAdCoins(userId: string, campaignId: string): Promise<CoinTransactionResult> {
+        const earningsRef = doc(db, 'users', userId, 'coinEarnings', getDailyCollectionId(new Date()));
+        try {
+            return await runTransaction(db, async (transaction) => {
+                const earningsDoc = await transaction.get(earningsRef);
+                const rewardedAds = earningsDoc.exists() ? earningsDoc.data().rewardedAds || 0 : 0;
+                if (rewardedAds >= REWARD_AD_DAILY_LIMIT) {
+                    return { success: false, reason: 'daily_limit_reached' };
+                }
+                const balance = await _writeCoinTransaction(transaction, userId, {
+                    type: 'earn', amount: REWARD_AD_COIN_VALUE, reason: 'rewarded_ad', referenceId: campaignId,
+                });
+                transaction.set(earningsRef, { rewardedAds: rewardedAds + 1 });
+                return { success: true, balance };
+            });
+        } catch (error) {
+            console.error("Failed to credit rewarded ad coins:", error);
+            return { success: false, reason: 'failed' };
+        }
+    },
 
-            return {
-                id: `ad_${matchingCampaign.id}`,
-                author: sponsor,
-                type: 'image',
-                contentUrl: matchingCampaign.imageUrl,
-                duration: 10,
-                createdAt: new Date().toISOString(),
-                viewedBy: [],
-                privacy: 'public',
-                isSponsored: true,
-                sponsorName: matchingCampaign.sponsorName,
+    // Deducts coins only if the balance covers them; the balance never goes below zero.
+    async spendVoiceCoins(userId: string, amount: number, reason: CoinTransactionReason, referenceId?: string): Promise<CoinTransactionResult> {
+        try {
+            return await runTransaction(db, async (transaction) => {
+                const balance = await _writeCoinTransaction(transaction, userId, { type: 'spend', amount, reason, referenceId });
+                return { success: true, balance };
+            });
+        } catch (error) {
+            if (error?.message === 'insufficient_balance') {
+                return { success: false, reason: 'insufficient_balance' };
+            }
+            console.error("Failed to spend voice coins:", error);
+            return { success: false, reason: 'failed' };
+        }
+    },
+
+    // Moves coins from the sender to a friend, a post's author or a live room's host. Both ledger
+    // entries share one id and are written with both balances in a single transaction. Gifts to a
+    // room host are also added to the room's gifts so everyone in the room sees them.
+    async sendCoins(
+        sender: User,
+        recipientId: string,
+        amount: number,
+        context: { type: CoinGiftContext; referenceId?: string },
+        options: { message?: string; emoji?: string } = {}
+    ): Promise<CoinTransactionResult> {
+        if (!Number.isInteger(amount) || amount <= 0 || amount > COIN_GIFT_MAX_AMOUNT) {
+            return { success: false, reason: 'invalid_amount' };
+        }
+        if (recipientId === sender.id) {
+            return { success: false, reason: 'recipient_unavailable' };
+        }
+
+        const senderRef = doc(db, 'users', sender.id);
+        const recipientRef = doc(db, 'users', recipientId);
+        const roomCollection = _liveRoomCollection(context.type);
+        const giftId = doc(collection(db, 'users', sender.id, 'coinTransactions')).id;
+        const message = options.message?.trim() || undefined;
+
+        try {
+            const result: CoinTransactionResult = await runTransaction(db, async (transaction) => {
+                const senderDoc = await transaction.get(senderRef);
+                const recipientDoc = await transaction.get(recipientRef);
+                if (!senderDoc.exists() || !recipientDoc.exists()) {
+                    return { success: false, reason: 'recipient_unavailable' };
+                }
+                const senderData = senderDoc.data() as User;
+                const recipient = docToUser(recipientDoc);
+                if (recipient.isBanned || recipient.isDeactivated
+                    || (recipient.blockedUserIds || []).includes(sender.id)
+                    || (senderData.blockedUserIds || []).includes(recipientId)) {
+                    return { success: false, reason: 'recipient_unavailable' };
+                }
+
+                if (context.type === 'profile' || context.type === 'chat') {
+                    if (!(senderData.friendIds || []).includes(recipientId)) {
+                        return { success: false, reason: 'not_friends' };
+                    }
+                } else if (context.type === 'post') {
+                    const postDoc = await transaction.get(doc(db, 'posts', context.referenceId));
+                    if (!postDoc.exists() || postDoc.data().author?.id !== recipientId) {
+                        return { success: false, reason: 'recipient_unavailable' };
+                    }
+                } else if (roomCollection) {
+                    const roomDoc = await transaction.get(doc(db, roomCollection, context.referenceId));
+                    if (!roomDoc.exists() || roomDoc.data().status !== 'live' || roomDoc.data().host?.id !== recipientId) {
+                        return { success: false, reason: 'recipient_unavailable' };
+                    }
+                }
+
+                const senderBalance = (senderData.voiceCoins || 0) - amount;
+                if (senderBalance < 0) {
+                    return { success: false, reason: 'insufficient_balance' };
+                }
+                const recipientBalance = (recipient.voiceCoins || 0) + amount;
+
+                const senderAuthor: Author = { id: sender.id, name: sender.name, username: sender.username, avatarUrl: sender.avatarUrl };
+                const recipientAuthor: Author = { id: recipient.id, name: recipient.name, username: recipient.username, avatarUrl: recipient.avatarUrl };
+                const shared = { amount, referenceId: context.referenceId, giftContext: context.type, message };
+                _setCoinEntry(transaction, sender.id, giftId, { ...shared, type: 'spend', reason: 'gift_sent', counterparty: recipientAuthor }, senderBalance);
+                _setCoinEntry(transaction, recipientId, giftId, { ...shared, type: 'earn', reason: 'gift_received', counterparty: senderAuthor }, recipientBalance);
+
+                if (roomCollection) {
+                    transaction.set(doc(db, roomCollection, context.referenceId, 'gifts', giftId), removeUndefined({
+                        sender: senderAuthor,
+                        recipientId,
+                        amount,
+                        emoji: options.emoji || '🪙',
+                        createdAt: serverTimestamp(),
+                    }));
+                }
+                return { success: true, balance: senderBalance };
+            });
+
+            if (!result.success) return result;
+
+            await _createNotification(recipientId, 'coins_received', sender, {
+                coinAmount: amount,
+                message,
+                post: context.type === 'post' ? { id: context.referenceId } : undefined,
+            });
+            return result;
+        } catch (error) {
+            console.error("Failed to send coins:", error);
+            return { success: false, reason: 'failed' };
+        }
+    },
+
+    // Calls back once per gift sent to the room after listening starts; earlier gifts are skipped.
+    listenToRoomGifts(roomId: string, type: 'audio' | 'video', callback: (gift: LiveRoomGift) => void): () => void {
+        const collectionName = type === 'audio' ? 'liveAudioRooms' : 'liveVideoRooms';
+        const q = query(collection(db, collectionName, roomId, 'gifts'), orderBy('createdAt', 'desc'), limit(20));
+        let isInitialSnapshot = true;
+        return onSnapshot(q, (snapshot) => {
+            if (isInitialSnapshot) {
+                isInitialSnapshot = false;
+                return;
+            }
+            snapshot.docChanges().filter(change => change.type === 'added').forEach(change => {
+                const data = change.doc.data();
+                callback({
+                    id: change.doc.id,
+                    ...data,
+                    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+                } as LiveRoomGift);
+            });
+        });
+    },
+
+    // --- Voice Command History ---
+    // Commands the NLU didn't understand are also counted as misses, across all users, for the
+    // admin view. 'unhandled' entries failed too, but the NLU was never asked, so they aren't misses.
+    async addCommandHistoryEntry(userId: string, entry: Omit<VoiceCommandHistoryEntry, 'id' | 'createdAt'>): Promise<void> {
+        try {
+            await addDoc(collection(db, 'users', userId, 'commandHistory'), removeUndefined({ ...entry, createdAt: serverTimestamp() }));
+            if (entry.intent === 'unknown') {
+                await _recordCommandMiss(entry, 'unknown');
+            }
+        } catch (error) {
+            console.error("Error saving command history:", error);
+        }
+    },
+
+    async getCommandHistory(userId: string, maxEntries: number = 50): Promise<VoiceCommandHistoryEntry[]> {
+        try {
+            const q = query(collection(db, 'users', userId, 'commandHistory'), orderBy('createdAt', 'desc'), limit(maxEntries));
+            const snapshot = await getDocs(q);
+            return snapshot.docs.map(d => {
+                const data = d.data();
+                return {
+                    id: d.id,
+                    ...data,
+                    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+                } as VoiceCommandHistoryEntry;
+            });
+        } catch (error) {
+            console.error("Error fetching command history:", error);
+            return [];
+        }
+    },
+
+    // "That's not what I meant": the entry counts as a failure from now on and its phrasing as a miss.
+    async markCommandMisrecognized(userId: string, entry: VoiceCommandHistoryEntry, expectedMeaning?: string): Promise<boolean> {
+        try {
+            await updateDoc(doc(db, 'users', userId, 'commandHistory', entry.id), removeUndefined({ success: false, misrecognized: true, expectedMeaning }));
+            await _recordCommandMiss({ ...entry, expectedMeaning }, 'misrecognized');
+            return true;
+        } catch (error) {
+            console.error("Error flagging command as misrecognized:", error);
+            return false;
+        }
+    },
+
+    // --- Reporting ---
+    async createReport(reporter: User, content: Post | Comment | User, contentType: 'post' | 'comment' | 'user', reason: string): Promise<boolean> {
+        try {
+            const reportedUserId = 'author' in content ? content.author.id : content.id;
+            const reportData: Omit<Report, 'id'> = {
+                reporterId: reporter.id,
+                reporterName: reporter.name,
+                reportedUserId: reportedUserId,
+                reportedContentId: content.id,
+                reportedContentType: contentType,
+                reportedPostId: contentType === 'comment' ? (content as Comment).postId : contentType === 'post' ? content.id : undefined,
+                reason: reason,
+                status: 'pending',
+                createdAt: new Date().toISOString(),
+            };
+            await addDoc(collection(db, 'reports'), removeUndefined(reportData));
+            return true;
+        } catch (error) {
+            console.error("Error creating report:", error);
+            return false;
+        }
+    },
+    
+    // --- Ads (for FeedScreen) ---
+    async getInjectableStoryAd(currentUser: User): Promise<Story | null> {
+        const matchingCampaign = await _selectCampaignForUser('story', currentUser);
+
+        if (matchingCampaign) {
+            const sponsor = await firebaseService.getUserProfileById(matchingCampaign.sponsorId);
+            if (!sponsor) return null;
+
+            return {
+                id: `ad_${matchingCampaign.id}`,
+                author: sponsor,
+                type: 'image',
+                contentUrl: matchingCampaign.imageUrl,
+                duration: 10,
+                createdAt: new Date().toISOString(),
+                viewedBy: [],
+                privacy: 'public',
+                isSponsored: true,
+                sponsorName: matchingCampaign.sponsorName,
                 sponsorAvatar: sponsor.avatarUrl,
                 campaignId: matchingCampaign.id,
                 ctaLink: matchingCampaign.websiteUrl,
@@ -1813,11 +2666,7 @@ export const firebaseService = {
     },
 
     async getInjectableAd(currentUser: User): Promise<Post | null> {
-        const q = query(collection(db, 'campaigns'), where('status', '==', 'active'), where('adType', '==', 'feed'), limit(20));
-        const snapshot = await getDocs(q);
-        if (snapshot.empty) return null;
-        const campaigns = snapshot.docs.map(d => ({ ...d.data(), id: d.id })) as Campaign[];
-        const matchingCampaign = campaigns.find(c => matchesTargeting(c, currentUser));
+        const matchingCampaign = await _selectCampaignForUser('feed', currentUser);
 
         if (matchingCampaign) {
             const sponsor = await firebaseService.getUserProfileById(matchingCampaign.sponsorId);
@@ -1859,6 +2708,7 @@ export const firebaseService = {
                 memberIds: arrayRemove(userId),
                 memberCount: increment(-1),
                 admins: arrayRemove(memberObject),
+                adminIds: arrayRemove(userId),
                 moderators: arrayRemove(memberObject),
             });
             await updateDoc(userRef, { groupIds: arrayRemove(groupId) });
@@ -2177,19 +3027,329 @@ export const firebaseService = {
             return null;
         }
     },
-    getCampaignsForSponsor: async (sponsorId: string): Promise<Campaign[]> => [],
-    submitCampaignForApproval: async (campaignData: any, transactionId: string) => {
-        const campaignToSave = { ...campaignData, views: 0, clicks: 0, status: 'pending', transactionId };
-        await addDoc(collection(db, 'campaigns'), removeUndefined(campaignToSave));
+    async getCampaignsForSponsor(sponsorId: string): Promise<Campaign[]> {
+        try {
+            const snapshot = await getDocs(query(collection(db, 'campaigns'), where('sponsorId', '==', sponsorId)));
+            return snapshot.docs
+                .map(docToCampaign)
+                .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        } catch (error) {
+            console.error("Error fetching sponsor campaigns:", error);
+            return [];
+        }
+    },
+    // Scales the share of a random profile sample that matches the targeting up to the whole user base.
+    async estimateAudienceSize(targeting: Campaign['targeting']): Promise<{ estimate: number; matchedInSample: number; sampleSize: number } | null> {
+        try {
+            const { sample, total } = await _getAudienceSample();
+            if (sample.length === 0) return { estimate: 0, matchedInSample: 0, sampleSize: 0 };
+            const campaign = { targeting } as Campaign;
+            const matchedInSample = sample.filter(({ user, interests }) => matchesTargeting(campaign, user, interests)).length;
+            return {
+                estimate: Math.round(total * matchedInSample / sample.length),
+                matchedInSample,
+                sampleSize: sample.length,
+            };
+        } catch (error) {
+            console.error("Error estimating audience size:", error);
+            return null;
+        }
+    },
+    // Creates the campaign together with its ledger entry. A transaction id that is already in the
+    // ledger is rejected, so one payment can't be claimed for several campaigns.
+    async submitCampaignForApproval(campaignData: any, payment: PaymentSubmission): Promise<{ success: boolean; reason?: 'duplicate_transaction' | 'invalid_payment' | 'failed' }> {
+        const transactionId = _normalizeTransactionId(payment.transactionId);
+        const senderNumber = normalizeBangladeshMobileNumber(payment.senderNumber);
+        if (!transactionId || !senderNumber) return { success: false, reason: 'invalid_payment' };
+
+        const paymentRef = doc(db, 'payments', transactionId);
+        const campaignRef = doc(collection(db, 'campaigns'));
+        try {
+            await runTransaction(db, async (transaction) => {
+                const existing = await transaction.get(paymentRef);
+                if (existing.exists()) throw new Error('duplicate_transaction');
+
+                transaction.set(campaignRef, removeUndefined({ ...campaignData, views: 0, clicks: 0, status: 'pending', paymentStatus: 'pending', transactionId }));
+                transaction.set(paymentRef, {
+                    transactionId,
+                    method: payment.method,
+                    senderNumber,
+                    campaignId: campaignRef.id,
+                    sponsorId: campaignData.sponsorId,
+                    sponsorName: campaignData.sponsorName,
+                    amount: campaignData.budget,
+                    status: 'pending',
+                    createdAt: serverTimestamp(),
+                });
+            });
+            return { success: true };
+        } catch (error) {
+            if (error?.message === 'duplicate_transaction' || (error?.code === 'permission-denied' && await _paymentExists(paymentRef))) {
+                return { success: false, reason: 'duplicate_transaction' };
+            }
+            console.error("Error submitting campaign:", error);
+            return { success: false, reason: 'failed' };
+        }
     },
     getRandomActiveCampaign: async (): Promise<Campaign | null> => null,
-    trackAdView: async (campaignId: string) => updateDoc(doc(db, 'campaigns', campaignId), { views: increment(1) }),
-    trackAdClick: async (campaignId: string) => updateDoc(doc(db, 'campaigns', campaignId), { clicks: increment(1) }),
-    submitLead: async (leadData: any) => addDoc(collection(db, 'leads'), { ...leadData, createdAt: serverTimestamp() }),
-    getLeadsForCampaign: async (campaignId: string): Promise<Lead[]> => [],
-    getStories: async (currentUserId: string): Promise<any[]> => [],
-    markStoryAsViewed: async (storyId: string, userId: string) => updateDoc(doc(db, 'stories', storyId), { viewedBy: arrayUnion(userId) }),
-    createStory: async (storyData: any, mediaFile: any): Promise<Story> => ({...storyData, id: '', createdAt: new Date().toISOString(), duration: 5, viewedBy: []}),
+    // Records an impression and its cost in one transaction, and finishes the campaign once its budget is spent.
+    // The viewer's daily count for the campaign feeds the frequency cap in ad selection.
+    async trackAdView(campaignId: string, viewer?: User | null): Promise<void> {
+        const campaignRef = doc(db, 'campaigns', campaignId);
+        if (viewer) {
+            try {
+                await setDoc(doc(db, 'users', viewer.id, 'adImpressions', getDailyCollectionId(new Date())), { [campaignId]: increment(1) }, { merge: true });
+            } catch (error) {
+                console.error("Failed to record ad impression:", error);
+            }
+        }
+        try {
+            await runTransaction(db, async (transaction) => {
+                const campaignDoc = await transaction.get(campaignRef);
+                if (!campaignDoc.exists()) return;
+                const campaign = docToCampaign(campaignDoc);
+                if (campaign.status !== 'active') return;
+
+                const pacing = _getCampaignPacing(campaign);
+                if (pacing.remaining <= 0) {
+                    transaction.update(campaignRef, { status: 'finished', finishedAt: serverTimestamp() });
+                    return;
+                }
+
+                const views = campaign.views + 1;
+                const spent = Math.min(campaign.budget, _campaignSpendForViews(views));
+                const isExhausted = spent >= campaign.budget;
+                transaction.update(campaignRef, {
+                    views,
+                    spent,
+                    spentToday: Math.round((pacing.spentToday + spent - pacing.spent) * 100) / 100,
+                    spendDate: pacing.today,
+                    ...(isExhausted ? { status: 'finished', finishedAt: serverTimestamp() } : {}),
+                });
+                transaction.set(_campaignStatsRef(campaignId), _campaignStatsUpdate('impressions', viewer, spent - pacing.spent), { merge: true });
+            });
+        } catch (error) {
+            console.error(`Failed to record ad view for campaign ${campaignId}:`, error);
+        }
+    },
+    async trackAdClick(campaignId: string, viewer?: User | null): Promise<void> {
+        await updateDoc(doc(db, 'campaigns', campaignId), { clicks: increment(1) });
+        await _recordCampaignStat(campaignId, 'clicks', viewer);
+    },
+    // Called when someone opens a conversation with the sponsor from an ad.
+    trackAdMessage: async (campaignId: string, viewer?: User | null): Promise<void> => _recordCampaignStat(campaignId, 'messages', viewer),
+    async submitLead(leadData: Omit<Lead, 'id'>, viewer?: User | null) {
+        const leadRef = await addDoc(collection(db, 'leads'), removeUndefined({ ...leadData, createdAt: serverTimestamp() }));
+        await _recordCampaignStat(leadData.campaignId, 'leads', viewer);
+        return leadRef;
+    },
+    // Leads are readable by the campaign's sponsor only, so the query is scoped to them as well.
+    async getLeadsForCampaign(campaignId: string, sponsorId: string): Promise<Lead[]> {
+        try {
+            const snapshot = await getDocs(query(collection(db, 'leads'), where('campaignId', '==', campaignId), where('sponsorId', '==', sponsorId)));
+            return snapshot.docs
+                .map(d => {
+                    const data = d.data();
+                    return {
+                        ...data,
+                        id: d.id,
+                        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : data.createdAt,
+                    } as Lead;
+                })
+                .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        } catch (error) {
+            console.error("Error fetching leads:", error);
+            return [];
+        }
+    },
+    // One entry per UTC day for the last `days` days, oldest first, with empty days filled in.
+    async getCampaignDailyStats(campaignId: string, days: number = 30): Promise<CampaignDailyStats[]> {
+        const today = new Date();
+        today.setUTCHours(0, 0, 0, 0);
+        const dates = Array.from({ length: days }, (_, i) =>
+            new Date(today.getTime() - (days - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10));
+        try {
+            const snapshot = await getDocs(query(collection(db, 'campaigns', campaignId, 'dailyStats'), where('date', '>=', dates[0])));
+            const byDate = new Map(snapshot.docs.map(d => [d.data().date as string, d.data()]));
+            return dates.map(date => {
+                const data = byDate.get(date) || {};
+                return {
+                    date,
+                    impressions: data.impressions || 0,
+                    clicks: data.clicks || 0,
+                    leads: data.leads || 0,
+                    messages: data.messages || 0,
+                    spend: data.spend || 0,
+                    breakdown: data.breakdown || {},
+                };
+            });
+        } catch (error) {
+            console.error(`Error fetching daily stats for campaign ${campaignId}:`, error);
+            return [];
+        }
+    },
+    async getStories(currentUserId: string): Promise<{ author: User; stories: Story[]; allViewed: boolean }[]> {
+        const currentUser = await firebaseService.getUserProfileById(currentUserId);
+        if (!currentUser) return [];
+
+        const storiesRef = collection(db, 'stories');
+        const now = Timestamp.now();
+        const queries = [
+            // Latest-expiring first, so a full page holds the newest public stories.
+            query(storiesRef, where('expiresAt', '>', now), where('privacy', '==', 'public'), orderBy('expiresAt', 'desc'), limit(100)),
+            query(storiesRef, where('expiresAt', '>', now), where('author.id', '==', currentUserId), orderBy('expiresAt', 'asc')),
+            query(storiesRef, where('expiresAt', '>', now), where('audienceIds', 'array-contains', currentUserId), where('privacy', '==', 'friends'), orderBy('expiresAt', 'asc')),
+        ];
+
+        const storiesMap = new Map<string, Story>();
+        const snapshots = await Promise.all(queries.map(q => getDocs(q).catch(error => {
+            console.warn("Could not fetch a slice of stories, continuing with the rest.", error.message);
+            return null;
+        })));
+        snapshots.forEach(snapshot => {
+            snapshot?.docs.forEach(d => storiesMap.set(d.id, docToStory(d)));
+        });
+
+        // Stories only carry an author summary; the full profiles are needed for the author's block list.
+        const authorIds = [...new Set([...storiesMap.values()].map(story => story.author.id))];
+        const authors = new Map((await firebaseService.getUsersByIds(authorIds)).map(author => [author.id, author]));
+
+        const groups = new Map<string, { author: User; stories: Story[]; allViewed: boolean }>();
+        for (const story of storiesMap.values()) {
+            const author = authors.get(story.author.id);
+            if (!author || !canViewStory(story, author, currentUser)) continue;
+            const group = groups.get(story.author.id) || { author, stories: [], allViewed: true };
+            group.stories.push(story);
+            if (!story.viewedBy.includes(currentUserId)) {
+                group.allViewed = false;
+            }
+            groups.set(story.author.id, group);
+        }
+
+        const storiesByAuthor = Array.from(groups.values());
+        storiesByAuthor.forEach(group => {
+            group.stories.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+        });
+        // Own stories first, then authors with unseen stories, each bucket newest first.
+        storiesByAuthor.sort((a, b) => {
+            if (a.author.id === currentUserId) return -1;
+            if (b.author.id === currentUserId) return 1;
+            if (a.allViewed !== b.allViewed) return a.allViewed ? 1 : -1;
+            const latestA = new Date(a.stories[a.stories.length - 1].createdAt).getTime();
+            const latestB = new Date(b.stories[b.stories.length - 1].createdAt).getTime();
+            return latestB - latestA;
+        });
+        return storiesByAuthor;
+    },
+    async markStoryAsViewed(storyId: string, userId: string): Promise<void> {
+        const storyRef = doc(db, 'stories', storyId);
+        try {
+            const storyDoc = await getDoc(storyRef);
+            if (!storyDoc.exists()) return;
+            const data = storyDoc.data();
+            // Keep the first view time; re-watching shouldn't bump someone up the "seen by" list.
+            if (data.author.id === userId || (data.viewedBy || []).includes(userId)) return;
+            await updateDoc(storyRef, {
+                viewedBy: arrayUnion(userId),
+                [`viewerTimestamps.${userId}`]: serverTimestamp(),
+            });
+        } catch (error) {
+            console.error(`Failed to mark story ${storyId} as viewed:`, error);
+        }
+    },
+    async getStoryViewers(storyId: string): Promise<StoryViewer[]> {
+        const storyDoc = await getDoc(doc(db, 'stories', storyId));
+        if (!storyDoc.exists()) return [];
+        const story = docToStory(storyDoc);
+        const viewerIds = story.viewedBy.filter(id => id !== story.author.id);
+        const users = await firebaseService.getUsersByIds(viewerIds);
+
+        return users
+            .map(user => ({
+                user: { id: user.id, name: user.name, username: user.username, avatarUrl: user.avatarUrl },
+                viewedAt: story.viewerTimestamps?.[user.id] || story.createdAt,
+                reaction: story.reactions?.[user.id],
+            }))
+            .sort((a, b) => new Date(b.viewedAt).getTime() - new Date(a.viewedAt).getTime());
+    },
+    async sendStoryReply(story: Story, sender: User, content: { text?: string; audioBlob?: Blob; duration?: number; emoji?: string }): Promise<boolean> {
+        if (story.isSponsored || story.author.id === sender.id) return false;
+
+        try {
+            const storyReply: StoryReplyInfo = removeUndefined({
+                storyId: story.id,
+                storyType: story.type,
+                previewUrl: story.type === 'image' || story.type === 'video' ? story.contentUrl : undefined,
+                previewText: story.type === 'text' ? story.text?.substring(0, 80) : undefined,
+                reaction: content.emoji,
+            });
+
+            const chatId = await firebaseService.ensureChatDocumentExists(sender, story.author);
+            let messageContent: any;
+            if (content.audioBlob) {
+                messageContent = { type: 'audio', audioBlob: content.audioBlob, duration: content.duration, storyReply };
+            } else if (content.emoji) {
+                messageContent = { type: 'text', text: content.emoji, storyReply };
+            } else if (content.text?.trim()) {
+                messageContent = { type: 'text', text: content.text.trim(), storyReply };
+            } else {
+                return false;
+            }
+            await firebaseService.sendMessage(chatId, sender, story.author, messageContent);
+
+            if (content.emoji) {
+                await updateDoc(doc(db, 'stories', story.id), { [`reactions.${sender.id}`]: content.emoji });
+            }
+            return true;
+        } catch (error) {
+            console.error("Error replying to story:", error);
+            return false;
+        }
+    },
+    async createStory(storyData: Partial<Story> & { author: User }, mediaFile: File | null): Promise<Story | null> {
+        const { author: user, ...restOfStoryData } = storyData;
+        const authorInfo = {
+            id: user.id,
+            name: user.name,
+            username: user.username,
+            avatarUrl: user.avatarUrl,
+        };
+
+        try {
+            const storyToSave: any = {
+                ...restOfStoryData,
+                author: authorInfo,
+                duration: restOfStoryData.duration || 5,
+                viewedBy: [],
+                privacy: restOfStoryData.privacy || 'public',
+                // Friends-only stories carry their audience so it can be queried and checked by the rules.
+                ...(restOfStoryData.privacy === 'friends' ? { audienceIds: user.friendIds || [] } : {}),
+                createdAt: serverTimestamp(),
+                expiresAt: Timestamp.fromMillis(Date.now() + STORY_LIFETIME_HOURS * 60 * 60 * 1000),
+            };
+
+            if (mediaFile) {
+                const { url } = await uploadMediaToCloudinary(mediaFile, `story_${user.id}_${Date.now()}`);
+                storyToSave.contentUrl = url;
+                if (mediaFile.type.startsWith('video/')) {
+                    storyToSave.type = 'video';
+                    storyToSave.duration = restOfStoryData.duration || 15;
+                }
+            }
+
+            const storyRef = await addDoc(collection(db, 'stories'), removeUndefined(storyToSave));
+            return {
+                ...removeUndefined(storyToSave),
+                id: storyRef.id,
+                author: user,
+                createdAt: new Date().toISOString(),
+                expiresAt: storyToSave.expiresAt.toDate().toISOString(),
+            } as Story;
+        } catch (error) {
+            console.error("Error creating story:", error);
+            return null;
+        }
+    },
     async getGroupById(groupId: string): Promise<Group | null> {
         if (!groupId) return null;
         try {
@@ -2231,6 +3391,7 @@ export const firebaseService = {
                 memberIds: [creator.id],
                 memberCount: 1,
                 admins: [creatorAuthor],
+                adminIds: [creator.id],
                 moderators: [],
                 privacy,
                 createdAt: serverTimestamp(),
@@ -2278,106 +3439,754 @@ export const firebaseService = {
     pinPost: async (groupId: string, postId: string): Promise<boolean> => true,
     unpinPost: async (groupId: string): Promise<boolean> => true,
     inviteFriendToGroup: async (groupId: string, friendId: string): Promise<boolean> => true,
-    getGroupChat: async (groupId: string): Promise<GroupChat | null> => null,
-    sendGroupChatMessage: async (groupId: string, sender: Author, text: string): Promise<GroupChat> => ({ groupId, messages: [] }),
-    getGroupEvents: async (groupId: string): Promise<Event[]> => [],
-    createGroupEvent: async (creator: User, groupId: string, title: string, description: string, date: string): Promise<Event | null> => null,
-    rsvpToEvent: async (userId: string, eventId: string): Promise<boolean> => true,
-    adminLogin: async (email: string, password: string): Promise<AdminUser | null> => {
+    async getGroupChat(groupId: string, pageSize: number = GROUP_CHAT_PAGE_SIZE): Promise<GroupChat | null> {
         try {
-            const adminsRef = collection(db, 'admins');
-            const q = query(adminsRef, where("email", "==", email.toLowerCase()));
-            const querySnapshot = await getDocs(q);
+            const messagesRef = collection(db, 'groupChats', groupId, 'messages');
+            const q = query(messagesRef, orderBy('createdAt', 'desc'), limit(pageSize));
+            const snapshot = await getDocs(q);
+            return { groupId, messages: snapshot.docs.map(docToGroupChatMessage).reverse() };
+        } catch (error) {
+            console.error(`Error fetching group chat ${groupId}:`, error);
+            return null;
+        }
+    },
+    // Pages from the oldest loaded message's snapshot, so messages sharing its timestamp aren't skipped.
+    async getOlderGroupChatMessages(groupId: string, beforeMessageId: string, pageSize: number = GROUP_CHAT_PAGE_SIZE): Promise<GroupChatMessage[]> {
+        const messagesRef = collection(db, 'groupChats', groupId, 'messages');
+        const beforeDoc = await getDoc(doc(messagesRef, beforeMessageId));
+        if (!beforeDoc.exists()) return [];
+        const q = query(messagesRef, orderBy('createdAt', 'desc'), startAfter(beforeDoc), limit(pageSize));
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(docToGroupChatMessage).reverse();
+    },
+    createGroupChatReplySnippet(message: GroupChatMessage): ReplyInfo {
+        return {
+            messageId: message.id,
+            senderName: message.sender.name,
+            content: createGroupChatSnippet(message),
+        };
+    },
+    async sendGroupChatMessage(groupId: string, sender: Author, content: { text?: string; mediaFile?: File; audioBlob?: Blob; duration?: number; replyTo?: ReplyInfo }): Promise<boolean> {
+        const chatRef = doc(db, 'groupChats', groupId);
+        const messagesRef = collection(chatRef, 'messages');
+
+        const newMessage: any = {
+            sender: { id: sender.id, name: sender.name, username: sender.username, avatarUrl: sender.avatarUrl },
+            text: content.text?.trim() || undefined,
+            replyTo: content.replyTo,
+            reactions: {},
+        };
 
-            if (querySnapshot.empty) {
-                return null; // No admin with this email
+        try {
+            if (content.mediaFile) {
+                const { url } = await uploadMediaToCloudinary(content.mediaFile, `group_chat_${groupId}_${Date.now()}`);
+                newMessage.mediaUrl = url;
+                newMessage.mediaType = content.mediaFile.type.startsWith('video') ? 'video' : 'image';
+            } else if (content.audioBlob) {
+                const { url } = await uploadMediaToCloudinary(content.audioBlob, `group_chat_audio_${groupId}_${Date.now()}.webm`);
+                newMessage.audioUrl = url;
+                newMessage.duration = content.duration;
+            } else if (!newMessage.text) {
+                throw new Error("Group chat message must have content.");
             }
 
-            const adminDoc = querySnapshot.docs[0];
-            const adminData = adminDoc.data();
+            const messageRef = await addDoc(messagesRef, removeUndefined({ ...newMessage, createdAt: serverTimestamp() }));
+
+            // The parent doc only carries a summary of the latest message, never the history itself.
+            await setDoc(chatRef, {
+                lastMessage: removeUndefined({
+                    id: messageRef.id,
+                    senderName: sender.name,
+                    content: createGroupChatSnippet(newMessage),
+                    createdAt: new Date().toISOString(),
+                }),
+                lastUpdated: serverTimestamp(),
+            }, { merge: true });
+            return true;
+        } catch (error) {
+            console.error("Error sending group chat message:", error);
+            return false;
+        }
+    },
+    async unsendGroupChatMessage(groupId: string, messageId: string, userId: string): Promise<boolean> {
+        const messageRef = doc(db, 'groupChats', groupId, 'messages', messageId);
+        try {
+            const messageDoc = await getDoc(messageRef);
+            if (!messageDoc.exists() || messageDoc.data().sender.id !== userId) {
+                console.error("Permission denied: User is not the sender of this message.");
+                return false;
+            }
+            await updateDoc(messageRef, {
+                isDeleted: true,
+                text: deleteField(),
+                mediaUrl: deleteField(),
+                mediaType: deleteField(),
+                audioUrl: deleteField(),
+                reactions: {},
+            });
+            return true;
+        } catch (error) {
+            console.error("Error unsending group chat message:", error);
+            return false;
+        }
+    },
 
-            if (adminData.password === password) {
-                return { id: adminDoc.id, email: adminData.email };
+    // --- Group Events ---
+    async getGroupEvents(groupId: string): Promise<Event[]> {
+        try {
+            const q = query(collection(db, 'events'), where('groupId', '==', groupId), orderBy('date', 'asc'));
+            const snapshot = await getDocs(q);
+            return snapshot.docs.map(docToEvent);
+        } catch (error) {
+            console.error("Error fetching group events:", error);
+            return [];
+        }
+    },
+    async createGroupEvent(creator: User, groupId: string, title: string, description: string, date: string, endDate?: string): Promise<Event | null> {
+        try {
+            const groupDoc = await getDoc(doc(db, 'groups', groupId));
+            if (!groupDoc.exists()) return null;
+            const group = groupDoc.data() as Group;
+            if (!group.admins?.some(a => a.id === creator.id)) {
+                console.error("Permission denied: only group admins can create events.");
+                return null;
             }
 
-            return null; // Incorrect password
+            const creatorInfo: Author = { id: creator.id, name: creator.name, username: creator.username, avatarUrl: creator.avatarUrl };
+            // The creator is going by default so they also get the reminder.
+            const creatorRsvp = { ...creatorInfo, status: 'going', respondedAt: new Date().toISOString() };
+            const eventData = {
+                groupId,
+                groupName: group.name,
+                creator: creatorInfo,
+                title,
+                description,
+                date: Timestamp.fromDate(new Date(date)),
+                endDate: endDate ? Timestamp.fromDate(new Date(endDate)) : undefined,
+                rsvps: { [creator.id]: creatorRsvp },
+                reminderRecipientIds: [creator.id],
+                remindersSent: {},
+                createdAt: serverTimestamp(),
+            };
+            const eventRef = await addDoc(collection(db, 'events'), removeUndefined(eventData));
+            return {
+                id: eventRef.id,
+                groupId,
+                groupName: group.name,
+                creator: creatorInfo,
+                title,
+                description,
+                date,
+                endDate,
+                attendees: [creatorRsvp as EventAttendee],
+            };
         } catch (error) {
-            console.error("Admin login error:", error);
+            console.error("Error creating group event:", error);
             return null;
         }
     },
-    adminRegister: async (email: string, password: string): Promise<AdminUser | null> => {
+    async rsvpToEvent(user: User, eventId: string, status: EventRsvpStatus): Promise<boolean> {
+        const eventRef = doc(db, 'events', eventId);
         try {
-            const adminsRef = collection(db, 'admins');
-            const q = query(adminsRef, where("email", "==", email.toLowerCase()));
-            const querySnapshot = await getDocs(q);
-
-            if (!querySnapshot.empty) {
-                return null; // Admin with this email already exists
+            const rsvp = {
+                id: user.id,
+                name: user.name,
+                username: user.username,
+                avatarUrl: user.avatarUrl,
+                status,
+                respondedAt: new Date().toISOString(),
+            };
+            // Only people who might show up get reminded.
+            const wantsReminder = status !== 'not_going';
+            await updateDoc(eventRef, {
+                [`rsvps.${user.id}`]: rsvp,
+                reminderRecipientIds: wantsReminder ? arrayUnion(user.id) : arrayRemove(user.id),
+            });
+            return true;
+        } catch (error) {
+            console.error("Error updating RSVP:", error);
+            return false;
+        }
+    },
+    // The hourly reminders job (api/event-reminders.ts) reaches attendees who aren't in the app; this
+    // sends a reminder that came due since its last run as soon as the attendee opens the app.
+    async sendDueEventReminders(user: User): Promise<void> {
+        try {
+            const q = query(collection(db, 'events'), where('reminderRecipientIds', 'array-contains', user.id));
+            const snapshot = await getDocs(q);
+            const now = Date.now();
+            const windowEnd = now + EVENT_REMINDER_HOURS * 60 * 60 * 1000;
+
+            for (const eventDoc of snapshot.docs) {
+                const data = eventDoc.data();
+                const startsAt = data.date instanceof Timestamp ? data.date.toMillis() : new Date(data.date).getTime();
+                if (startsAt < now || startsAt > windowEnd || data.remindersSent?.[user.id]) continue;
+
+                // Claim the reminder first so multiple open tabs don't send duplicates.
+                const claimed = await runTransaction(db, async (transaction) => {
+                    const fresh = await transaction.get(eventDoc.ref);
+                    if (!fresh.exists() || fresh.data().remindersSent?.[user.id]) return false;
+                    transaction.update(eventDoc.ref, { [`remindersSent.${user.id}`]: serverTimestamp() });
+                    return true;
+                });
+                if (!claimed) continue;
+
+                await _createNotification(user.id, 'event_reminder', SYSTEM_ACTOR, {
+                    groupId: data.groupId,
+                    groupName: data.groupName,
+                    eventId: eventDoc.id,
+                    eventTitle: data.title,
+                    eventDate: new Date(startsAt).toISOString(),
+                });
             }
-
-            const newAdminDocRef = await addDoc(adminsRef, {
-                email: email.toLowerCase(),
-                password: password, // In a real app, hash this password
+        } catch (error) {
+            console.error("Error sending event reminders:", error);
+        }
+    },
+    // --- Admin Authentication ---
+    async adminLogin(email: string, password: string): Promise<{ admin: AdminUser } | { mfaRequired: true }> {
+        pendingAdminMfaResolver = null;
+        try {
+            const credential = await signInWithEmailAndPassword(auth, email.toLowerCase().trim(), password);
+            return { admin: await _resolveAdminAccess(credential.user) };
+        } catch (error: any) {
+            if (error?.code === 'auth/multi-factor-auth-required') {
+                pendingAdminMfaResolver = getMultiFactorResolver(auth, error);
+                return { mfaRequired: true };
+            }
+            if (error?.code?.startsWith('auth/')) {
+                throw new Error("Invalid email or password.");
+            }
+            throw error;
+        }
+    },
+    async completeAdminMfaLogin(code: string): Promise<AdminUser> {
+        const resolver = pendingAdminMfaResolver;
+        const totpHint = resolver?.hints.find(h => h.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+        if (!resolver || !totpHint) {
+            throw new Error("Your sign-in attempt expired. Please enter your password again.");
+        }
+        try {
+            const assertion = TotpMultiFactorGenerator.assertionForSignIn(totpHint.uid, code.trim());
+            const credential = await resolver.resolveSignIn(assertion);
+            pendingAdminMfaResolver = null;
+            return await _resolveAdminAccess(credential.user);
+        } catch (error: any) {
+            if (error?.code === 'auth/invalid-verification-code') {
+                throw new Error("That code is incorrect. Please try again.");
+            }
+            throw error;
+        }
+    },
+    async startAdminTotpEnrollment(accountName: string): Promise<{ qrCodeUrl: string; secretKey: string } | null> {
+        const firebaseUser = auth.currentUser;
+        if (!firebaseUser) return null;
+        try {
+            const session = await multiFactor(firebaseUser).getSession();
+            pendingTotpSecret = await TotpMultiFactorGenerator.generateSecret(session);
+            return {
+                qrCodeUrl: pendingTotpSecret.generateQrCodeUrl(accountName, 'VoiceBook Admin'),
+                secretKey: pendingTotpSecret.secretKey,
+            };
+        } catch (error) {
+            console.error("Failed to start TOTP enrollment:", error);
+            return null;
+        }
+    },
+    async finishAdminTotpEnrollment(code: string): Promise<boolean> {
+        const firebaseUser = auth.currentUser;
+        if (!firebaseUser || !pendingTotpSecret) return false;
+        try {
+            const assertion = TotpMultiFactorGenerator.assertionForEnrollment(pendingTotpSecret, code.trim());
+            await multiFactor(firebaseUser).enroll(assertion, 'Authenticator app');
+            pendingTotpSecret = null;
+            return true;
+        } catch (error) {
+            console.error("Failed to finish TOTP enrollment:", error);
+            return false;
+        }
+    },
+    async adminLogout(): Promise<void> {
+        pendingAdminMfaResolver = null;
+        pendingTotpSecret = null;
+        await signOut(auth);
+    },
+    async inviteAdmin(email: string, admin: AdminUser): Promise<AdminInvite | null> {
+        const normalizedEmail = email.toLowerCase().trim();
+        const expiresAt = Timestamp.fromMillis(Date.now() + ADMIN_INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+        try {
+            // Invites are keyed by email, so re-inviting simply refreshes the existing invite.
+            await setDoc(doc(db, 'adminInvites', normalizedEmail), {
+                email: normalizedEmail,
+                invitedBy: admin.id,
+                invitedByEmail: admin.email,
+                status: 'pending',
                 createdAt: serverTimestamp(),
+                expiresAt,
+            });
+            await _logAdminAction(admin, 'invite_admin', { type: 'admin_invite', id: normalizedEmail }, {
+                after: { status: 'pending', expiresAt: expiresAt.toDate().toISOString() },
+            });
+            return {
+                id: normalizedEmail,
+                email: normalizedEmail,
+                invitedBy: admin.id,
+                invitedByEmail: admin.email,
+                status: 'pending',
+                createdAt: new Date().toISOString(),
+                expiresAt: expiresAt.toDate().toISOString(),
+            };
+        } catch (error) {
+            console.error("Error inviting admin:", error);
+            return null;
+        }
+    },
+    async revokeAdminInvite(inviteId: string, admin: AdminUser): Promise<boolean> {
+        try {
+            await updateDoc(doc(db, 'adminInvites', inviteId), { status: 'revoked' });
+            await _logAdminAction(admin, 'revoke_admin_invite', { type: 'admin_invite', id: inviteId }, {
+                before: { status: 'pending' },
+                after: { status: 'revoked' },
+            });
+            return true;
+        } catch (error) {
+            console.error("Error revoking admin invite:", error);
+            return false;
+        }
+    },
+    async getAdminInvites(): Promise<AdminInvite[]> {
+        try {
+            const snapshot = await getDocs(query(collection(db, 'adminInvites'), orderBy('createdAt', 'desc')));
+            return snapshot.docs.map(d => {
+                const data = d.data();
+                return {
+                    ...data,
+                    id: d.id,
+                    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+                    expiresAt: data.expiresAt instanceof Timestamp ? data.expiresAt.toDate().toISOString() : data.expiresAt,
+                } as AdminInvite;
             });
-
-            return { id: newAdminDocRef.id, email: email.toLowerCase() };
         } catch (error) {
-            console.error("Admin registration error:", error);
+            console.error("Error fetching admin invites:", error);
+            return [];
+        }
+    },
+    async getAdminDashboardStats(): Promise<DashboardStats> {
+        const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+        // "Today" is the admin's own calendar day, from local midnight.
+        const startOfToday = new Date();
+        startOfToday.setHours(0, 0, 0, 0);
+        const [totalUsers, newUsersToday, postsLast24h, pendingCampaigns, activeUsersNow, pendingReports, pendingPayments] = await Promise.all([
+            _countDocuments(collection(db, 'users')),
+            _countDocuments(query(collection(db, 'users'), where('createdAt', '>=', Timestamp.fromDate(startOfToday)))),
+            _countDocuments(query(collection(db, 'posts'), where('createdAt', '>=', Timestamp.fromDate(since)))),
+            _countDocuments(query(collection(db, 'campaigns'), where('status', '==', 'pending'))),
+            _countDocuments(query(collection(db, 'users'), where('onlineStatus', '==', 'online'))),
+            _countDocuments(query(collection(db, 'reports'), where('status', '==', 'pending'))),
+            _countDocuments(query(collection(db, 'payments'), where('status', '==', 'pending'))),
+        ]);
+
+        return { totalUsers, newUsersToday, postsLast24h, pendingCampaigns, activeUsersNow, pendingReports, pendingPayments };
+    },
+    async getAdminDashboardTimeSeries(days: number = 30): Promise<DashboardTimeSeriesPoint[]> {
+        const today = new Date();
+        today.setUTCHours(0, 0, 0, 0);
+        const buckets = Array.from({ length: days }, (_, i) => {
+            const start = new Date(today.getTime() - (days - 1 - i) * 24 * 60 * 60 * 1000);
+            const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+            return { start, end };
+        });
+
+        // One count aggregation per collection for each day not cached yet. Reports store createdAt as an
+        // ISO string, users and posts use Firestore Timestamps.
+        const cached = _getCachedDailyCounts();
+        const todayDate = today.toISOString().slice(0, 10);
+        const completeDays: { [date: string]: DashboardTimeSeriesPoint } = {};
+        const count = (q: any): Promise<number | null> => getCountFromServer(q).then(snapshot => snapshot.data().count).catch(error => {
+            console.error("Error running count aggregation:", error);
             return null;
+        });
+        const series = await Promise.all(buckets.map(async ({ start, end }) => {
+            const date = start.toISOString().slice(0, 10);
+            if (date !== todayDate && cached[date]) {
+                completeDays[date] = cached[date];
+                return cached[date];
+            }
+            const [signups, posts, reports] = await Promise.all([
+                count(query(collection(db, 'users'), where('createdAt', '>=', Timestamp.fromDate(start)), where('createdAt', '<', Timestamp.fromDate(end)))),
+                count(query(collection(db, 'posts'), where('createdAt', '>=', Timestamp.fromDate(start)), where('createdAt', '<', Timestamp.fromDate(end)))),
+                count(query(collection(db, 'reports'), where('createdAt', '>=', start.toISOString()), where('createdAt', '<', end.toISOString()))),
+            ]);
+            const point = { date, signups: signups ?? 0, posts: posts ?? 0, reports: reports ?? 0 };
+            // A failed count shows as zero but isn't kept, so the day is counted again next time.
+            if (date !== todayDate && signups !== null && posts !== null && reports !== null) {
+                completeDays[date] = point;
+            }
+            return point;
+        }));
+        try {
+            localStorage.setItem(DASHBOARD_DAILY_COUNTS_KEY, JSON.stringify(completeDays));
+        } catch (error) {
+            console.warn("Could not cache dashboard counts:", error);
         }
+        return series;
     },
-    getAdminDashboardStats: async (): Promise<any> => ({ totalUsers: 0, newUsersToday: 0, postsLast24h: 0, pendingCampaigns: 0, activeUsersNow: 0, pendingReports: 0, pendingPayments: 0 }),
     getAllUsersForAdmin: async (): Promise<User[]> => {
         const snapshot = await getDocs(collection(db, 'users'));
         return snapshot.docs.map(docToUser);
     },
-    updateUserRole: async (userId: string, newRole: 'admin' | 'user'): Promise<boolean> => true,
+    updateUserRole: async (userId: string, newRole: 'admin' | 'user', admin: AdminUser): Promise<boolean> =>
+        _applyAdminUserUpdate(admin, userId, 'update_user_role', { role: newRole }, { role: newRole }),
     getPendingCampaigns: async (): Promise<Campaign[]> => [],
-    approveCampaign: async (campaignId: string) => {
+    async approveCampaign(campaignId: string, admin: AdminUser) {
         const campaignRef = doc(db, 'campaigns', campaignId);
         const campaignDoc = await getDoc(campaignRef);
         if (campaignDoc.exists()) {
-            await updateDoc(campaignRef, { status: 'active' });
+            await updateDoc(campaignRef, { status: 'active', startedAt: serverTimestamp() });
             const campaign = campaignDoc.data();
-            const actor = { id: 'admin', name: 'VoiceBook Admin' } as User;
-            await _createNotification(campaign.sponsorId, 'campaign_approved', actor, { campaignName: campaign.sponsorName });
+            await _logAdminAction(admin, 'approve_campaign', { type: 'campaign', id: campaignId }, {
+                before: _pickAuditFields(campaign, ['status']),
+                after: { status: 'active' },
+            });
+            await _createNotification(campaign.sponsorId, 'campaign_approved', ADMIN_ACTOR, { campaignName: campaign.sponsorName });
         }
     },
-    rejectCampaign: async (campaignId: string, reason: string) => {
+    async rejectCampaign(campaignId: string, reason: string, admin: AdminUser) {
         const campaignRef = doc(db, 'campaigns', campaignId);
         const campaignDoc = await getDoc(campaignRef);
         if (campaignDoc.exists()) {
             await updateDoc(campaignRef, { status: 'rejected' });
             const campaign = campaignDoc.data();
-            const actor = { id: 'admin', name: 'VoiceBook Admin' } as User;
-            await _createNotification(campaign.sponsorId, 'campaign_rejected', actor, { campaignName: campaign.sponsorName, rejectionReason: reason });
+            await _logAdminAction(admin, 'reject_campaign', { type: 'campaign', id: campaignId }, {
+                before: _pickAuditFields(campaign, ['status']),
+                after: { status: 'rejected' },
+                reason,
+            });
+            await _createNotification(campaign.sponsorId, 'campaign_rejected', ADMIN_ACTOR, { campaignName: campaign.sponsorName, rejectionReason: reason });
         }
     },
     getAllPostsForAdmin: async (): Promise<Post[]> => [],
-    deletePostAsAdmin: async (postId: string): Promise<boolean> => true,
-    deleteCommentAsAdmin: async (commentId: string, postId: string): Promise<boolean> => true,
-    getPostById: async (postId: string): Promise<Post | null> => null,
-    getPendingReports: async (): Promise<Report[]> => [],
-    resolveReport: async (reportId: string, resolution: string) => {},
-    banUser: async (userId: string): Promise<boolean> => true,
-    unbanUser: async (userId: string): Promise<boolean> => true,
-    warnUser: async (userId: string, message: string): Promise<boolean> => {
-        const actor = { id: 'admin', name: 'VoiceBook Admin' } as User;
-        await _createNotification(userId, 'admin_warning', actor, { message });
+    async deletePostAsAdmin(postId: string, admin: AdminUser): Promise<boolean> {
+        const postRef = doc(db, 'posts', postId);
+        try {
+            const postDoc = await getDoc(postRef);
+            if (!postDoc.exists()) return false;
+            const post = postDoc.data();
+            await deleteDoc(postRef);
+            await _logAdminAction(admin, 'delete_post', { type: 'post', id: postId }, {
+                before: {
+                    authorId: post.author?.id ?? null,
+                    authorName: post.author?.name ?? null,
+                    ..._pickAuditFields(post, ['caption', 'imageUrl', 'videoUrl', 'audioUrl', 'groupId']),
+                },
+                after: null,
+            });
+            return true;
+        } catch (error) {
+            console.error("Error deleting post as admin:", error);
+            return false;
+        }
+    },
+    async deleteCommentAsAdmin(commentId: string, postId: string, admin: AdminUser): Promise<boolean> {
+        const postRef = doc(db, 'posts', postId);
+        try {
+            const removed = await runTransaction(db, async (transaction) => {
+                const postDoc = await transaction.get(postRef);
+                if (!postDoc.exists()) return null;
+                const comments = [...(postDoc.data().comments || [])];
+                const commentIndex = comments.findIndex(c => c.id === commentId);
+                if (commentIndex === -1) return null;
+
+                const { text, audioUrl, imageUrl, ...rest } = comments[commentIndex];
+                comments[commentIndex] = { ...rest, isDeleted: true, reactions: {} };
+                transaction.update(postRef, { comments });
+                return { authorId: rest.author?.id ?? null, text: text ?? null, audioUrl: audioUrl ?? null, imageUrl: imageUrl ?? null };
+            });
+            if (!removed) return false;
+            await _logAdminAction(admin, 'delete_comment', { type: 'comment', id: commentId }, {
+                before: { postId, ...removed },
+                after: { isDeleted: true },
+            });
+            return true;
+        } catch (error) {
+            console.error("Error deleting comment as admin:", error);
+            return false;
+        }
+    },
+    async getPostById(postId: string): Promise<Post | null> {
+        try {
+            const postDoc = await getDoc(doc(db, 'posts', postId));
+            return postDoc.exists() ? docToPost(postDoc) : null;
+        } catch (error) {
+            console.error(`Error fetching post ${postId}:`, error);
+            return null;
+        }
+    },
+    async getPendingReports(): Promise<Report[]> {
+        try {
+            const snapshot = await getDocs(query(collection(db, 'reports'), where('status', '==', 'pending')));
+            // Oldest first, so the queue is worked through in the order reports came in.
+            const reports = snapshot.docs
+                .map(d => ({ id: d.id, ...d.data() } as Report))
+                .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+            // Several reports often point at the same post or user, so each is fetched once.
+            const postCache = new Map<string, Promise<Post | null>>();
+            const userCache = new Map<string, Promise<User | null>>();
+            const getPost = (id: string) => {
+                if (!postCache.has(id)) postCache.set(id, firebaseService.getPostById(id));
+                return postCache.get(id)!;
+            };
+            const getUser = (id: string) => {
+                if (!userCache.has(id)) userCache.set(id, firebaseService.getUserProfileById(id));
+                return userCache.get(id)!;
+            };
+
+            // Comment reports filed before reportedPostId was stored can borrow it from a newer report about
+            // the same comment; with none, their post is unknown.
+            const postIdByContentId = new Map(reports.filter(r => r.reportedPostId).map(r => [r.reportedContentId, r.reportedPostId]));
+
+            return await Promise.all(reports.map(async report => {
+                const reportedUser = await getUser(report.reportedUserId);
+                if (report.reportedContentType === 'user') {
+                    return { ...report, reportedUser };
+                }
+                const postId = report.reportedPostId || postIdByContentId.get(report.reportedContentId);
+                if (!postId && report.reportedContentType === 'comment') {
+                    return { ...report, reportedPost: null, reportedComment: null, reportedUser, isPostUnknown: true };
+                }
+                const reportedPost = postId ? await getPost(postId) : null;
+                if (report.reportedContentType === 'post') {
+                    return { ...report, reportedPost, reportedUser };
+                }
+                const reportedComment = reportedPost?.comments.find(c => c.id === report.reportedContentId && !c.isDeleted) || null;
+                return { ...report, reportedPostId: postId, reportedPost, reportedComment, reportedUser };
+            }));
+        } catch (error) {
+            console.error("Error fetching pending reports:", error);
+            return [];
+        }
+    },
+    // Applies the chosen moderation action, closes the report along with every other pending report
+    // about the same content, and tells each reporter the outcome. Throws when the content can't be deleted.
+    async resolveReport(reportId: string, action: ReportResolutionAction, admin: AdminUser, note?: string): Promise<boolean> {
+        const reportRef = doc(db, 'reports', reportId);
+        let report: Report;
+        let reports: Report[];
+        try {
+            const reportDoc = await getDoc(reportRef);
+            if (!reportDoc.exists()) return false;
+            report = { id: reportDoc.id, ...reportDoc.data() } as Report;
+            if (report.status === 'resolved') return false;
+
+            const siblingsSnapshot = await getDocs(query(collection(db, 'reports'),
+                where('reportedContentId', '==', report.reportedContentId), where('status', '==', 'pending')));
+            const siblings = siblingsSnapshot.docs
+                .map(d => ({ id: d.id, ...d.data() } as Report))
+                .filter(r => r.id !== report.id && r.reportedContentType === report.reportedContentType);
+            reports = [report, ...siblings];
+        } catch (error) {
+            console.error("Error loading report:", error);
+            return false;
+        }
+
+        const commentPostId = reports.find(r => r.reportedPostId)?.reportedPostId;
+        if (action === 'delete_content' && report.reportedContentType === 'user') {
+            throw new Error("A reported profile has no content to delete. Warn, suspend or ban the user instead.");
+        }
+        if (action === 'delete_content' && report.reportedContentType === 'comment' && !commentPostId) {
+            throw new Error("This report doesn't say which post the comment is on, so the comment can't be deleted from here.");
+        }
+
+        try {
+            const trimmedNote = note?.trim() || undefined;
+            let applied = true;
+            switch (action) {
+                case 'delete_content':
+                    applied = report.reportedContentType === 'post'
+                        ? await firebaseService.deletePostAsAdmin(report.reportedContentId, admin)
+                        : await firebaseService.deleteCommentAsAdmin(report.reportedContentId, commentPostId, admin);
+                    break;
+                case 'warn':
+                    applied = await firebaseService.warnUser(report.reportedUserId,
+                        trimmedNote || `Your ${report.reportedContentType} was reported for "${report.reason}". Please review the community guidelines.`, admin);
+                    break;
+                case 'suspend':
+                    applied = await firebaseService.suspendUserPosting(report.reportedUserId, REPORT_SUSPENSION_DAYS, admin)
+                        && await firebaseService.suspendUserCommenting(report.reportedUserId, REPORT_SUSPENSION_DAYS, admin);
+                    break;
+                case 'ban':
+                    applied = await firebaseService.banUser(report.reportedUserId, trimmedNote || `Reported for: ${report.reason}`, admin);
+                    break;
+            }
+            if (!applied) return false;
+
+            const resolution = REPORT_RESOLUTION_LABELS[action];
+            const after = { status: 'resolved', resolution, resolutionAction: action };
+            const resolvedAt = new Date().toISOString();
+            const batch = writeBatch(db);
+            reports.forEach(r => batch.update(doc(db, 'reports', r.id), { ...after, resolvedBy: admin.id, resolvedAt }));
+            await batch.commit();
+
+            const notifiedReporterIds = new Set<string>();
+            for (const r of reports) {
+                await _logAdminAction(admin, 'resolve_report', { type: 'report', id: r.id }, {
+                    before: _pickAuditFields(r, ['status', 'resolution']),
+                    after,
+                    reason: trimmedNote,
+                });
+                // Someone who reported the same thing twice hears back once.
+                if (notifiedReporterIds.has(r.reporterId)) continue;
+                notifiedReporterIds.add(r.reporterId);
+                const message = action === 'dismiss'
+                    ? `We reviewed the ${r.reportedContentType} you reported and found that it doesn't go against our community guidelines.`
+                    : `Thanks for your report. We reviewed the ${r.reportedContentType} you reported for "${r.reason}" and took action: ${resolution.toLowerCase()}.`;
+                await _createNotification(r.reporterId, 'report_resolved', ADMIN_ACTOR, { message });
+            }
+            return true;
+        } catch (error) {
+            console.error("Error resolving report:", error);
+            return false;
+        }
+    },
+    banUser: async (userId: string, reason: string, admin: AdminUser): Promise<boolean> =>
+        _applyAdminUserUpdate(admin, userId, 'ban_user', {
+            isBanned: true,
+            banReason: reason.trim() || deleteField(),
+            bannedAt: serverTimestamp(),
+            onlineStatus: 'offline',
+        }, { isBanned: true, banReason: reason.trim() || null }, reason.trim()),
+    unbanUser: async (userId: string, admin: AdminUser): Promise<boolean> =>
+        _applyAdminUserUpdate(admin, userId, 'unban_user', {
+            isBanned: false,
+            banReason: deleteField(),
+            bannedAt: deleteField(),
+        }, { isBanned: false, banReason: null }),
+    async warnUser(userId: string, message: string, admin: AdminUser): Promise<boolean> {
+        await _createNotification(userId, 'admin_warning', ADMIN_ACTOR, { message });
+        await _logAdminAction(admin, 'warn_user', { type: 'user', id: userId }, { reason: message });
         return true;
     },
-    suspendUserCommenting: async (userId: string, days: number): Promise<boolean> => true,
-    liftUserCommentingSuspension: async (userId: string): Promise<boolean> => true,
-    suspendUserPosting: async (userId: string, days: number): Promise<boolean> => true,
-    liftUserPostingSuspension: async (userId: string): Promise<boolean> => true,
+    async suspendUserCommenting(userId: string, days: number, admin: AdminUser): Promise<boolean> {
+        const until = Timestamp.fromMillis(Date.now() + days * 24 * 60 * 60 * 1000);
+        return _applyAdminUserUpdate(admin, userId, 'suspend_commenting',
+            { commentingSuspendedUntil: until },
+            { commentingSuspendedUntil: until.toDate().toISOString() },
+            `${days} day(s)`);
+    },
+    liftUserCommentingSuspension: async (userId: string, admin: AdminUser): Promise<boolean> =>
+        _applyAdminUserUpdate(admin, userId, 'lift_commenting_suspension', { commentingSuspendedUntil: deleteField() }, { commentingSuspendedUntil: null }),
+    async suspendUserPosting(userId: string, days: number, admin: AdminUser): Promise<boolean> {
+        const until = Timestamp.fromMillis(Date.now() + days * 24 * 60 * 60 * 1000);
+        return _applyAdminUserUpdate(admin, userId, 'suspend_posting',
+            { postingSuspendedUntil: until },
+            { postingSuspendedUntil: until.toDate().toISOString() },
+            `${days} day(s)`);
+    },
+    liftUserPostingSuspension: async (userId: string, admin: AdminUser): Promise<boolean> =>
+        _applyAdminUserUpdate(admin, userId, 'lift_posting_suspension', { postingSuspendedUntil: deleteField() }, { postingSuspendedUntil: null }),
     getUserDetailsForAdmin: async (userId: string): Promise<any> => null,
     sendSiteWideAnnouncement: async (message: string): Promise<boolean> => true,
     getAllCampaignsForAdmin: async (): Promise<Campaign[]> => [],
-    verifyCampaignPayment: async (campaignId: string, adminId: string): Promise<boolean> => true,
+    // --- Payments Ledger ---
+    async getPaymentsForAdmin(maxEntries: number = 500): Promise<Payment[]> {
+        try {
+            const q = query(collection(db, 'payments'), orderBy('createdAt', 'desc'), limit(maxEntries));
+            const snapshot = await getDocs(q);
+            return snapshot.docs.map(docToPayment);
+        } catch (error) {
+            console.error("Error fetching payments:", error);
+            return [];
+        }
+    },
+    verifyPayment: (paymentId: string, admin: AdminUser): Promise<boolean> =>
+        _settlePayment(paymentId, 'verified', admin),
+    rejectPayment: (paymentId: string, reason: string, admin: AdminUser): Promise<boolean> =>
+        _settlePayment(paymentId, 'failed', admin, { reason }),
+    // Matches an uploaded merchant statement against pending payments. Payments whose amount matches
+    // the statement are verified; anything else is reported back for manual review.
+    async reconcilePaymentStatement(rows: PaymentStatementRow[], admin: AdminUser): Promise<PaymentReconciliationResult> {
+        const result: PaymentReconciliationResult = { verified: [], amountMismatches: [], alreadyProcessed: [], unmatchedRows: [] };
+        const statement = new Map<string, PaymentStatementRow>();
+        rows.forEach(row => {
+            const transactionId = _normalizeTransactionId(row.transactionId);
+            if (transactionId) statement.set(transactionId, { ...row, transactionId });
+        });
+
+        const transactionIds = [...statement.keys()];
+        const payments = new Map<string, Payment>();
+        for (let i = 0; i < transactionIds.length; i += 30) {
+            const chunk = transactionIds.slice(i, i + 30);
+            const snapshot = await getDocs(query(collection(db, 'payments'), where(documentId(), 'in', chunk)));
+            snapshot.docs.forEach(d => payments.set(d.id, docToPayment(d)));
+        }
+
+        for (const [transactionId, row] of statement) {
+            const payment = payments.get(transactionId);
+            if (!payment) {
+                result.unmatchedRows.push(row);
+            } else if (payment.status !== 'pending') {
+                result.alreadyProcessed.push(payment);
+            } else if (Math.abs(row.amount - payment.amount) > 0.005) {
+                result.amountMismatches.push({ payment, row });
+            } else if (await _settlePayment(payment.id, 'verified', admin, { reconciled: true })) {
+                result.verified.push({ ...payment, status: 'verified' });
+            }
+        }
+        return result;
+    },
     adminUpdateUserProfilePicture: async (userId: string, base64: string): Promise<User | null> => null,
-    reactivateUserAsAdmin: async (userId: string): Promise<boolean> => true,
+    reactivateUserAsAdmin: async (userId: string, admin: AdminUser): Promise<boolean> =>
+        _applyAdminUserUpdate(admin, userId, 'reactivate_user', { isDeactivated: false }, { isDeactivated: false }),
+    async getTopCommandMisses(maxEntries: number = 100): Promise<VoiceCommandMiss[]> {
+        try {
+            const q = query(collection(db, 'voiceCommandMisses'), orderBy('count', 'desc'), limit(maxEntries));
+            const snapshot = await getDocs(q);
+            return snapshot.docs.map(d => {
+                const data = d.data();
+                return {
+                    ...data,
+                    id: d.id,
+                    lastSeenAt: data.lastSeenAt instanceof Timestamp ? data.lastSeenAt.toDate().toISOString() : new Date().toISOString(),
+                } as VoiceCommandMiss;
+            });
+        } catch (error) {
+            console.error("Error fetching voice command misses:", error);
+            return [];
+        }
+    },
+
+    // Newest first, one page at a time. `afterEntryId` is the last entry of the previous page.
+    async getAdminAuditLog(filters: AdminAuditLogFilters = {}, afterEntryId?: string, pageSize: number = ADMIN_AUDIT_LOG_PAGE_SIZE): Promise<{ entries: AdminAuditLogEntry[]; hasMore: boolean }> {
+        try {
+            const logRef = collection(db, 'adminAuditLog');
+            const constraints = [];
+            if (filters.adminEmail) constraints.push(where('adminEmail', '==', filters.adminEmail.trim().toLowerCase()));
+            if (filters.action) constraints.push(where('action', '==', filters.action));
+            if (filters.targetId) constraints.push(where('targetId', '==', filters.targetId.trim()));
+            if (filters.from) constraints.push(where('createdAt', '>=', Timestamp.fromDate(new Date(filters.from))));
+            if (filters.to) constraints.push(where('createdAt', '<=', Timestamp.fromDate(new Date(filters.to))));
+            constraints.push(orderBy('createdAt', 'desc'));
+            if (afterEntryId) {
+                const afterDoc = await getDoc(doc(logRef, afterEntryId));
+                if (afterDoc.exists()) constraints.push(startAfter(afterDoc));
+            }
+            // One extra entry tells us whether there is another page.
+            const snapshot = await getDocs(query(logRef, ...constraints, limit(pageSize + 1)));
+            const entries = snapshot.docs.slice(0, pageSize).map(d => {
+                const data = d.data();
+                return {
+                    ...data,
+                    id: d.id,
+                    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+                } as AdminAuditLogEntry;
+            });
+            return { entries, hasMore: snapshot.docs.length > pageSize };
+        } catch (error) {
+            console.error("Error fetching admin audit log:", error);
+            return { entries: [], hasMore: false };
+        }
+    },
     promoteGroupMember: async (groupId: string, userToPromote: User, newRole: 'Admin' | 'Moderator') => firebaseService.promoteGroupMember(groupId, userToPromote, newRole),
     demoteGroupMember: async (groupId: string, userToDemote: User, oldRole: 'Admin' | 'Moderator') => firebaseService.demoteGroupMember(groupId, userToDemote, oldRole),
     async removeGroupMember(groupId: string, userToRemove: User): Promise<boolean> {
@@ -2390,6 +4199,7 @@ export const firebaseService = {
                 memberIds: arrayRemove(userToRemove.id),
                 memberCount: increment(-1),
                 admins: arrayRemove(memberObject),
+                adminIds: arrayRemove(userToRemove.id),
                 moderators: arrayRemove(memberObject),
             });
             await updateDoc(userRef, { groupIds: arrayRemove(groupId) });
@@ -2538,29 +4348,14 @@ export const firebaseService = {
         });
     },
 
-    listenToGroupChat(groupId: string, callback: (chat: GroupChat | null) => void): () => void {
-        const chatRef = doc(db, 'groupChats', groupId);
-        return onSnapshot(chatRef, (doc) => {
-            if (doc.exists()) {
-                const data = doc.data();
-                callback({
-                    groupId: doc.id,
-                    messages: (data.messages || []).map((msg: any) => ({
-                        ...msg,
-                        createdAt: msg.createdAt instanceof Timestamp ? msg.createdAt.toDate().toISOString() : msg.createdAt,
-                    })),
-                } as GroupChat);
-            } else {
-                console.log(`Group chat for ${groupId} not found, creating it.`);
-                setDoc(chatRef, { messages: [] })
-                    .then(() => {
-                         callback({ groupId, messages: [] });
-                    })
-                    .catch(err => {
-                        console.error("Failed to auto-create group chat:", err);
-                        callback(null);
-                    });
-            }
+    listenToGroupChat(groupId: string, callback: (chat: GroupChat | null) => void, pageSize: number = GROUP_CHAT_PAGE_SIZE): () => void {
+        const messagesRef = collection(db, 'groupChats', groupId, 'messages');
+        const q = query(messagesRef, orderBy('createdAt', 'desc'), limit(pageSize));
+        return onSnapshot(q, (snapshot) => {
+            callback({
+                groupId,
+                messages: snapshot.docs.map(docToGroupChatMessage).reverse(),
+            });
         }, (error) => {
             console.error(`Error listening to group chat ${groupId}:`, error);
             callback(null);
@@ -2568,16 +4363,12 @@ export const firebaseService = {
     },
     
     async reactToGroupChatMessage(groupId: string, messageId: string, userId: string, emoji: string): Promise<void> {
-        const chatRef = doc(db, 'groupChats', groupId);
+        const messageRef = doc(db, 'groupChats', groupId, 'messages', messageId);
         await runTransaction(db, async (transaction) => {
-            const chatDoc = await transaction.get(chatRef);
-            if (!chatDoc.exists()) throw "Chat does not exist!";
-            const messages = chatDoc.data().messages || [];
-            const msgIndex = messages.findIndex((m: any) => m.id === messageId);
-            if (msgIndex === -1) throw "Message not found!";
-    
-            const message = messages[msgIndex];
-            const reactions = message.reactions || {};
+            const messageDoc = await transaction.get(messageRef);
+            if (!messageDoc.exists()) throw "Message not found!";
+    
+            const reactions = messageDoc.data().reactions || {};
             const previousReaction = Object.keys(reactions).find(key => reactions[key].includes(userId));
     
             if (previousReaction) {
@@ -2596,11 +4387,8 @@ export const firebaseService = {
                     delete reactions[key];
                 }
             }
-            
-            message.reactions = reactions;
-            messages[msgIndex] = message;
     
-            transaction.update(chatRef, { messages });
+            transaction.update(messageRef, { reactions });
         });
     },
 };
@@ -0,0 +1,416 @@
+import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
+import { NLUResponse } from '../types';
+import { IMAGE_GENERATION_MAX_VARIANTS } from '../constants';
+import type { AIProvider, IntentContext, ExplorePostSummary, ExploreCategoryIds } from './aiProvider';
+
+const NLU_SYSTEM_INSTRUCTION_BASE = `
+You are a powerful NLU (Natural Language Understanding) engine for VoiceBook, a voice-controlled social media app. Your sole purpose is to analyze a user's raw text command and convert it into a structured JSON format. You must understand both English and Bengali (Bangla), including "Banglish" (Bengali words typed with English characters).
+
+Your response MUST be a single, valid JSON object and nothing else.
+
+The JSON object must have:
+1. An "intent" field: A string matching one of the intents from the list below.
+2. An optional "slots" object: For intents that require extra information (like a name or number).
+
+CONTEXTUAL RULES:
+- If a user says a simple action like "like", "comment", "share", "save post", "hide post", "copy link", "report post" or "open profile" without specifying a target name, assume they mean the currently active post on the screen. The app will handle the context. Your job is just to return the base intent (e.g., "intent_like").
+- If the user says "my profile", "amar profile", or similar, the intent MUST be 'intent_open_profile' and there MUST NOT be a 'target_name' slot.
+- If a command is "next" or "previous", it could mean the next post in a feed, or the next image in a multi-image view. The app has context. You can use 'intent_next_post' for generic next commands, and 'intent_next_image' if the user explicitly says 'next image' or 'porer chobi'.
+
+BENGALI & BANGLISH EXAMPLES:
+Your primary goal is to map various phrasings to the correct intent. Be flexible with synonyms and phrasings.
+- "home page e jao", "amar feed dekhao", "news feed", "প্রথম পাতা" -> "intent_open_feed"
+- "like koro", "bhalo legeche", "লাইক" -> "intent_like"
+- "comment koro", "montobbo koro", "একটা মন্তব্য কর" -> "intent_comment"
+- "share koro", "শেয়ার" -> "intent_share"
+- "post koro", "kichu likho", "নতুন পোস্ট" -> "intent_create_post"
+- "amar bondhuder list dekhao", "friends list", "আমার বন্ধু" -> "intent_open_friends_page"
+- "message dekhao", "inbox a jao", "মেসেজ" -> "intent_open_messages"
+- "explore page", "explore koro", "এক্সপ্লোর" -> "intent_open_explore"
+- "scroll koro", "niche jao" -> "intent_scroll_down"
+- "upore jao" -> "intent_scroll_up"
+- "thamo", "stop scroll" -> "intent_stop_scroll"
+- "help", "ki ki command ache", "সাহায্য" -> "intent_help"
+- "amar profile" -> "intent_open_profile" (NO target_name)
+- "shojib er profile dekho" -> { "intent": "intent_open_profile", "slots": { "target_name": "shojib" } }
+- "save this post", "post ta save koro" -> "intent_save_post"
+- "hide this", "eta lukao" -> "intent_hide_post"
+- "copy link", "link ta copy koro" -> "intent_copy_link"
+- "read this post", "post ta pore shonao", "পোস্টটা পড়ে শোনাও" -> "intent_read_post"
+- "report this post" -> "intent_report_post"
+- "create a group named Family", "Family name ekta group kholo" -> { "intent": "intent_create_group", "slots": { "group_name": "Family" } }
+- "open groups", "group gulo dekhao" -> "intent_open_groups_hub"
+- "create a story", "story banao" -> "intent_create_story"
+- "add music", "gaan add koro" -> "intent_add_music"
+- "post story", "story ta post koro" -> "intent_post_story"
+- "পাসওয়ার্ড পরিবর্তন কর" (change password) -> { "intent": "intent_change_password" }
+- "আমার অ্যাকাউন্ট নিষ্ক্রিয় কর" (deactivate my account) -> { "intent": "intent_deactivate_account" }
+- "সেটিংসে যাও" (go to settings) -> { "intent": "intent_open_settings" }
+- "রুমে যাও" (go to rooms) -> { "intent": "intent_open_rooms_hub" }
+- "shojib ke khojo" (search for shojib) -> { "intent": "intent_search_user", "slots": { "target_name": "shojib" } }
+
+If the user's intent is unclear or not in the list, you MUST use the intent "unknown".
+`;
+
+const NLU_INTENT_LIST = `
+- intent_signup
+- intent_login
+- intent_play_post
+- intent_pause_post
+- intent_next_post
+- intent_previous_post
+- intent_next_image
+- intent_previous_image
+- intent_create_post
+- intent_create_voice_post
+- intent_stop_recording
+- intent_post_confirm
+- intent_re_record
+- intent_comment
+- intent_post_comment
+- intent_search_user (extracts 'target_name')
+- intent_select_result (extracts 'index')
+- intent_like (extracts 'target_name')
+- intent_share
+- intent_save_post
+- intent_hide_post
+- intent_copy_link
+- intent_read_post
+- intent_report_post
+- intent_open_profile (extracts 'target_name')
+- intent_change_avatar
+- intent_help
+- intent_go_back
+- intent_open_settings
+- intent_add_friend (extracts 'target_name')
+- intent_unfriend_user (extracts 'target_name')
+- intent_cancel_friend_request (extracts 'target_name')
+- intent_send_message (extracts 'target_name')
+- intent_save_settings
+- intent_update_profile (extracts 'field', 'value')
+- intent_update_privacy (extracts 'setting', 'value')
+- intent_update_notification_setting (extracts 'setting', 'value')
+- intent_block_user (extracts 'target_name')
+- intent_unblock_user (extracts 'target_name')
+- intent_edit_profile
+- intent_record_message
+- intent_send_chat_message
+- intent_view_comments (extracts 'target_name')
+- intent_send_text_message_with_content (extracts 'message_content')
+- intent_open_friend_requests
+- intent_accept_request (extracts 'target_name')
+- intent_decline_request (extracts 'target_name')
+- intent_scroll_up
+- intent_scroll_down
+- intent_stop_scroll
+- intent_open_messages
+- intent_open_friends_page
+- intent_open_chat (extracts 'target_name')
+- intent_change_chat_theme (extracts 'theme_name')
+- intent_delete_chat (extracts 'target_name')
+- intent_send_voice_emoji (extracts 'emoji_type')
+- intent_play_comment_by_author (extracts 'target_name')
+- intent_view_comments_by_author (extracts 'target_name')
+- intent_generate_image (extracts 'prompt')
+- intent_clear_image
+- intent_claim_reward
+- intent_open_ads_center
+- intent_create_campaign
+- intent_view_campaign_dashboard
+- intent_set_sponsor_name (extracts 'sponsor_name')
+- intent_set_campaign_caption (extracts 'caption_text')
+- intent_set_campaign_budget (extracts 'budget_amount')
+- intent_set_media_type (extracts 'media_type')
+- intent_launch_campaign
+- intent_change_password
+- intent_deactivate_account
+- intent_open_feed
+- intent_open_explore
+- intent_open_reels
+- intent_open_rooms_hub
+- intent_open_audio_rooms
+- intent_open_video_rooms
+- intent_create_room
+- intent_close_room
+- intent_reload_page
+- intent_confirm (the user agrees, e.g. 'yes', 'হ্যাঁ', 'ঠিক আছে')
+- intent_deny (the user declines, e.g. 'no', 'না')
+- intent_cancel (the user abandons the current request, e.g. 'cancel', 'never mind', 'থাক')
+- intent_open_groups_hub
+- intent_join_group (extracts 'group_name')
+- intent_leave_group (extracts 'group_name')
+- intent_create_group (extracts 'group_name')
+- intent_search_group (extracts 'search_query')
+- intent_filter_groups_by_category (extracts 'category_name')
+- intent_view_group_suggestions
+- intent_pin_post
+- intent_unpin_post
+- intent_open_group_chat
+- intent_open_group_events
+- intent_create_event
+- intent_create_poll
+- intent_vote_poll (extracts 'option_number' or 'option_text')
+- intent_view_group_by_name (extracts 'group_name')
+- intent_manage_group
+- intent_open_group_invite_page
+- intent_create_story
+- intent_add_music
+- intent_post_story
+- intent_set_story_privacy (extracts 'privacy_level')
+- intent_add_text_to_story (extracts 'text')
+- intent_react_to_message (extracts 'emoji_type')
+- intent_reply_to_message
+- intent_reply_to_last_message (extracts 'message_content')
+- intent_react_to_last_message (extracts 'emoji_type')
+- intent_unsend_message
+- intent_send_announcement (extracts 'message_content')
+`;
+
+const TRANSCRIPT_SYSTEM_INSTRUCTION = `You are an expert transcriber and translator. Your primary task is to correct a raw voice-to-text transcript into proper Bengali (Bangla) script. The input text might be in 'Banglish' (Bengali words spelled phonetically with English letters), a mix of English and Bengali words, or contain speech recognition errors.
+
+Your rules are:
+1.  Your output MUST be ONLY the corrected Bengali text. Do not add any explanation, preamble, or markdown.
+2.  If the input is primarily English, return it as is, but correct any obvious spelling mistakes.
+3.  Preserve proper nouns (like names of people or places) and common English technical terms (like 'Facebook', 'profile', 'post') as they are, using English letters.
+4.  Focus on converting phonetic Banglish into the correct Bengali script.
+
+Examples:
+- Input: "amar profile dekhao" -> Output: "amar profile দেখাও"
+- Input: "shojib khan er new post ta dekhi" -> Output: "Shojib Khan er new post টা দেখি"
+- Input: "create a new post" -> Output: "create a new post"
+- Input: "explore page a jao" -> Output: "explore page এ যাও"
+- Input: "settings change koro" -> Output: "settings change কর"
+- Input: "home page" -> Output: "home page"
+`;
+
+const COMMAND_SPLIT_SYSTEM_INSTRUCTION = `You split voice commands for VoiceBook, a voice-controlled social media app. The user may chain several commands in one sentence, in English, Bengali (Bangla) or Banglish. Return each command as a separate string, in the order they should run.
+
+Your rules are:
+1.  Each command must make sense on its own. Replace pronouns with the name they refer to when the name was said earlier in the sentence.
+2.  Keep the user's own wording and language for each command. Do not translate or add anything.
+3.  Do not split text that belongs to one command, such as a message, comment or search query that contains "and".
+4.  If the input is a single command, return it unchanged as the only item.
+
+Examples:
+- Input: "open Shojib's profile and send him a friend request" -> ["open Shojib's profile", "send Shojib a friend request"]
+- Input: "go to messages and open chat with Rahim" -> ["go to messages", "open chat with Rahim"]
+- Input: "search for Tom and Jerry" -> ["search for Tom and Jerry"]
+- Input: "feed এ যাও তারপর প্রথম পোস্ট চালাও" -> ["feed এ যাও", "প্রথম পোস্ট চালাও"]
+`;
+
+const COMMAND_SPLIT_RESPONSE_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        commands: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['commands'],
+};
+
+const exploreSystemInstruction = (userId: string) => `You are a social media content curator for VoiceBook. Your task is to categorize a list of posts into predefined categories based on the provided JSON data. The user ID of the person browsing is ${userId}.
+    
+    Categories are:
+    - trending: Posts with high engagement (reactionCount, commentCount) that are very recent.
+    - forYou: Posts personalized for the user. Since you don't have user history, base this on a variety of interesting, high-quality content that is likely to be engaging. Create a good mix of content types.
+    - recent: The most recently created posts, based on the 'createdAt' field.
+    - funnyVoiceNotes: Audio posts ('type': 'audio') where the caption suggests humor.
+    - newTalent: Posts from users who might be new or have less content but are showing promise. You don't have user data, so just pick some interesting posts that are not already top trending.
+
+    You will receive a JSON array of simplified post objects. You MUST return a single, valid JSON object with keys corresponding to the categories. Each key's value should be an array of post IDs (strings) belonging to that category. A post can appear in multiple categories. Ensure you return some posts in each category if possible, but don't force it if none fit. Prioritize 'trending' and 'forYou' to be well-populated. Limit each category to a maximum of 10 post IDs.
+    `;
+
+const EXPLORE_RESPONSE_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        trending: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Array of post IDs for trending content." },
+        forYou: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Array of post IDs for personalized content." },
+        recent: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Array of post IDs for recent content." },
+        funnyVoiceNotes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Array of post IDs for funny voice notes." },
+        newTalent: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Array of post IDs for new talent." },
+    },
+    required: ["trending", "forYou", "recent", "funnyVoiceNotes", "newTalent"]
+};
+
+const NLU_RESPONSE_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        intent: { type: Type.STRING },
+        slots: {
+            type: Type.OBJECT,
+            properties: {
+                target_name: { type: Type.STRING },
+                index: { type: Type.STRING },
+                field: { type: Type.STRING },
+                value: { type: Type.STRING },
+                setting: { type: Type.STRING },
+                message_content: { type: Type.STRING },
+                emoji_type: { type: Type.STRING },
+                prompt: { type: Type.STRING },
+                sponsor_name: { type: Type.STRING },
+                caption_text: { type: Type.STRING },
+                budget_amount: { type: Type.STRING },
+                media_type: { type: Type.STRING },
+                group_name: { type: Type.STRING },
+                search_query: { type: Type.STRING },
+                category_name: { type: Type.STRING },
+                option_number: { type: Type.STRING },
+                option_text: { type: Type.STRING },
+                privacy_level: { type: Type.STRING },
+                text: { type: Type.STRING },
+            },
+        },
+    },
+    required: ['intent'],
+};
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+// Returns the first image in a Gemini response as a data URL for easy display.
+const imageDataUrlFromResponse = (response: GenerateContentResponse): string | null => {
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData && part.inlineData.data) {
+            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+    }
+    return null;
+};
+
+const buildIntentContext = (context?: IntentContext): string => {
+    let dynamicContext = "";
+    if (context?.userNames && context.userNames.length > 0) {
+        dynamicContext += `\nFor intents that require a 'target_name' (like open_profile, send_message, add_friend, like, block_user, etc.), the user might say one of these names: [${context.userNames.join(', ')}]. Extract the name exactly as it appears in this list if you find a match.`;
+    }
+    if (context?.groupNames && context.groupNames.length > 0) {
+        dynamicContext += `\nFor intents related to groups (like join_group, leave_group, etc.), here are some available groups: [${context.groupNames.join(', ')}].`;
+    }
+    if (context?.themeNames && context.themeNames.length > 0) {
+        dynamicContext += `\nFor 'intent_change_chat_theme', available themes are: [${context.themeNames.join(', ')}].`;
+    }
+    return dynamicContext;
+};
+
+export const createGeminiAIProvider = (apiKey: string): AIProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+
+        async parseIntent(command: string, context?: IntentContext): Promise<NLUResponse> {
+            const systemInstruction = NLU_SYSTEM_INSTRUCTION_BASE + "\nAvailable Intents:\n" + NLU_INTENT_LIST + buildIntentContext(context);
+            try {
+                const response = await ai.models.generateContent({
+                    model: TEXT_MODEL,
+                    contents: `User command: "${command}"`,
+                    config: {
+                        systemInstruction: systemInstruction,
+                        responseMimeType: "application/json",
+                        responseSchema: NLU_RESPONSE_SCHEMA,
+                        thinkingConfig: { thinkingBudget: 0 }
+                    },
+                });
+                const parsed = JSON.parse((response.text || '').trim());
+                console.log("NLU Response:", parsed);
+                return parsed as NLUResponse;
+            } catch (error) {
+                console.error("Error processing intent:", error);
+                console.error("Failed command:", command);
+                return { intent: 'unknown' };
+            }
+        },
+
+        async correctTranscript(rawText: string): Promise<string> {
+            try {
+                const response = await ai.models.generateContent({
+                    model: TEXT_MODEL,
+                    contents: `Correct the following transcript: "${rawText}"`,
+                    config: {
+                        systemInstruction: TRANSCRIPT_SYSTEM_INSTRUCTION,
+                        temperature: 0.1, // Be precise
+                    },
+                });
+                // Sometimes Gemini might still wrap it in quotes
+                return (response.text || rawText).trim().replace(/^"|"$/g, '');
+            } catch (error) {
+                console.error("Error correcting transcript with Gemini:", error);
+                // Fallback to the original text if AI fails
+                return rawText;
+            }
+        },
+
+        async splitCommand(command: string): Promise<string[]> {
+            try {
+                const response = await ai.models.generateContent({
+                    model: TEXT_MODEL,
+                    contents: `User command: "${command}"`,
+                    config: {
+                        systemInstruction: COMMAND_SPLIT_SYSTEM_INSTRUCTION,
+                        responseMimeType: "application/json",
+                        responseSchema: COMMAND_SPLIT_RESPONSE_SCHEMA,
+                        thinkingConfig: { thinkingBudget: 0 }
+                    },
+                });
+                const commands: string[] = (JSON.parse((response.text || '').trim()).commands || [])
+                    .map((step: string) => step.trim())
+                    .filter(Boolean);
+                return commands.length > 0 ? commands : [command];
+            } catch (error) {
+                console.error("Error splitting command with Gemini:", error);
+                return [command];
+            }
+        },
+
+        // Throws on failure so the caller can fall back to its own local categorization.
+        async categorizeExplorePosts(posts: ExplorePostSummary[], userId: string): Promise<ExploreCategoryIds> {
+            const response = await ai.models.generateContent({
+                model: TEXT_MODEL,
+                contents: JSON.stringify(posts),
+                config: {
+                    systemInstruction: exploreSystemInstruction(userId),
+                    responseMimeType: "application/json",
+                    responseSchema: EXPLORE_RESPONSE_SCHEMA,
+                },
+            });
+            return JSON.parse((response.text || '').trim());
+        },
+
+        // Generates variants in parallel. Variants that fail or come back without an image are
+        // dropped, so the result can be shorter than requested (or empty).
+        async generateImages(prompt: string, count: number): Promise<string[]> {
+            const variants = Math.max(1, Math.min(count, IMAGE_GENERATION_MAX_VARIANTS));
+            const results = await Promise.allSettled(Array.from({ length: variants }, () =>
+                ai.models.generateContent({
+                    model: IMAGE_MODEL,
+                    contents: { parts: [{ text: prompt }] },
+                    config: {
+                        responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    },
+                })
+            ));
+            return results
+                .map(result => {
+                    if (result.status === 'rejected') {
+                        console.error("Error generating image with Gemini:", result.reason);
+                        return null;
+                    }
+                    return imageDataUrlFromResponse(result.value);
+                })
+                .filter((imageUrl): imageUrl is string => !!imageUrl);
+        },
+
+        async editImage(base64ImageData: string, mimeType: string, prompt: string): Promise<string | null> {
+            try {
+                const response = await ai.models.generateContent({
+                    model: IMAGE_MODEL,
+                    contents: { parts: [{ inlineData: { data: base64ImageData, mimeType } }, { text: prompt }] },
+                    config: {
+                        responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    },
+                });
+                return imageDataUrlFromResponse(response);
+            } catch (error) {
+                console.error("Error editing image with Gemini:", error);
+                return null;
+            }
+        },
+    };
+};
@@ -0,0 +1,200 @@
+import { NLUResponse } from '../types';
+import type { IntentContext } from './aiProvider';
+
+// On-device matching for the everyday voice commands, in English, Bangla script and Banglish.
+// Whole-command phrasings are trusted outright; a command that only contains a keyword is
+// reported with low confidence so the caller can hand it to the AI provider instead.
+
+export interface IntentMatch extends NLUResponse {
+  confidence: number;
+}
+
+// Matches at or above this confidence are used without asking the AI provider.
+export const MIN_LOCAL_CONFIDENCE = 0.8;
+
+const PHRASE_CONFIDENCE = 0.95;
+const KEYWORD_CONFIDENCE = 0.6;
+// A phrasing that names someone or something we don't know of is as likely to be a misparse
+// ("add comment", "block notifications"), so it is left to the AI provider.
+const UNKNOWN_NAME_CONFIDENCE = 0.6;
+
+// Common verb endings, so each rule can accept "like koro", "like করো" and "like".
+const DO = '(?:koro|kor|karo|করো|কর|করুন)';
+const SHOW = '(?:dekhao|dekho|দেখাও|দেখো)';
+const GO = '(?:jao|যাও)';
+const OPEN = '(?:kholo|খোলো|open koro)';
+const TO = '(?: (?:e|a|te|এ|তে))?';
+const OBJ = '(?:ke|কে)';
+const OF = "(?:'s| er| এর)";
+
+type PhraseRule = { intent: string; patterns: RegExp[]; slot?: string; knownNames?: keyof IntentContext | null };
+
+// Where each slot's value is looked up. A slot without a list (a new macro's name) is taken as spoken.
+const SLOT_NAMES: Record<string, keyof IntentContext> = {
+  target_name: 'userNames',
+  macro_name: 'macroNames',
+};
+
+// One regex per alternative, since a capture group name can't repeat within a single regex.
+const phrase = (intent: string, alternatives: string[], slot?: string, knownNames: keyof IntentContext | null = slot ? SLOT_NAMES[slot] : null): PhraseRule => ({
+  intent,
+  patterns: alternatives.map(alternative => new RegExp(`^(?:${alternative})$`.normalize('NFC'), 'i')),
+  slot,
+  knownNames,
+});
+
+// Checked in order, so the specific phrasings come before the ones they would otherwise be
+// swallowed by (e.g. "add music" before "add <name>"). Slot rules capture into "value".
+const PHRASE_RULES: PhraseRule[] = [
+  phrase('intent_open_profile', [`(?:open |show )?(?:my|amar|আমার) (?:profile|প্রোফাইল)(?: ${SHOW}| ${OPEN})?`, '(?:open )?profile', 'প্রোফাইল']),
+  phrase('intent_open_profile', [`(?:open |show |go to )?(?<value>.+?)${OF} (?:profile|প্রোফাইল)(?: ${SHOW}| ${OPEN})?`], 'target_name'),
+  phrase('intent_like', [`like (?<value>.+?)${OF} post`], 'target_name'),
+  phrase('intent_search_user', ['search(?: for someone)?', 'find (?:someone|somebody)', 'খোঁজো']),
+  phrase('intent_search_user', [`(?:search(?: for)?|find|look for) (?<value>.+)`, `(?<value>.+?) ${OBJ} (?:khojo|khujo|খোঁজো|খুঁজো|search ${DO})`], 'target_name'),
+  phrase('intent_open_chat', [`(?:open )?chat with (?<value>.+)`, `(?<value>.+?) (?:er|এর) (?:sathe|সাথে) chat (?:${DO}|${OPEN})`], 'target_name'),
+  phrase('intent_send_message', ['send (?:a )?message', 'message (?:someone|somebody)', 'মেসেজ পাঠাও']),
+  phrase('intent_send_message', [`(?:send (?:a )?message to|message (?!${SHOW}$))(?<value>.+)`, `(?<value>.+?) ${OBJ} (?:message|মেসেজ) (?:${DO}|dao|pathao|দাও|পাঠাও)`], 'target_name'),
+  phrase('intent_add_music', ['add music', `(?:gaan|গান) (?:add|যোগ) ${DO}`]),
+  phrase('intent_add_friend', ['send (?:(?:him|her|them) )?(?:a )?friend request', '(?:add|send) (?:him|her|them)(?: as (?:a )?friend| a friend request)?', 'ওকে ফ্রেন্ড রিকোয়েস্ট (?:দাও|পাঠাও)']),
+  phrase('intent_add_friend', [`(?:add|send (?:a )?friend request to) (?<value>.+?)(?: as (?:a )?friend)?`, `(?<value>.+?) ${OBJ} (?:friend|bondhu|বন্ধু) (?:banao|বানাও|request dao|রিকোয়েস্ট দাও)`], 'target_name'),
+  phrase('intent_unblock_user', [`unblock (?<value>.+)`, `(?<value>.+?) ${OBJ} unblock ${DO}`], 'target_name'),
+  phrase('intent_block_user', [`block (?<value>.+)`, `(?<value>.+?) ${OBJ} block ${DO}`], 'target_name'),
+
+  phrase('intent_create_voice_post', ['(?:create|record) (?:a )?voice post', `voice post ${DO}`, 'ভয়েস পোস্ট(?: করো)?']),
+  phrase('intent_create_post', ['(?:create|make|write) (?:a )?(?:new )?post', 'new post', `post ${DO}`, 'kichu likho', 'কিছু লেখো', 'নতুন পোস্ট(?: করো)?', 'পোস্ট করো']),
+  phrase('intent_post_story', ['post (?:the )?story', `story ta post ${DO}`, 'স্টোরি পোস্ট করো']),
+  phrase('intent_create_story', ['(?:create|make) (?:a )?story', 'story banao', 'স্টোরি বানাও']),
+  phrase('intent_like', [`(?:like|লাইক)(?: this| it| (?:the )?post| ${DO}| dao| দাও)?`, 'bhalo legeche', 'ভালো লেগেছে']),
+  phrase('intent_view_comments', ['(?:show|open|view|read) (?:the )?comments', `comment(?: gulo)? ${SHOW}`, 'মন্তব্যগুলো দেখাও']),
+  phrase('intent_comment', [`comment(?: ${DO})?`, `(?:ekta )?montobbo ${DO}`, `(?:একটা )?মন্তব্য(?: ${DO})?`, 'কমেন্ট(?: করো)?']),
+  phrase('intent_share', [`(?:share|শেয়ার)(?: this| it| (?:the )?post| ${DO})?`]),
+  phrase('intent_save_post', ['save(?: this)?(?: post)?', `post ta save ${DO}`, 'সেভ করো']),
+  phrase('intent_hide_post', ['hide(?: this)?(?: post)?', 'eta lukao', 'lukao', 'লুকাও']),
+  phrase('intent_read_post', ['read (?:this|the) post(?: (?:aloud|out loud))?', 'read (?:it|this)(?: (?:aloud|out loud))?', 'post ta pore shonao', 'pore shonao', 'পোস্টটা পড়ে শোনাও', 'পড়ে শোনাও']),
+  phrase('intent_copy_link', ['copy (?:the )?link', `link ta copy ${DO}`, 'লিংক কপি করো']),
+  phrase('intent_report_post', ['report(?: this)?(?: post)?', `report ${DO}`, 'রিপোর্ট করো']),
+
+  phrase('intent_open_feed', [`(?:go to |open )?(?:the )?(?:home|home page|feed|news ?feed)`, `(?:home ?page|feed|news ?feed|হোম পেজ)${TO} ${GO}`, `amar feed ${SHOW}`, 'হোম', 'প্রথম পাতা(?:য় যাও)?']),
+  phrase('intent_open_friend_requests', ['(?:open |show )?(?:my )?friend requests?', `request gulo ${SHOW}`, 'ফ্রেন্ড রিকোয়েস্ট']),
+  phrase('intent_open_friends_page', [`(?:open |show )?(?:my )?friends(?: list| page)?`, `(?:amar )?bondhu(?:der)?(?: list)?(?: ${SHOW})?`, 'friends list', '(?:আমার )?বন্ধু(?:দের)?(?: তালিকা)?(?: দেখাও)?']),
+  phrase('intent_open_messages', ['(?:open |show |go to )?(?:my )?(?:messages|inbox)', `message ${SHOW}`, `inbox${TO} ${GO}`, 'মেসেজ(?: দেখাও)?', 'ইনবক্স']),
+  phrase('intent_open_explore', [`(?:open |go to )?(?:the )?explore(?: page)?(?: ${DO}|${TO} ${GO})?`, 'এক্সপ্লোর(?: করো)?']),
+  phrase('intent_open_reels', ['(?:open |show )?reels', `reels ${SHOW}`, 'রিলস']),
+  phrase('intent_open_audio_rooms', ['(?:open |show )?audio rooms']),
+  phrase('intent_open_video_rooms', ['(?:open |show )?video rooms']),
+  phrase('intent_open_rooms_hub', [`(?:open |go to )?(?:the )?rooms`, `room${TO} ${GO}`, 'রুম', 'রুমে যাও']),
+  phrase('intent_open_groups_hub', ['(?:open |show )?(?:my )?groups', `group gulo ${SHOW}`, 'গ্রুপ(?:গুলো দেখাও)?']),
+  phrase('intent_open_settings', [`(?:open |go to )?settings`, `settings${TO} ${GO}`, 'সেটিংস', 'সেটিংসে যাও']),
+  phrase('intent_open_ads_center', ['(?:open )?(?:the )?ads? center']),
+
+  phrase('intent_stop_listening', ['stop listening', 'hands[- ]free off', '(?:turn|switch) off hands[- ]free(?: mode)?', 'shona bondho koro', 'শোনা বন্ধ করো']),
+  phrase('intent_start_listening', ['start listening', 'hands[- ]free on', '(?:turn|switch) on hands[- ]free(?: mode)?', 'shona chalu koro', 'শোনা চালু করো']),
+  phrase('intent_scroll_up', ['scroll up', 'upore jao', 'উপরে যাও']),
+  phrase('intent_scroll_down', [`scroll(?: down| ${DO})?`, 'niche jao', 'নিচে যাও', 'স্ক্রল করো']),
+  phrase('intent_stop_scroll', ['stop(?: scroll(?:ing)?)?', 'thamo', 'থামো']),
+  phrase('intent_next_image', ['next (?:image|photo|picture)', 'porer chobi', 'পরের ছবি']),
+  phrase('intent_previous_image', ['previous (?:image|photo|picture)', 'ager chobi', 'আগের ছবি']),
+  phrase('intent_next_post', ['next(?: post)?', 'porer post', 'পরের পোস্ট', 'পরেরটা']),
+  phrase('intent_previous_post', ['previous(?: post)?', 'ager post', 'আগের পোস্ট', 'আগেরটা']),
+  phrase('intent_play_post', [`play(?: (?:this|it|the post))?`, `(?:cholao|chalao|চালাও)`]),
+  phrase('intent_pause_post', ['pause(?: (?:this|it|the post))?', 'পজ করো']),
+  phrase('intent_go_back', ['(?:go )?back', 'pichone jao', 'ফিরে যাও', 'পিছনে যাও']),
+  phrase('intent_reload_page', ['reload(?: (?:the )?page)?', 'refresh(?: (?:the )?page)?']),
+  phrase('intent_help', ['help', 'ki ki command ache', 'সাহায্য(?: করো)?', 'কি কি কমান্ড আছে']),
+  phrase('intent_claim_reward', ['claim (?:my )?reward']),
+  phrase('intent_change_password', ['change (?:my )?password', `password change ${DO}`, 'পাসওয়ার্ড পরিবর্তন কর']),
+  phrase('intent_deactivate_account', ['deactivate (?:my )?account', 'আমার অ্যাকাউন্ট নিষ্ক্রিয় কর']),
+  phrase('intent_unfriend_user', ['unfriend(?: (?:him|her|them|this person))?', `unfriend ${DO}`]),
+  phrase('intent_unfriend_user', [`unfriend (?<value>.+)`, `(?<value>.+?) ${OBJ} unfriend ${DO}`], 'target_name'),
+  phrase('intent_delete_chat', ['delete (?:this |the )?(?:chat|conversation)', `chat ta delete ${DO}`, 'চ্যাট মুছে ফেলো']),
+  phrase('intent_delete_chat', [`delete (?:the |my )?(?:chat|conversation) with (?<value>.+)`, `(?<value>.+?) (?:er|এর) (?:sathe|সাথে) chat delete ${DO}`], 'target_name'),
+
+  phrase('intent_start_macro_recording', [`(?:start )?record(?:ing)? (?:a )?macro (?:called |named )?(?<value>.+)`, `(?<value>.+?) macro record ${DO}`], 'macro_name', null),
+  phrase('intent_stop_macro_recording', ['(?:stop recording|save|finish) (?:the )?macro', `macro save ${DO}`, 'ম্যাক্রো সেভ করো']),
+  phrase('intent_delete_macro', [`delete (?:the )?macro (?<value>.+)`, `(?<value>.+?) macro delete ${DO}`], 'macro_name'),
+  phrase('intent_run_macro', [`run (?:the )?(?:macro )?(?<value>.+?)(?: macro)?`, `(?<value>.+?) macro (?:chalao|চালাও)`], 'macro_name'),
+
+  // Answers to the dialogue manager's follow-up questions.
+  phrase('intent_confirm', ['yes(?: please)?', 'yeah', 'yep', 'sure', 'ok(?:ay)?', 'confirm', 'do it', 'haa?n?', 'hyan', 'ji', 'thik ache', 'হ্যাঁ', 'হ্যা', 'জি', 'ঠিক আছে']),
+  phrase('intent_deny', ['no', 'nope', "don't", 'dont', 'na', 'না']),
+  phrase('intent_cancel', ['cancel', 'never ?mind', 'forget it', 'thak', 'baad dao', 'batil koro', 'থাক', 'বাদ দাও', 'বাতিল(?: করো)?']),
+];
+
+// Looser fallbacks for a keyword buried in a longer sentence.
+const KEYWORD_RULES: { intent: string; pattern: RegExp }[] = [
+  { intent: 'intent_like', pattern: /\blike\b|লাইক/i },
+  { intent: 'intent_comment', pattern: /\bcomment\b|montobbo|মন্তব্য/i },
+  { intent: 'intent_share', pattern: /\bshare\b|শেয়ার/i },
+  { intent: 'intent_open_friends_page', pattern: /\bfriends\b|bondhu|বন্ধু/i },
+  { intent: 'intent_open_messages', pattern: /\b(?:messages|inbox)\b|মেসেজ/i },
+  { intent: 'intent_open_explore', pattern: /\bexplore\b|এক্সপ্লোর/i },
+  { intent: 'intent_open_settings', pattern: /\bsettings\b|সেটিংস/i },
+  { intent: 'intent_help', pattern: /\bhelp\b|সাহায্য/i },
+];
+
+const FILLER = /^(?:please|plz|pls|দয়া করে) | (?:please|plz|pls)$/gi;
+
+const normalizeCommand = (command: string): string =>
+  command.normalize('NFC').replace(/[?!.,।"]/g, ' ').replace(/\s+/g, ' ').trim().replace(FILLER, '').trim();
+
+// Matches a spoken name against the names we know of (people on screen, saved macros), preferring
+// their spelling. Anything else is only trusted where the name is expected to be new, and then
+// only if it's short; a long capture is probably a misparse.
+const resolveName = (spoken: string, knownNames: string[] | null): { name: string; confidence: number } => {
+  const spokenLower = spoken.toLowerCase();
+  const known = (knownNames || []).find(name => {
+    const lower = name.toLowerCase();
+    return lower.includes(spokenLower) || spokenLower.includes(lower);
+  });
+  if (known) {
+    return { name: known, confidence: PHRASE_CONFIDENCE };
+  }
+  if (knownNames) {
+    return { name: spoken, confidence: UNKNOWN_NAME_CONFIDENCE };
+  }
+  return { name: spoken, confidence: spoken.split(' ').length <= 3 ? 0.85 : 0.5 };
+};
+
+export const matchIntent = (command: string, context?: IntentContext): IntentMatch | null => {
+  const text = normalizeCommand(command);
+  if (!text) return null;
+
+  for (const rule of PHRASE_RULES) {
+    const match = rule.patterns.map(pattern => text.match(pattern)).find(Boolean);
+    if (!match) continue;
+    const value = match.groups?.value?.trim();
+    if (rule.slot && value) {
+      const { name, confidence } = resolveName(value, rule.knownNames ? context?.[rule.knownNames] || [] : null);
+      return { intent: rule.intent, slots: { [rule.slot]: name }, confidence };
+    }
+    return { intent: rule.intent, confidence: PHRASE_CONFIDENCE };
+  }
+
+  const keywordRule = KEYWORD_RULES.find(rule => rule.pattern.test(text));
+  return keywordRule ? { intent: keywordRule.intent, confidence: KEYWORD_CONFIDENCE } : null;
+};
+
+// Words that join two commands in one breath: "open messages and chat with Rahim".
+const CHAIN_CONNECTOR = /,? (?:and then|then|and|after that|tarpor|তারপর|তারপরে|এবং|আর) /i;
+
+export const hasCommandChain = (command: string): boolean => CHAIN_CONNECTOR.test(normalizeCommand(command));
+
+// Splits a chained command at its connectors, but only when every part is a command this matcher
+// recognises at `minConfidence` or better; "search for Tom and Jerry" stays in one piece unless
+// "Jerry" means something on its own. Returns the command unchanged when it doesn't split.
+export const splitCommandChain = (command: string, minConfidence = 0): string[] => {
+  const parts = normalizeCommand(command).split(new RegExp(CHAIN_CONNECTOR.source, 'gi')).map(part => part.trim());
+  const isCommand = (part: string) => (matchIntent(part)?.confidence ?? -1) >= minConfidence;
+  return parts.length > 1 && parts.every(isCommand) ? parts : [command];
+};
+
+const WAKE_PHRASE = new RegExp('(?:^|\\s)(?:hey|hi|ok|okay|shono|shuno|হেই|হে|শোনো|শুনো)[,\\s]*(?:voice ?book|ভয়েস ?বুক)'.normalize('NFC'), 'i');
+
+// Finds "Hey VoiceBook" / "শোনো ভয়েসবুক" in a hands-free transcript. Returns what was said after
+// it, which is empty when the user paused before giving the command.
+export const matchWakePhrase = (transcript: string): { command: string } | null => {
+  const text = transcript.normalize('NFC');
+  const match = text.match(WAKE_PHRASE);
+  if (!match || match.index === undefined) return null;
+  return { command: text.slice(match.index + match[0].length).replace(/^[\s,.!?।]+/, '').trim() };
+};
@@ -0,0 +1,71 @@
+import { NLUResponse } from '../types';
+import type { AIProvider, IntentContext, ExplorePostSummary, ExploreCategoryIds } from './aiProvider';
+import { matchIntent, splitCommandChain } from './intentMatcher';
+
+// A deterministic stand-in for Gemini, used when no API key is configured or AI_PROVIDER=offline.
+// It understands the commands the local intent matcher knows, never rewrites transcripts and
+// sorts explore posts with simple engagement and recency rules.
+
+const FUNNY_CAPTION = /funny|lol|haha|hasi|মজা|হাসি|😂|🤣/i;
+const CATEGORY_LIMIT = 10;
+
+const engagementOf = (post: ExplorePostSummary) => post.reactionCount + 2 * post.commentCount;
+const idsOf = (posts: ExplorePostSummary[]) => posts.slice(0, CATEGORY_LIMIT).map(p => p.id);
+
+export const offlineAIProvider: AIProvider = {
+    name: 'offline',
+
+    async parseIntent(command: string, context?: IntentContext): Promise<NLUResponse> {
+        // There is nothing to fall back to here, so even low-confidence matches are used.
+        const match = matchIntent(command, context);
+        return match ? { intent: match.intent, slots: match.slots } : { intent: 'unknown' };
+    },
+
+    async correctTranscript(rawText: string): Promise<string> {
+        return rawText;
+    },
+
+    async splitCommand(command: string): Promise<string[]> {
+        return splitCommandChain(command);
+    },
+
+    async categorizeExplorePosts(posts: ExplorePostSummary[]): Promise<ExploreCategoryIds> {
+        const byEngagement = [...posts].sort((a, b) => engagementOf(b) - engagementOf(a) || b.createdAt.localeCompare(a.createdAt));
+        const byRecency = [...posts].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+
+        const recentlyEngaged = byEngagement.filter(p => p.createdAt >= weekAgo && engagementOf(p) > 0);
+        const trending = idsOf(recentlyEngaged.length > 0 ? recentlyEngaged : byEngagement);
+
+        // Alternate between content types, best-engaged first, so the mix stays varied.
+        const queues = (['audio', 'video', 'image/text'] as const).map(type => byEngagement.filter(p => p.type === type));
+        const forYou: ExplorePostSummary[] = [];
+        while (forYou.length < CATEGORY_LIMIT && queues.some(q => q.length > 0)) {
+            queues.forEach(queue => {
+                const next = queue.shift();
+                if (next && forYou.length < CATEGORY_LIMIT) forYou.push(next);
+            });
+        }
+
+        const trendingIds = new Set(trending);
+        const medianEngagement = byEngagement.length > 0 ? engagementOf(byEngagement[Math.floor(byEngagement.length / 2)]) : 0;
+
+        return {
+            trending,
+            forYou: forYou.map(p => p.id),
+            recent: idsOf(byRecency),
+            funnyVoiceNotes: idsOf(byRecency.filter(p => p.type === 'audio' && FUNNY_CAPTION.test(p.caption || ''))),
+            newTalent: idsOf(byRecency.filter(p => !trendingIds.has(p.id) && engagementOf(p) <= medianEngagement)),
+        };
+    },
+
+    async generateImages(): Promise<string[]> {
+        console.warn("Image generation is not available with the offline AI provider.");
+        return [];
+    },
+
+    async editImage(): Promise<string | null> {
+        console.warn("Image editing is not available with the offline AI provider.");
+        return null;
+    },
+};
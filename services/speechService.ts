@@ -0,0 +1,113 @@
+import type { Language } from '../i18n';
+
+// Spoken feedback through the browser's speech synthesis. Only one utterance plays at a time and
+// at most one waits behind it: a newer prompt replaces the waiting one, so a burst of status
+// messages doesn't turn into a long backlog. Callers interrupt when the old speech is stale.
+
+export interface SpeechPreferences {
+  language: Language;
+  rate: number;
+  voiceURI: string | null;
+  muted: boolean;
+}
+
+export const SPEECH_RATE_MIN = 0.5;
+export const SPEECH_RATE_MAX = 2;
+
+export const SPEECH_LOCALES: Record<Language, string> = { en: 'en-US', bn: 'bn-BD' };
+const BANGLA_SCRIPT = /[\u0980-\u09FF]/;
+
+let preferences: SpeechPreferences = { language: 'en', rate: 1, voiceURI: null, muted: false };
+let currentUtterance: SpeechSynthesisUtterance | null = null;
+let pending: { text: string; language: Language } | null = null;
+
+const getSynth = (): SpeechSynthesis | null =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null;
+
+const voicesFor = (language: Language): SpeechSynthesisVoice[] =>
+  (getSynth()?.getVoices() || []).filter(voice => voice.lang.toLowerCase().startsWith(language));
+
+// The chosen voice when it speaks this language, otherwise the platform's first match. With no
+// match at all the utterance still carries the locale, and the browser picks what it can.
+const pickVoice = (language: Language): SpeechSynthesisVoice | undefined => {
+  const voices = voicesFor(language);
+  return voices.find(voice => voice.voiceURI === preferences.voiceURI)
+    || voices.find(voice => voice.lang.toLowerCase() === SPEECH_LOCALES[language].toLowerCase())
+    || voices[0];
+};
+
+const speakNow = (text: string, language: Language) => {
+  const synth = getSynth();
+  if (!synth) return;
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = SPEECH_LOCALES[language];
+  utterance.rate = preferences.rate;
+  const voice = pickVoice(language);
+  if (voice) utterance.voice = voice;
+
+  const handleDone = () => {
+    if (currentUtterance !== utterance) return;
+    currentUtterance = null;
+    const next = pending;
+    pending = null;
+    if (next) speakNow(next.text, next.language);
+  };
+  utterance.onend = handleDone;
+  utterance.onerror = handleDone;
+
+  currentUtterance = utterance;
+  synth.speak(utterance);
+};
+
+export const speechService = {
+  isSupported(): boolean {
+    return getSynth() !== null;
+  },
+
+  configure(updates: Partial<SpeechPreferences>) {
+    preferences = { ...preferences, ...updates };
+    if (preferences.muted) {
+      speechService.stop();
+    }
+  },
+
+  // Text containing Bangla script is always read with a Bangla voice; anything else uses the
+  // app language unless the caller says otherwise.
+  speak(text: string, options?: { interrupt?: boolean; language?: Language }) {
+    const trimmed = text.trim();
+    if (!getSynth() || preferences.muted || !trimmed) return;
+
+    const language = options?.language || (BANGLA_SCRIPT.test(trimmed) ? 'bn' : preferences.language);
+    if (options?.interrupt) {
+      speechService.stop();
+    }
+    if (currentUtterance) {
+      pending = { text: trimmed, language };
+      return;
+    }
+    speakNow(trimmed, language);
+  },
+
+  isSpeaking(): boolean {
+    return currentUtterance !== null;
+  },
+
+  stop() {
+    pending = null;
+    currentUtterance = null;
+    getSynth()?.cancel();
+  },
+
+  getVoices(language: Language): SpeechSynthesisVoice[] {
+    return voicesFor(language);
+  },
+
+  // Browsers load voices asynchronously; returns an unsubscribe function.
+  onVoicesChanged(callback: () => void): () => void {
+    const synth = getSynth();
+    if (!synth) return () => {};
+    synth.addEventListener('voiceschanged', callback);
+    return () => synth.removeEventListener('voiceschanged', callback);
+  },
+};
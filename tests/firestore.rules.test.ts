@@ -0,0 +1,702 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { arrayRemove, arrayUnion, collection, deleteDoc, doc, getDoc, getDocs, increment, orderBy, query, serverTimestamp, setDoc, Timestamp, updateDoc, where, writeBatch, type DocumentData } from 'firebase/firestore';
+import { SPONSOR_CPM_BDT } from '../constants';
+
+// Runs against the Firestore emulator started by `npm test` (firebase emulators:exec).
+// Each case seeds what it needs with rules disabled, then checks one allowed and one denied write or read.
+
+let testEnv: RulesTestEnvironment;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const inDays = (days: number) => Timestamp.fromMillis(Date.now() + days * DAY_MS);
+// Day ids as written by the app, yyyy_mm_dd in UTC.
+const today = () => new Date().toISOString().slice(0, 10).replace(/-/g, '_');
+
+const author = (id: string) => ({ id, name: id, username: id, avatarUrl: '' });
+
+const seed = (docs: Record<string, DocumentData>) => testEnv.withSecurityRulesDisabled(async context => {
+  for (const [path, data] of Object.entries(docs)) {
+    await setDoc(doc(context.firestore(), path), data);
+  }
+});
+
+const as = (uid: string, token: Record<string, any> = {}) => testEnv.authenticatedContext(uid, token).firestore();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-voicebook',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+afterAll(() => testEnv?.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed({
+    'users/alice': { name: 'Alice', friendIds: [] },
+    'users/bob': { name: 'Bob', friendIds: [] },
+    'users/carol': { name: 'Carol', friendIds: [] },
+    'users/admin': { name: 'Admin', role: 'admin' },
+  });
+});
+
+describe('users', () => {
+  it('lets people create their own profile without moderation fields', async () => {
+    await assertSucceeds(setDoc(doc(as('dave'), 'users/dave'), { name: 'Dave', voiceCoins: 100 }));
+    await assertFails(setDoc(doc(as('erin'), 'users/erin'), { name: 'Erin', role: 'admin' }));
+  });
+
+  it('lets owners edit their profile but not other people\'s', async () => {
+    await assertSucceeds(updateDoc(doc(as('alice'), 'users/alice'), { name: 'Alice B' }));
+    await assertFails(updateDoc(doc(as('bob'), 'users/alice'), { name: 'Not Alice' }));
+  });
+
+  it('only puts someone on a friend list when they accept that user\'s friend request', async () => {
+    await seed({ 'friendRequests/alice_bob': { from: author('alice'), to: author('bob'), status: 'pending' } });
+
+    const db = as('bob');
+    const accept = writeBatch(db);
+    accept.update(doc(db, 'users/alice'), { friendIds: arrayUnion('bob') });
+    accept.update(doc(db, 'users/bob'), { friendIds: arrayUnion('alice') });
+    accept.delete(doc(db, 'friendRequests/alice_bob'));
+    await assertSucceeds(accept.commit());
+
+    await assertFails(updateDoc(doc(as('carol'), 'users/alice'), { friendIds: arrayUnion('carol') }));
+  });
+
+  it('lets anyone take themselves off a friend list', async () => {
+    await seed({ 'users/alice': { name: 'Alice', friendIds: ['bob', 'carol'] } });
+    await assertSucceeds(updateDoc(doc(as('bob'), 'users/alice'), { friendIds: arrayRemove('bob') }));
+    await assertFails(updateDoc(doc(as('bob'), 'users/alice'), { friendIds: arrayRemove('carol') }));
+  });
+
+  it('only lets a verified invitee make themselves an admin', async () => {
+    await seed({
+      'users/eve': { name: 'Eve' },
+      'adminInvites/eve@example.com': { email: 'eve@example.com', status: 'pending', invitedBy: 'admin', expiresAt: inDays(7) },
+    });
+    // Redeeming an invite accepts it in the same write, as _resolveAdminAccess does.
+    const redeem = (uid: string, token: Record<string, any>) => {
+      const db = as(uid, token);
+      const batch = writeBatch(db);
+      batch.update(doc(db, `users/${uid}`), { role: 'admin' });
+      batch.update(doc(db, `adminInvites/${token.email}`), { status: 'accepted', acceptedBy: uid, acceptedAt: serverTimestamp() });
+      return batch.commit();
+    };
+    await assertFails(redeem('eve', { email: 'eve@example.com', email_verified: false }));
+    await assertFails(redeem('bob', { email: 'bob@example.com', email_verified: true }));
+    await assertSucceeds(redeem('eve', { email: 'eve@example.com', email_verified: true }));
+  });
+
+  it('does not make an invitee an admin without accepting the invite', async () => {
+    await seed({
+      'users/eve': { name: 'Eve' },
+      'adminInvites/eve@example.com': { email: 'eve@example.com', status: 'pending', invitedBy: 'admin', expiresAt: inDays(7) },
+    });
+    await assertFails(updateDoc(doc(as('eve', { email: 'eve@example.com', email_verified: true }), 'users/eve'), { role: 'admin' }));
+  });
+});
+
+describe('coin ledger', () => {
+  // A ledger entry and the balance it produces, written together as _setCoinEntry does.
+  const entry = (batch: ReturnType<typeof writeBatch>, db: ReturnType<typeof as>, uid: string, id: string, data: DocumentData, balanceAfter: number) => {
+    batch.set(doc(db, `users/${uid}/coinTransactions/${id}`), { ...data, balanceAfter, createdAt: serverTimestamp() });
+    batch.update(doc(db, `users/${uid}`), { voiceCoins: balanceAfter, lastCoinTransactionId: id });
+  };
+  const watchAd = (rewardedAds: number, amount = 5) => {
+    const db = as('alice');
+    const batch = writeBatch(db);
+    batch.set(doc(db, `users/alice/coinEarnings/${today()}`), { rewardedAds });
+    entry(batch, db, 'alice', 'e1', { type: 'earn', amount, reason: 'rewarded_ad', referenceId: 'camp1' }, 50 + amount);
+    return batch.commit();
+  };
+  const spend = (amount: number, balanceAfter: number) => {
+    const db = as('alice');
+    const batch = writeBatch(db);
+    entry(batch, db, 'alice', 's1', { type: 'spend', amount, reason: 'gift_sent' }, balanceAfter);
+    return batch.commit();
+  };
+
+  beforeEach(() => seed({
+    'users/alice': { name: 'Alice', friendIds: [], voiceCoins: 50 },
+    'campaigns/camp1': { sponsorId: 'carol', status: 'active', adType: 'feed', budget: 500 },
+  }));
+
+  it('only moves a balance together with a matching ledger entry', async () => {
+    await assertFails(updateDoc(doc(as('alice'), 'users/alice'), { voiceCoins: 1000 }));
+    await assertFails(spend(20, 40));
+    await assertFails(spend(60, -10));
+    await assertSucceeds(spend(20, 30));
+  });
+
+  it('pays a rewarded ad once per ad', async () => {
+    await assertFails(watchAd(1, 50));
+    await assertFails(watchAd(2));
+    await assertSucceeds(watchAd(1));
+  });
+
+  it('stops paying rewarded ads at the daily limit', async () => {
+    await seed({ [`users/alice/coinEarnings/${today()}`]: { rewardedAds: 10 } });
+    await assertFails(watchAd(11));
+  });
+
+  it('only pays rewarded ads for active campaigns', async () => {
+    await seed({ 'campaigns/camp1': { sponsorId: 'carol', status: 'finished', adType: 'feed', budget: 500 } });
+    await assertFails(watchAd(1));
+  });
+
+  it('pays the signup bonus to new accounts only', async () => {
+    const signUp = (uid: string) => {
+      const db = as(uid);
+      const batch = writeBatch(db);
+      batch.set(doc(db, `users/${uid}/coinTransactions/b1`), { type: 'earn', amount: 100, reason: 'signup_bonus', balanceAfter: 100 });
+      batch.set(doc(db, `users/${uid}`), { name: uid, voiceCoins: 100, lastCoinTransactionId: 'b1' }, { merge: true });
+      return batch.commit();
+    };
+    await assertFails(signUp('alice'));
+    await assertSucceeds(signUp('dave'));
+  });
+
+  it('keeps entries private and immutable', async () => {
+    await seed({ 'users/alice/coinTransactions/s0': { type: 'spend', amount: 5, reason: 'gift_sent', balanceAfter: 50 } });
+    await assertSucceeds(getDoc(doc(as('alice'), 'users/alice/coinTransactions/s0')));
+    await assertFails(getDoc(doc(as('bob'), 'users/alice/coinTransactions/s0')));
+    await assertFails(updateDoc(doc(as('alice'), 'users/alice/coinTransactions/s0'), { amount: 1 }));
+    await assertFails(deleteDoc(doc(as('alice'), 'users/alice/coinTransactions/s0')));
+  });
+
+  it('counts rewarded ads for today only, one at a time', async () => {
+    await assertFails(setDoc(doc(as('alice'), 'users/alice/coinEarnings/2000_01_01'), { rewardedAds: 1 }));
+    await assertFails(setDoc(doc(as('alice'), `users/alice/coinEarnings/${today()}`), { rewardedAds: 5 }));
+    await assertFails(setDoc(doc(as('bob'), `users/alice/coinEarnings/${today()}`), { rewardedAds: 1 }));
+    await assertSucceeds(setDoc(doc(as('alice'), `users/alice/coinEarnings/${today()}`), { rewardedAds: 1 }));
+  });
+});
+
+describe('friendRequests', () => {
+  it('lets people send requests in their own name only', async () => {
+    const request = { from: author('alice'), to: author('bob'), status: 'pending' };
+    await assertSucceeds(setDoc(doc(as('alice'), 'friendRequests/alice_bob'), request));
+    await assertFails(setDoc(doc(as('carol'), 'friendRequests/alice_bob'), request));
+  });
+});
+
+describe('posts', () => {
+  const comment = (id: string, authorId: string, extra: DocumentData = {}) => ({ id, postId: 'post1', author: author(authorId), text: `comment ${id}`, reactions: {}, ...extra });
+
+  beforeEach(() => seed({
+    'posts/post1': { author: author('carol'), caption: 'Hello', reactions: {}, commentCount: 1, comments: [comment('c1', 'alice')] },
+  }));
+
+  it('lets people post as themselves unless suspended', async () => {
+    await assertSucceeds(setDoc(doc(as('bob'), 'posts/post2'), { author: author('bob'), caption: 'Hi' }));
+    await assertFails(setDoc(doc(as('bob'), 'posts/post3'), { author: author('alice'), caption: 'Hi' }));
+
+    await seed({ 'users/bob': { name: 'Bob', postingSuspendedUntil: inDays(3) } });
+    await assertFails(setDoc(doc(as('bob'), 'posts/post4'), { author: author('bob'), caption: 'Hi' }));
+  });
+
+  it('lets people append their own comment only', async () => {
+    await assertSucceeds(updateDoc(doc(as('bob'), 'posts/post1'), { comments: arrayUnion(comment('c2', 'bob')), commentCount: increment(1) }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { comments: arrayUnion(comment('c3', 'alice')), commentCount: increment(1) }));
+  });
+
+  it('keeps suspended commenters from commenting', async () => {
+    await seed({ 'users/bob': { name: 'Bob', commentingSuspendedUntil: inDays(3) } });
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { comments: arrayUnion(comment('c2', 'bob')), commentCount: increment(1) }));
+  });
+
+  it('lets comment authors edit their comment but not anyone else', async () => {
+    await assertSucceeds(updateDoc(doc(as('alice'), 'posts/post1'), { comments: [comment('c1', 'alice', { text: 'edited' })] }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { comments: [comment('c1', 'alice', { text: 'vandalised' })] }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { comments: [], commentCount: 0 }));
+  });
+
+  it('lets anyone react to a comment with their own reaction only', async () => {
+    await assertSucceeds(updateDoc(doc(as('bob'), 'posts/post1'), { comments: [comment('c1', 'alice', { reactions: { bob: '❤️' } })] }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { comments: [comment('c1', 'alice', { reactions: { carol: '❤️' } })] }));
+  });
+
+  it('lets anyone react to the post itself', async () => {
+    await assertSucceeds(updateDoc(doc(as('bob'), 'posts/post1'), { 'reactions.bob': '👍' }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { caption: 'Edited by someone else' }));
+  });
+
+  it('keeps people from changing other people\'s reactions', async () => {
+    await seed({ 'posts/post1': { author: author('carol'), caption: 'Hello', reactions: { alice: '❤️' }, commentCount: 0, comments: [] } });
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { reactions: {} }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { 'reactions.alice': '😡' }));
+  });
+
+  it('lets people react to an image with their own reaction only', async () => {
+    await assertSucceeds(updateDoc(doc(as('bob'), 'posts/post1'), { 'imageReactionsByUser.bob.img1': '😮' }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { 'imageReactionsByUser.alice.img1': '😮' }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { 'imageReactions.img1.alice': '😮' }));
+  });
+
+  it('lets people vote once in a poll and change nothing else', async () => {
+    const option = (text: string, votedBy: string[]) => ({ text, votes: votedBy.length, votedBy });
+    const poll = (options: DocumentData[]) => ({ question: 'Tea or coffee?', options });
+    await seed({ 'posts/post1': { author: author('carol'), caption: 'Poll', reactions: {}, commentCount: 0, comments: [], poll: poll([option('Tea', ['alice']), option('Coffee', [])]) } });
+
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { poll: poll([option('Tea', []), option('Coffee', ['bob'])]) }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { poll: poll([option('Tea', ['alice']), { text: 'Juice', votes: 1, votedBy: ['bob'] }]) }));
+    await assertFails(updateDoc(doc(as('alice'), 'posts/post1'), { poll: poll([option('Tea', ['alice']), option('Coffee', ['alice'])]) }));
+    await assertSucceeds(updateDoc(doc(as('bob'), 'posts/post1'), { poll: poll([option('Tea', ['alice']), option('Coffee', ['bob'])]) }));
+    await assertFails(updateDoc(doc(as('bob'), 'posts/post1'), { poll: poll([option('Tea', ['alice', 'bob']), option('Coffee', ['bob'])]) }));
+  });
+});
+
+describe('stories', () => {
+  beforeEach(() => seed({
+    'users/alice': { name: 'Alice', friendIds: ['bob'] },
+    'stories/public1': { author: author('alice'), privacy: 'public', expiresAt: inDays(1) },
+    'stories/friends1': { author: author('alice'), privacy: 'friends', audienceIds: ['bob'], expiresAt: inDays(1) },
+  }));
+
+  it('shows public stories to everyone signed in', async () => {
+    await assertSucceeds(getDoc(doc(as('carol'), 'stories/public1')));
+    await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'stories/public1')));
+  });
+
+  it('shows friends-only stories to the author and their friends only', async () => {
+    await assertSucceeds(getDoc(doc(as('alice'), 'stories/friends1')));
+    await assertSucceeds(getDoc(doc(as('bob'), 'stories/friends1')));
+    await assertFails(getDoc(doc(as('carol'), 'stories/friends1')));
+  });
+
+  it('lets friends run the getStories query for friends-only stories', async () => {
+    const friendsStories = (uid: string, audienceId: string) => getDocs(query(collection(as(uid), 'stories'),
+      where('expiresAt', '>', Timestamp.now()), where('audienceIds', 'array-contains', audienceId),
+      where('privacy', '==', 'friends'), orderBy('expiresAt', 'asc')));
+    const snapshot = await assertSucceeds(friendsStories('bob', 'bob'));
+    expect(snapshot.docs.map(d => d.id)).toEqual(['friends1']);
+    await assertFails(friendsStories('carol', 'bob'));
+    await assertFails(getDocs(query(collection(as('carol'), 'stories'), where('privacy', '==', 'friends'))));
+  });
+});
+
+describe('chats', () => {
+  beforeEach(() => seed({
+    'chats/alice_bob': { participants: ['alice', 'bob'] },
+    'chats/alice_bob/messages/m1': { senderId: 'alice', text: 'Hi', read: false },
+  }));
+
+  it('is open to its two participants only', async () => {
+    await assertSucceeds(getDoc(doc(as('bob'), 'chats/alice_bob')));
+    await assertFails(getDoc(doc(as('carol'), 'chats/alice_bob')));
+    await assertFails(getDoc(doc(as('carol'), 'chats/alice_bob/messages/m1')));
+  });
+
+  it('lets participants send messages in their own name only', async () => {
+    await assertSucceeds(setDoc(doc(as('bob'), 'chats/alice_bob/messages/m2'), { senderId: 'bob', text: 'Hello' }));
+    await assertFails(setDoc(doc(as('bob'), 'chats/alice_bob/messages/m3'), { senderId: 'alice', text: 'Hello' }));
+  });
+
+  it('lets the other participant mark a message read but not edit it', async () => {
+    await assertSucceeds(updateDoc(doc(as('bob'), 'chats/alice_bob/messages/m1'), { read: true }));
+    await assertFails(updateDoc(doc(as('bob'), 'chats/alice_bob/messages/m1'), { text: 'Edited' }));
+  });
+
+  it('keeps chat settings to the participants', async () => {
+    await assertSucceeds(setDoc(doc(as('bob'), 'chatSettings/alice_bob'), { theme: 'ocean' }));
+    await assertFails(setDoc(doc(as('carol'), 'chatSettings/alice_bob'), { theme: 'ocean' }));
+  });
+});
+
+describe('calls', () => {
+  const call = { caller: author('alice'), callee: author('bob'), status: 'ringing', type: 'audio' };
+
+  it('lets people place calls in their own name only', async () => {
+    await assertSucceeds(setDoc(doc(as('alice'), 'calls/c1'), call));
+    await assertFails(setDoc(doc(as('carol'), 'calls/c2'), call));
+  });
+
+  it('is seen and answered by the two parties only', async () => {
+    await seed({ 'calls/c1': call });
+    await assertSucceeds(updateDoc(doc(as('bob'), 'calls/c1'), { status: 'active' }));
+    await assertFails(getDoc(doc(as('carol'), 'calls/c1')));
+    await assertFails(updateDoc(doc(as('carol'), 'calls/c1'), { status: 'ended' }));
+  });
+});
+
+describe('groups', () => {
+  const group = (privacy: string, memberIds: string[]) => ({
+    name: 'Readers',
+    creator: author('carol'),
+    privacy,
+    members: memberIds.map(author),
+    memberIds,
+    memberCount: memberIds.length,
+    admins: [author('carol')],
+    adminIds: ['carol'],
+    moderators: [],
+    joinRequests: [],
+  });
+  const join = (uid: string, by = 1) => ({ members: arrayUnion(author(uid)), memberIds: arrayUnion(uid), memberCount: increment(by) });
+
+  beforeEach(() => seed({
+    'groups/public1': group('public', ['carol', 'alice']),
+    'groups/private1': group('private', ['carol', 'alice']),
+  }));
+
+  it('lets people join public groups directly, changing only their own entry', async () => {
+    await assertFails(updateDoc(doc(as('bob'), 'groups/public1'), join('bob', 5)));
+    await assertFails(updateDoc(doc(as('bob'), 'groups/public1'), join('dave')));
+    await assertSucceeds(updateDoc(doc(as('bob'), 'groups/public1'), join('bob')));
+  });
+
+  it('makes people ask to join private groups', async () => {
+    await assertFails(updateDoc(doc(as('bob'), 'groups/private1'), join('bob')));
+    await assertFails(updateDoc(doc(as('bob'), 'groups/private1'), { joinRequests: arrayUnion({ user: author('dave'), answers: [] }) }));
+    await assertSucceeds(updateDoc(doc(as('bob'), 'groups/private1'), { joinRequests: arrayUnion({ user: author('bob'), answers: [] }) }));
+  });
+
+  it('lets members leave but not remove anyone else', async () => {
+    await assertFails(updateDoc(doc(as('bob'), 'groups/public1'), { members: arrayRemove(author('alice')), memberIds: arrayRemove('alice'), memberCount: increment(-1) }));
+    await assertSucceeds(updateDoc(doc(as('alice'), 'groups/public1'), { members: arrayRemove(author('alice')), memberIds: arrayRemove('alice'), memberCount: increment(-1) }));
+  });
+
+  it('lets group admins manage the group', async () => {
+    await assertSucceeds(updateDoc(doc(as('carol'), 'groups/private1'), { name: 'Book club' }));
+    await assertFails(updateDoc(doc(as('alice'), 'groups/private1'), { name: 'Book club' }));
+  });
+});
+
+describe('groupChats', () => {
+  beforeEach(() => seed({
+    'groups/g1': { name: 'Readers', creator: author('carol'), adminIds: ['carol'], memberIds: ['carol', 'alice'] },
+    'groupChats/g1': { groupId: 'g1' },
+  }));
+
+  it('is open to group members only', async () => {
+    await assertSucceeds(getDoc(doc(as('alice'), 'groupChats/g1')));
+    await assertFails(getDoc(doc(as('bob'), 'groupChats/g1')));
+  });
+
+  it('lets members post in their own name only', async () => {
+    await assertSucceeds(setDoc(doc(as('alice'), 'groupChats/g1/messages/m1'), { sender: author('alice'), text: 'Hi' }));
+    await assertFails(setDoc(doc(as('alice'), 'groupChats/g1/messages/m2'), { sender: author('carol'), text: 'Hi' }));
+    await assertFails(setDoc(doc(as('bob'), 'groupChats/g1/messages/m3'), { sender: author('bob'), text: 'Hi' }));
+  });
+});
+
+describe('events', () => {
+  const rsvp = (uid: string) => ({ ...author(uid), status: 'going', respondedAt: new Date().toISOString() });
+  const respond = (uid: string, forUid = uid) => updateDoc(doc(as(uid), 'events/e1'), {
+    [`rsvps.${forUid}`]: rsvp(forUid),
+    reminderRecipientIds: arrayUnion(forUid),
+  });
+
+  beforeEach(() => seed({
+    'groups/g1': { name: 'Readers', creator: author('carol'), adminIds: ['carol'], memberIds: ['carol', 'alice'] },
+    'events/e1': { groupId: 'g1', creator: author('carol'), title: 'Meetup', rsvps: { carol: rsvp('carol') }, reminderRecipientIds: ['carol'], remindersSent: {} },
+  }));
+
+  it('lets group members RSVP for themselves only', async () => {
+    await assertFails(respond('bob'));
+    await assertFails(respond('alice', 'carol'));
+    await assertSucceeds(respond('alice'));
+  });
+
+  it('leaves creating events to group admins', async () => {
+    const event = (uid: string) => ({ groupId: 'g1', creator: author(uid), title: 'Book swap', rsvps: {}, reminderRecipientIds: [uid] });
+    await assertSucceeds(setDoc(doc(as('carol'), 'events/e2'), event('carol')));
+    await assertFails(setDoc(doc(as('alice'), 'events/e3'), event('alice')));
+  });
+});
+
+describe('live rooms', () => {
+  beforeEach(() => seed({
+    'users/alice': { name: 'Alice', friendIds: [], voiceCoins: 50, lastCoinTransactionId: 'old1' },
+    'users/carol': { name: 'Carol', friendIds: [], voiceCoins: 0 },
+    'users/alice/coinTransactions/old1': { type: 'spend', amount: 40, reason: 'gift_sent', counterparty: author('carol'), balanceAfter: 50 },
+    'liveAudioRooms/r1': { host: author('carol'), topic: 'Books', status: 'live', listeners: [], speakers: [author('carol')], raisedHands: [] },
+    'liveVideoRooms/v1': { host: author('carol'), topic: 'Books', status: 'live', participants: [] },
+  }));
+
+  it('leaves the room itself to its host while others join', async () => {
+    await assertSucceeds(updateDoc(doc(as('carol'), 'liveAudioRooms/r1'), { topic: 'Poetry' }));
+    await assertFails(updateDoc(doc(as('alice'), 'liveAudioRooms/r1'), { status: 'ended' }));
+    await assertSucceeds(updateDoc(doc(as('alice'), 'liveAudioRooms/r1'), { listeners: arrayUnion(author('alice')) }));
+    await assertFails(updateDoc(doc(as('alice'), 'liveVideoRooms/v1'), { status: 'ended' }));
+    await assertSucceeds(updateDoc(doc(as('alice'), 'liveVideoRooms/v1'), { participants: arrayUnion({ ...author('alice'), isMuted: true, isCameraOff: true }) }));
+  });
+
+  it('lets people chat in their own name only', async () => {
+    await assertSucceeds(setDoc(doc(as('alice'), 'liveAudioRooms/r1/messages/m1'), { sender: author('alice'), text: 'Hi' }));
+    await assertFails(setDoc(doc(as('alice'), 'liveVideoRooms/v1/messages/m1'), { sender: author('carol'), text: 'Hi' }));
+  });
+
+  describe('gifts', () => {
+    // A gift to the host as sendCoins writes it: both ledger entries, both balances and the gift.
+    const sendGift = (room: string, id: string, amount: number) => {
+      const db = as('alice');
+      const batch = writeBatch(db);
+      const shared = { amount, referenceId: room.split('/')[1], giftContext: room.startsWith('liveAudioRooms') ? 'live_audio_room' : 'live_video_room' };
+      batch.set(doc(db, `users/alice/coinTransactions/${id}`), { ...shared, type: 'spend', reason: 'gift_sent', counterparty: author('carol'), balanceAfter: 50 - amount });
+      batch.update(doc(db, 'users/alice'), { voiceCoins: 50 - amount, lastCoinTransactionId: id });
+      batch.set(doc(db, `users/carol/coinTransactions/${id}`), { ...shared, type: 'earn', reason: 'gift_received', counterparty: author('alice'), balanceAfter: amount });
+      batch.update(doc(db, 'users/carol'), { voiceCoins: amount, lastCoinTransactionId: id });
+      batch.set(doc(db, `${room}/gifts/${id}`), { sender: author('alice'), recipientId: 'carol', amount, emoji: '🪙' });
+      return batch.commit();
+    };
+    const gift = (amount: number) => ({ sender: author('alice'), recipientId: 'carol', amount, emoji: '🪙' });
+
+    it('records a gift to the host together with its ledger entries', async () => {
+      await assertFails(sendGift('liveAudioRooms/r1', 'g1', 60));
+      await assertSucceeds(sendGift('liveAudioRooms/r1', 'g1', 10));
+    });
+
+    it('records gifts in video rooms the same way', async () => {
+      await assertSucceeds(sendGift('liveVideoRooms/v1', 'g2', 10));
+    });
+
+    it('does not record a gift without a new ledger entry', async () => {
+      await assertFails(setDoc(doc(as('alice'), 'liveAudioRooms/r1/gifts/g3'), gift(10)));
+      await assertFails(setDoc(doc(as('alice'), 'liveAudioRooms/r1/gifts/old1'), gift(40)));
+      await assertFails(setDoc(doc(as('alice'), 'liveVideoRooms/v1/gifts/old1'), gift(40)));
+    });
+
+    it('does not let the credited side be written without the sender paying', async () => {
+      const db = as('alice');
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'users/carol/coinTransactions/g4'), { amount: 10, type: 'earn', reason: 'gift_received', counterparty: author('alice'), balanceAfter: 10 });
+      batch.update(doc(db, 'users/carol'), { voiceCoins: 10, lastCoinTransactionId: 'g4' });
+      await assertFails(batch.commit());
+    });
+  });
+});
+
+describe('notifications', () => {
+  const reminder = (actorId: string) => ({ recipientId: 'bob', type: 'event_reminder', user: author(actorId), read: false });
+
+  it('lets attendees write their own event reminders from the system actor', async () => {
+    await assertSucceeds(setDoc(doc(as('bob'), 'notifications/2026_01_01/items/n1'), reminder('system')));
+    await assertFails(setDoc(doc(as('bob'), 'notifications/2026_01_01/items/n2'), reminder('group1')));
+  });
+
+  it('only lets people notify others in their own name', async () => {
+    await assertSucceeds(setDoc(doc(as('alice'), 'notifications/2026_01_01/items/n3'), { recipientId: 'bob', type: 'like', user: author('alice') }));
+    await assertFails(setDoc(doc(as('alice'), 'notifications/2026_01_01/items/n4'), { recipientId: 'bob', type: 'like', user: author('carol') }));
+  });
+});
+
+describe('reports', () => {
+  it('lets people file reports in their own name and only admins review them', async () => {
+    await assertSucceeds(setDoc(doc(as('bob'), 'reports/r1'), { reporterId: 'bob', reportedContentId: 'post1', status: 'pending' }));
+    await assertFails(setDoc(doc(as('bob'), 'reports/r2'), { reporterId: 'alice', reportedContentId: 'post1', status: 'pending' }));
+
+    await assertSucceeds(updateDoc(doc(as('admin'), 'reports/r1'), { status: 'resolved' }));
+    await assertFails(getDoc(doc(as('bob'), 'reports/r1')));
+  });
+});
+
+describe('campaigns', () => {
+  const campaign = { sponsorId: 'bob', status: 'pending', adType: 'feed', budget: 500, transactionId: 'TRX1' };
+
+  // A campaign is filed together with its payment, as submitCampaignForApproval does.
+  const submit = (data: DocumentData) => {
+    const db = as('bob');
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'campaigns/camp1'), data);
+    batch.set(doc(db, 'payments/TRX1'), { sponsorId: 'bob', campaignId: 'camp1', transactionId: 'TRX1', amount: 500, status: 'pending' });
+    return batch.commit();
+  };
+
+  it('lets sponsors create pending campaigns but not activate them', async () => {
+    await assertFails(submit({ ...campaign, status: 'active' }));
+    await assertSucceeds(submit(campaign));
+  });
+
+  it('only creates a campaign together with its own payment', async () => {
+    await assertFails(setDoc(doc(as('bob'), 'campaigns/camp1'), campaign));
+    await seed({ 'payments/TRX1': { sponsorId: 'bob', campaignId: 'camp0', transactionId: 'TRX1', amount: 500, status: 'pending' } });
+    await assertFails(setDoc(doc(as('bob'), 'campaigns/camp1'), campaign));
+  });
+
+  it('only lets the count of clicks go up by one', async () => {
+    await seed({ 'campaigns/camp1': { ...campaign, status: 'active', clicks: 3, views: 10 } });
+    await assertSucceeds(updateDoc(doc(as('alice'), 'campaigns/camp1'), { clicks: 4 }));
+    await assertFails(updateDoc(doc(as('alice'), 'campaigns/camp1'), { clicks: 0 }));
+  });
+
+  describe('impressions', () => {
+    const cost = SPONSOR_CPM_BDT / 1000;
+    const live = { ...campaign, status: 'active', views: 10, spent: 3, spentToday: 1.5, spendDate: today() };
+    const view = (update: DocumentData) => updateDoc(doc(as('alice'), 'campaigns/camp1'), update);
+
+    it('charges one impression at SPONSOR_CPM_BDT / 1000', async () => {
+      await seed({ 'campaigns/camp1': live });
+      await assertFails(view({ views: 11, spent: 3 + cost + 0.1, spentToday: 1.5 + cost + 0.1, spendDate: today() }));
+      await assertSucceeds(view({ views: 11, spent: 3 + cost, spentToday: 1.5 + cost, spendDate: today() }));
+    });
+
+    it('does not let spend jump ahead of views', async () => {
+      await seed({ 'campaigns/camp1': { ...live, spent: 0 } });
+      await assertFails(view({ views: 11, spent: 11 * cost, spentToday: 1.5 + 11 * cost, spendDate: today() }));
+    });
+
+    it('ties spentToday to the same step and starts it again on a new day', async () => {
+      await seed({ 'campaigns/camp1': live });
+      await assertFails(view({ views: 11, spent: 3 + cost, spentToday: 0, spendDate: today() }));
+      await assertFails(view({ views: 11, spent: 3 + cost, spentToday: cost, spendDate: '2000_01_01' }));
+      await seed({ 'campaigns/camp1': { ...live, spendDate: '2000_01_01' } });
+      await assertSucceeds(view({ views: 11, spent: 3 + cost, spentToday: cost, spendDate: today() }));
+    });
+
+    it('finishes the campaign only when the budget is used up', async () => {
+      await seed({ 'campaigns/camp1': { ...live, budget: 3.1 } });
+      await assertFails(view({ status: 'finished' }));
+      await assertSucceeds(view({ views: 11, spent: 3.1, spentToday: 1.6, spendDate: today(), status: 'finished' }));
+      await seed({ 'campaigns/camp1': { ...live, budget: 3 } });
+      await assertSucceeds(view({ status: 'finished' }));
+    });
+  });
+});
+
+describe('campaign dailyStats', () => {
+  const cost = SPONSOR_CPM_BDT / 1000;
+  const live = { sponsorId: 'carol', status: 'active', adType: 'feed', budget: 500, views: 10, spent: 3, spentToday: 1.5, spendDate: today() };
+  const segments = { city: 'Dhaka', gender: 'female', ageBand: '18-25' };
+  const stats = () => `campaigns/camp1/dailyStats/${today()}`;
+  // The same merge payload the app writes for one event.
+  const event = (metric: string, { by = 1, spend = 0, city = segments.city } = {}) => ({
+    date: today().replace(/_/g, '-'),
+    [metric]: increment(by),
+    ...(spend ? { spend: increment(spend) } : {}),
+    lastEvent: { metric, ...segments, city },
+    breakdown: {
+      city: { [city]: { [metric]: increment(by) } },
+      gender: { [segments.gender]: { [metric]: increment(by) } },
+      ageBand: { [segments.ageBand]: { [metric]: increment(by) } },
+    },
+  });
+  const record = (data: DocumentData) => setDoc(doc(as('bob'), stats()), data, { merge: true });
+
+  beforeEach(() => seed({ 'campaigns/camp1': live }));
+
+  it('counts one event per write, in the viewer\'s segments only', async () => {
+    await assertSucceeds(record(event('clicks')));
+    await assertFails(record(event('clicks', { by: 5 })));
+    await assertFails(record({ ...event('clicks'), lastEvent: { metric: 'clicks', ...segments, city: 'Sylhet' } }));
+    await assertFails(record({ ...event('clicks'), leads: increment(1) }));
+    await assertSucceeds(record(event('clicks', { city: 'Sylhet' })));
+  });
+
+  it('charges an impression what the same write adds to the campaign\'s spend', async () => {
+    const view = (spend: number) => {
+      const db = as('bob');
+      const batch = writeBatch(db);
+      batch.update(doc(db, 'campaigns/camp1'), { views: 11, spent: 3 + cost, spentToday: 1.5 + cost, spendDate: today() });
+      batch.set(doc(db, stats()), event('impressions', { spend }), { merge: true });
+      return batch.commit();
+    };
+    await assertFails(record(event('impressions', { spend: cost })));
+    await assertFails(view(1));
+    await assertSucceeds(view(cost));
+    await assertFails(record(event('clicks', { spend: cost })));
+  });
+
+  it('only records stats for active campaigns', async () => {
+    await seed({ 'campaigns/camp1': { ...live, status: 'finished' } });
+    await assertFails(record(event('clicks')));
+  });
+});
+
+describe('payments', () => {
+  const submit = (amount: number) => {
+    const db = as('bob');
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'campaigns/camp1'), { sponsorId: 'bob', status: 'pending', adType: 'feed', budget: 500, transactionId: 'TRX1' });
+    batch.set(doc(db, 'payments/TRX1'), { sponsorId: 'bob', campaignId: 'camp1', transactionId: 'TRX1', amount, status: 'pending' });
+    return batch.commit();
+  };
+
+  it('only accepts a payment for the campaign\'s whole budget', async () => {
+    await assertFails(submit(100));
+    await assertSucceeds(submit(500));
+  });
+
+  it('leaves verification to admins', async () => {
+    await seed({ 'payments/TRX1': { sponsorId: 'bob', campaignId: 'camp1', transactionId: 'TRX1', amount: 500, status: 'pending' } });
+    await assertFails(updateDoc(doc(as('bob'), 'payments/TRX1'), { status: 'verified' }));
+    await assertSucceeds(updateDoc(doc(as('admin'), 'payments/TRX1'), { status: 'verified' }));
+  });
+});
+
+describe('leads', () => {
+  beforeEach(() => seed({ 'campaigns/camp1': { sponsorId: 'carol', status: 'active', adType: 'feed', budget: 500 } }));
+
+  it('lets people file leads for themselves only', async () => {
+    const lead = { campaignId: 'camp1', sponsorId: 'carol', userName: 'Bob', userPhone: '01700000000' };
+    await assertSucceeds(setDoc(doc(as('bob'), 'leads/lead1'), { ...lead, userId: 'bob' }));
+    await assertFails(setDoc(doc(as('bob'), 'leads/lead2'), { ...lead, userId: 'alice' }));
+  });
+
+  it('shows leads to the campaign\'s sponsor only', async () => {
+    await seed({ 'leads/lead1': { campaignId: 'camp1', sponsorId: 'carol', userId: 'bob' } });
+    await assertSucceeds(getDoc(doc(as('carol'), 'leads/lead1')));
+    await assertFails(getDoc(doc(as('alice'), 'leads/lead1')));
+  });
+});
+
+describe('adminInvites', () => {
+  const invite = () => ({
+    email: 'eve@example.com',
+    invitedBy: 'admin',
+    invitedByEmail: 'admin@example.com',
+    status: 'pending',
+    createdAt: Timestamp.now(),
+    expiresAt: inDays(7),
+  });
+
+  it('lets admins invite and re-invite', async () => {
+    await assertSucceeds(setDoc(doc(as('admin'), 'adminInvites/eve@example.com'), invite()));
+    await seed({ 'adminInvites/frank@example.com': { ...invite(), email: 'frank@example.com', status: 'revoked' } });
+    await assertSucceeds(setDoc(doc(as('admin'), 'adminInvites/frank@example.com'), { ...invite(), email: 'frank@example.com' }));
+    await assertFails(setDoc(doc(as('bob'), 'adminInvites/bob@example.com'), { ...invite(), email: 'bob@example.com', invitedBy: 'bob' }));
+  });
+
+  it('only lets a verified invitee accept', async () => {
+    await seed({ 'adminInvites/eve@example.com': invite() });
+    const accept = { status: 'accepted', acceptedBy: 'eve', acceptedAt: serverTimestamp() };
+    await assertFails(updateDoc(doc(as('eve', { email: 'eve@example.com', email_verified: false }), 'adminInvites/eve@example.com'), accept));
+    await assertSucceeds(updateDoc(doc(as('eve', { email: 'eve@example.com', email_verified: true }), 'adminInvites/eve@example.com'), accept));
+  });
+});
+
+describe('adminAuditLog', () => {
+  it('is written by admins in their own name and never changed', async () => {
+    await assertSucceeds(setDoc(doc(as('admin'), 'adminAuditLog/e1'), { adminId: 'admin', action: 'ban_user' }));
+    await assertFails(setDoc(doc(as('bob'), 'adminAuditLog/e2'), { adminId: 'bob', action: 'ban_user' }));
+    await assertFails(deleteDoc(doc(as('admin'), 'adminAuditLog/e1')));
+  });
+});
+
+describe('voice commands', () => {
+  it('keeps command history private to its owner', async () => {
+    const entry = { rawTranscript: 'open feed', correctedTranscript: 'open feed', intent: 'intent_open_feed', success: true };
+    await assertSucceeds(setDoc(doc(as('bob'), 'users/bob/commandHistory/h1'), entry));
+    await assertFails(setDoc(doc(as('alice'), 'users/bob/commandHistory/h2'), entry));
+  });
+
+  it('lets anyone count a miss but only admins read them', async () => {
+    await assertSucceeds(setDoc(doc(as('bob'), 'voiceCommandMisses/foo'), { phrase: 'foo', count: 1, unknownCount: 1, misrecognizedCount: 0 }));
+    await assertFails(getDoc(doc(as('bob'), 'voiceCommandMisses/foo')));
+    await assertSucceeds(getDoc(doc(as('admin'), 'voiceCommandMisses/foo')));
+  });
+
+  it('counts each miss once, under exactly one kind', async () => {
+    await assertFails(setDoc(doc(as('bob'), 'voiceCommandMisses/foo'), { phrase: 'foo', count: 1, unknownCount: 1, misrecognizedCount: 1 }));
+    await seed({ 'voiceCommandMisses/foo': { phrase: 'foo', count: 2, unknownCount: 2, misrecognizedCount: 0 } });
+    const miss = doc(as('bob'), 'voiceCommandMisses/foo');
+    await assertFails(updateDoc(miss, { count: increment(5), unknownCount: increment(5) }));
+    await assertFails(updateDoc(miss, { count: increment(1), unknownCount: increment(1), misrecognizedCount: increment(1) }));
+    await assertFails(updateDoc(miss, { count: increment(1), phrase: 'bar' }));
+    await assertSucceeds(updateDoc(miss, { count: increment(1), misrecognizedCount: increment(1) }));
+  });
+});
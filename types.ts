@@ -5,7 +5,7 @@ export type Language = 'en' | 'bn';
 // --- Enums and Simple Types ---
 
 export enum AppView {
-  AUTH, FEED, EXPLORE, REELS, CREATE_POST, CREATE_REEL, PROFILE, SETTINGS, POST_DETAILS, FRIENDS, SEARCH_RESULTS, CONVERSATIONS, ADS_CENTER, ROOMS_HUB, ROOMS_LIST, LIVE_ROOM, VIDEO_ROOMS_LIST, LIVE_VIDEO_ROOM, GROUPS_HUB, GROUP_PAGE, MANAGE_GROUP, GROUP_CHAT, GROUP_EVENTS, CREATE_EVENT, CREATE_STORY, STORY_VIEWER, STORY_PRIVACY, GROUP_INVITE, CALL_SCREEN, MOBILE_MENU, HELP
+  AUTH, FEED, EXPLORE, REELS, CREATE_POST, CREATE_REEL, PROFILE, SETTINGS, POST_DETAILS, FRIENDS, SEARCH_RESULTS, CONVERSATIONS, ADS_CENTER, ROOMS_HUB, ROOMS_LIST, LIVE_ROOM, VIDEO_ROOMS_LIST, LIVE_VIDEO_ROOM, GROUPS_HUB, GROUP_PAGE, MANAGE_GROUP, GROUP_CHAT, GROUP_EVENTS, CREATE_EVENT, CREATE_STORY, STORY_VIEWER, STORY_PRIVACY, GROUP_INVITE, CALL_SCREEN, MOBILE_MENU, HELP, VOICE_COINS
 }
 
 export enum VoiceState {
@@ -71,17 +71,21 @@ export interface User {
   friendIds: string[];
   groupIds?: string[];
   voiceCoins: number;
+  lastCoinTransactionId?: string; // Ledger entry that produced the current balance
   createdAt: string | any; // Can be server timestamp
   onlineStatus: 'online' | 'offline';
   lastActiveTimestamp?: string;
   role?: 'user' | 'admin';
   isDeactivated?: boolean;
   isBanned?: boolean;
+  banReason?: string;
+  bannedAt?: string;
   commentingSuspendedUntil?: string;
   postingSuspendedUntil?: string;
   work?: string;
   education?: string;
   currentCity?: string;
+  district?: string; // currentCity normalized to a BANGLADESH_DISTRICTS name
   hometown?: string;
   relationshipStatus?: 'Single' | 'In a relationship' | 'Engaged' | 'Married' | "It's complicated" | 'Prefer not to say';
   age?: number;
@@ -90,6 +94,15 @@ export interface User {
   pinnedChatIds?: string[];
   archivedChatIds?: string[];
   savedPostIds?: string[];
+  followedTopics?: GroupCategory[];
+  interestScores?: { [category: string]: number }; // Reactions to group posts, per group category
+  voiceMacros?: VoiceMacro[];
+}
+
+// A named list of voice commands the user can replay by saying its name.
+export interface VoiceMacro {
+  name: string;
+  commands: string[];
 }
 
 export interface Author {
@@ -137,7 +150,7 @@ export interface Post {
   audioUrl?: string;
   duration: number;
   reactions: { [userId: string]: string }; // Post-level reactions
-  imageReactions?: { [imageId: string]: { [userId: string]: string } }; // Per-image reactions
+  imageReactions?: { [imageId: string]: { [userId: string]: string } }; // Per-image reactions, merged from imageReactionsByUser
   commentCount: number;
   comments: Comment[];
   isSponsored?: boolean;
@@ -170,6 +183,14 @@ export interface ReplyInfo {
   content: string;
 }
 
+export interface StoryReplyInfo {
+  storyId: string;
+  storyType: Story['type'];
+  previewUrl?: string;
+  previewText?: string;
+  reaction?: string; // Set when the message is an emoji reaction rather than a reply
+}
+
 export interface Message {
   id: string;
   senderId: string;
@@ -184,6 +205,7 @@ export interface Message {
   duration?: number;
   reactions?: { [emoji: string]: string[] };
   replyTo?: ReplyInfo;
+  storyReply?: StoryReplyInfo;
   // For call history
   callType?: 'audio' | 'video';
   callStatus?: Call['status'];
@@ -222,9 +244,13 @@ export interface Story {
   textStyle?: StoryTextStyle;
   duration: number; // in seconds
   createdAt: string;
+  expiresAt?: string;
   viewedBy: string[];
+  viewerTimestamps?: { [userId: string]: string };
+  reactions?: { [userId: string]: string };
   music?: MusicTrack;
   privacy: StoryPrivacy;
+  audienceIds?: string[]; // For friends-only stories, the author's friends when it was posted
   isSponsored?: boolean;
   sponsorName?: string;
   sponsorAvatar?: string;
@@ -232,6 +258,12 @@ export interface Story {
   ctaLink?: string;
 }
 
+export interface StoryViewer {
+  user: Author;
+  viewedAt: string;
+  reaction?: string;
+}
+
 export interface Campaign {
   id: string;
   sponsorId: string;
@@ -252,18 +284,118 @@ export interface Campaign {
   paymentStatus?: 'pending' | 'verified' | 'failed';
   paymentVerifiedBy?: string;
   adType: 'feed' | 'story';
+  durationDays?: number; // Spend is paced evenly across this many days from approval
+  startedAt?: string;
+  finishedAt?: string;
+  spent?: number; // BDT, recorded with each impression
+  spentToday?: number;
+  spendDate?: string; // UTC day that spentToday belongs to
   targeting?: {
-    location?: string;
+    location?: string; // District name
+    radiusKm?: number; // Also reach districts whose headquarters are within this distance
     gender?: 'Male' | 'Female' | 'All';
     ageRange?: string;
     interests?: string[];
   };
 }
 
+export interface BangladeshDistrict {
+  name: string;
+  nameBn: string;
+  division: string;
+  lat: number; // District headquarters
+  lng: number;
+  aliases?: string[]; // Older and alternate spellings, English and Bangla
+}
+
+export type CoinTransactionReason = 'signup_bonus' | 'rewarded_ad' | 'image_generation' | 'gift_sent' | 'gift_received';
+
+// Where a coin gift was sent from; referenceId then holds the post or room id.
+export type CoinGiftContext = 'profile' | 'chat' | 'post' | 'live_audio_room' | 'live_video_room';
+
+// An immutable Voice Coins ledger entry, stored under users/{id}/coinTransactions.
+export interface CoinTransaction {
+  id: string;
+  type: 'earn' | 'spend';
+  amount: number; // Always positive; type gives the direction
+  reason: CoinTransactionReason;
+  referenceId?: string; // e.g. the campaign behind a rewarded ad
+  counterparty?: Author; // The other side of a gift
+  giftContext?: CoinGiftContext;
+  message?: string;
+  balanceAfter: number;
+  createdAt: string;
+}
+
+// A gift sent to a live room's host, stored under {room}/gifts so everyone in the room sees it.
+export interface LiveRoomGift {
+  id: string; // Same id as the sender's and host's ledger entries
+  sender: Author;
+  recipientId: string;
+  amount: number;
+  emoji: string;
+  createdAt: string;
+}
+
+export type PaymentMethod = 'bkash' | 'nagad';
+
+export interface PaymentSubmission {
+  method: PaymentMethod;
+  senderNumber: string;
+  transactionId: string;
+}
+
+// One entry per mobile-money transaction, keyed by its normalized transaction id so that
+// the same TrxID can never be claimed for two campaigns.
+export interface Payment extends PaymentSubmission {
+  id: string;
+  campaignId: string;
+  sponsorId: string;
+  sponsorName: string;
+  amount: number; // BDT the sponsor was asked to send
+  status: 'pending' | 'verified' | 'failed';
+  createdAt: string;
+  verifiedBy?: string;
+  verifiedByEmail?: string;
+  verifiedAt?: string;
+  failureReason?: string;
+  reconciledAt?: string; // Set when verified by matching a merchant statement
+}
+
+// A row from the bKash/Nagad merchant statement export.
+export interface PaymentStatementRow {
+  transactionId: string;
+  amount: number;
+  senderNumber?: string;
+}
+
+export interface PaymentReconciliationResult {
+  verified: Payment[];
+  amountMismatches: { payment: Payment; row: PaymentStatementRow }[];
+  alreadyProcessed: Payment[];
+  unmatchedRows: PaymentStatementRow[]; // In the statement but never claimed by a sponsor
+}
+
+export interface CampaignStatCounts {
+  impressions: number;
+  clicks: number;
+  leads: number;
+  messages: number; // Conversations opened with the sponsor from the ad
+}
+
+export type CampaignBreakdownDimension = 'city' | 'gender' | 'ageBand';
+
+export interface CampaignDailyStats extends CampaignStatCounts {
+  date: string; // YYYY-MM-DD (UTC)
+  spend: number;
+  breakdown: { [D in CampaignBreakdownDimension]?: { [segment: string]: Partial<CampaignStatCounts> } };
+}
+
 export interface Lead {
   id: string;
   campaignId: string;
   sponsorId: string;
+  userId: string;
   userName: string;
   userEmail: string;
   userPhone?: string;
@@ -273,15 +405,19 @@ export interface Lead {
 export interface Notification {
   id: string;
   recipientId: string;
-  type: 'like' | 'comment' | 'mention' | 'friend_request' | 'friend_request_approved' | 'campaign_approved' | 'campaign_rejected' | 'admin_announcement' | 'admin_warning' | 'group_post' | 'group_join_request' | 'group_request_approved';
+  type: 'like' | 'comment' | 'mention' | 'friend_request' | 'friend_request_approved' | 'campaign_approved' | 'campaign_rejected' | 'admin_announcement' | 'admin_warning' | 'group_post' | 'group_join_request' | 'group_request_approved' | 'event_reminder' | 'report_resolved' | 'coins_received';
   user: Author; // The user who initiated the action
   post?: { id: string; caption?: string };
   comment?: { id: string; text?: string }; // For comment replies/mentions
   groupId?: string;
   groupName?: string;
+  eventId?: string;
+  eventTitle?: string;
+  eventDate?: string;
   campaignName?: string;
   rejectionReason?: string;
   message?: string;
+  coinAmount?: number;
   read: boolean;
   createdAt: string;
 }
@@ -289,6 +425,49 @@ export interface Notification {
 export interface AdminUser {
   id: string;
   email: string;
+  name?: string;
+  mfaEnabled?: boolean;
+}
+
+export interface AdminInvite {
+  id: string;
+  email: string;
+  invitedBy: string;
+  invitedByEmail: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type AdminAuditAction =
+  | 'ban_user' | 'unban_user' | 'warn_user' | 'reactivate_user' | 'update_user_role'
+  | 'suspend_commenting' | 'lift_commenting_suspension' | 'suspend_posting' | 'lift_posting_suspension'
+  | 'delete_post' | 'delete_comment'
+  | 'approve_campaign' | 'reject_campaign' | 'verify_payment' | 'reject_payment'
+  | 'resolve_report'
+  | 'invite_admin' | 'revoke_admin_invite';
+
+export interface AdminAuditLogEntry {
+  id: string;
+  adminId: string;
+  adminEmail: string;
+  action: AdminAuditAction;
+  targetType: 'user' | 'post' | 'comment' | 'campaign' | 'report' | 'admin_invite' | 'payment';
+  targetId: string;
+  before?: { [key: string]: any } | null;
+  after?: { [key: string]: any } | null;
+  reason?: string;
+  createdAt: string;
+}
+
+// Applied in the Firestore query, so they cover the whole log rather than one loaded page.
+// `from` and `to` are ISO timestamps; the rest are exact matches.
+export interface AdminAuditLogFilters {
+  adminEmail?: string;
+  action?: AdminAuditAction;
+  targetId?: string;
+  from?: string;
+  to?: string;
 }
 
 export interface LiveAudioRoom {
@@ -335,6 +514,7 @@ export interface Group {
     memberIds: string[];
     memberCount: number;
     admins: Author[];
+    adminIds?: string[];
     moderators: Author[];
     privacy: 'public' | 'private';
     createdAt: string;
@@ -367,14 +547,23 @@ export interface GroupChat {
     messages: GroupChatMessage[];
 }
 
+export type EventRsvpStatus = 'going' | 'interested' | 'not_going';
+
+export interface EventAttendee extends Author {
+    status: EventRsvpStatus;
+    respondedAt?: string;
+}
+
 export interface Event {
     id: string;
     groupId: string;
+    groupName?: string;
     creator: Author;
     title: string;
     description: string;
     date: string;
-    attendees: Author[];
+    endDate?: string;
+    attendees: EventAttendee[];
 }
 
 export interface ChatSettings {
@@ -396,6 +585,34 @@ export interface Call {
 export interface NLUResponse {
   intent: string;
   slots?: { [key: string]: string | number };
+  // Set by the dialogue manager once the user has said yes to a destructive intent.
+  confirmed?: boolean;
+}
+
+// One command as heard and as understood, kept under users/{id}/commandHistory.
+export interface VoiceCommandHistoryEntry {
+  id: string;
+  rawTranscript: string; // What speech recognition heard (or what was typed)
+  correctedTranscript: string; // After correctTranscript; what the NLU was given
+  intent: string;
+  slots?: { [key: string]: string | number };
+  success: boolean;
+  misrecognized?: boolean; // The user said it wasn't what they meant
+  expectedMeaning?: string;
+  createdAt: string;
+}
+
+// A phrasing the NLU didn't understand or got wrong, counted across all users.
+export interface VoiceCommandMiss {
+  id: string;
+  phrase: string;
+  count: number;
+  unknownCount: number;
+  misrecognizedCount: number;
+  lastIntent?: string;
+  lastExpectedMeaning?: string;
+  lastRawTranscript?: string;
+  lastSeenAt: string;
 }
 
 export interface CategorizedExploreFeed {
@@ -406,6 +623,8 @@ export interface CategorizedExploreFeed {
     newTalent: Post[];
 }
 
+export type ReportResolutionAction = 'dismiss' | 'delete_content' | 'warn' | 'suspend' | 'ban';
+
 export interface Report {
     id: string;
     reporterId: string;
@@ -413,10 +632,19 @@ export interface Report {
     reportedUserId: string;
     reportedContentId: string;
     reportedContentType: 'post' | 'comment' | 'user';
+    reportedPostId?: string; // The post a reported comment belongs to
     reason: string;
     status: 'pending' | 'resolved';
     createdAt: string;
     resolution?: string;
+    resolutionAction?: ReportResolutionAction;
+    resolvedBy?: string;
+    resolvedAt?: string;
+    // Inlined by getPendingReports for review; not stored on the report document.
+    reportedPost?: Post | null;
+    reportedComment?: Comment | null;
+    isPostUnknown?: boolean; // A comment report filed before reportedPostId was stored, with no newer report to borrow it from
+    reportedUser?: User | null;
 }
 
 export interface LiveAudioRoomMessage {
@@ -444,4 +672,11 @@ export interface DashboardStats {
     activeUsersNow: number;
     pendingReports: number;
     pendingPayments: number;
+}
+
+export interface DashboardTimeSeriesPoint {
+    date: string; // YYYY-MM-DD (UTC)
+    signups: number;
+    posts: number;
+    reports: number;
 }
\ No newline at end of file
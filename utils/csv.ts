@@ -0,0 +1,21 @@
+// Spreadsheet apps run a cell that starts with one of these as a formula. Exports include text
+// written by other users (lead names, report reasons), so such cells are prefixed to stay text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const escapeCsvValue = (value: string): string => {
+    const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const downloadCsv = (filename: string, rows: string[][]) => {
+    const csv = rows.map(row => row.map(escapeCsvValue).join(',')).join('\n');
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};